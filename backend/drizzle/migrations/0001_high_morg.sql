@@ -0,0 +1,4 @@
+ALTER TABLE "projects" ADD COLUMN "build_cpus" real;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "build_memory_mb" integer;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "build_disk_mb" integer;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "build_network_enabled" boolean DEFAULT true NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "projects" ADD COLUMN "package_manager" text;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "install_command" text;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "project_env_vars" (
+	"id" text PRIMARY KEY NOT NULL,
+	"project_id" text NOT NULL,
+	"key" text NOT NULL,
+	"value_encrypted" text NOT NULL,
+	"is_secret" boolean DEFAULT true NOT NULL,
+	"target" text DEFAULT 'all' NOT NULL,
+	"branch" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "project_env_vars" ADD CONSTRAINT "project_env_vars_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
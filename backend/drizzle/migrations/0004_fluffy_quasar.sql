@@ -0,0 +1,11 @@
+CREATE TABLE "deployment_logs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"deployment_id" text NOT NULL,
+	"seq" integer NOT NULL,
+	"stage" text NOT NULL,
+	"content" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "deployment_logs" ADD CONSTRAINT "deployment_logs_deployment_id_deployments_id_fk" FOREIGN KEY ("deployment_id") REFERENCES "public"."deployments"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "deployment_logs_deployment_seq_idx" ON "deployment_logs" USING btree ("deployment_id","seq");
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE "deployment_jobs" (
+	"id" text PRIMARY KEY NOT NULL,
+	"deployment_id" text NOT NULL,
+	"project_id" text NOT NULL,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 3 NOT NULL,
+	"locked_by" text,
+	"locked_until" timestamp with time zone,
+	"heartbeat_at" timestamp with time zone,
+	"last_completed_stage" text,
+	"last_error" text,
+	"run_after" timestamp with time zone DEFAULT now() NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "deployment_jobs_deployment_id_unique" UNIQUE("deployment_id")
+);
+--> statement-breakpoint
+ALTER TABLE "deployment_jobs" ADD CONSTRAINT "deployment_jobs_deployment_id_deployments_id_fk" FOREIGN KEY ("deployment_id") REFERENCES "public"."deployments"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deployment_jobs" ADD CONSTRAINT "deployment_jobs_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "deployment_jobs_status_run_after_idx" ON "deployment_jobs" USING btree ("status","run_after");--> statement-breakpoint
+CREATE UNIQUE INDEX "deployment_jobs_project_running_idx" ON "deployment_jobs" USING btree ("project_id") WHERE "deployment_jobs"."status" = 'running';
\ No newline at end of file
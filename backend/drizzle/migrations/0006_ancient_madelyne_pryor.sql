@@ -0,0 +1,5 @@
+ALTER TABLE "deployment_jobs" ADD COLUMN "user_id" text;--> statement-breakpoint
+ALTER TABLE "deployment_jobs" ADD COLUMN "priority" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "deployment_jobs" ADD COLUMN "started_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "deployment_jobs" ADD COLUMN "completed_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "deployment_jobs" ADD CONSTRAINT "deployment_jobs_user_id_users_wallet_address_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("wallet_address") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
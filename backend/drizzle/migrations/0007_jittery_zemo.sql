@@ -0,0 +1,12 @@
+CREATE TABLE "deployment_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"deployment_id" text NOT NULL,
+	"from_status" text,
+	"to_status" text NOT NULL,
+	"actor" text NOT NULL,
+	"metadata" jsonb,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "deployment_events" ADD CONSTRAINT "deployment_events_deployment_id_deployments_id_fk" FOREIGN KEY ("deployment_id") REFERENCES "public"."deployments"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "deployment_events_deployment_created_idx" ON "deployment_events" USING btree ("deployment_id","created_at");
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "deployment_stage_timings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"deployment_id" text NOT NULL,
+	"stage" text NOT NULL,
+	"started_at" timestamp with time zone NOT NULL,
+	"ended_at" timestamp with time zone,
+	"outcome" text
+);
+--> statement-breakpoint
+ALTER TABLE "deployment_stage_timings" ADD CONSTRAINT "deployment_stage_timings_deployment_id_deployments_id_fk" FOREIGN KEY ("deployment_id") REFERENCES "public"."deployments"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "deployment_stage_timings_deployment_idx" ON "deployment_stage_timings" USING btree ("deployment_id","started_at");
\ No newline at end of file
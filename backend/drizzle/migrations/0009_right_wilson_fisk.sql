@@ -0,0 +1 @@
+ALTER TABLE "deployments" ADD COLUMN "git_ref" text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "projects" ADD COLUMN "git_submodules" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "git_lfs" boolean DEFAULT false NOT NULL;
\ No newline at end of file
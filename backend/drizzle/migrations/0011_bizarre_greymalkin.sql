@@ -0,0 +1 @@
+ALTER TABLE "projects" ADD COLUMN "node_version" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "projects" ADD COLUMN "generator_version" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "projects" ADD COLUMN "gateway_path_mode" text DEFAULT 'report' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "deployment_files" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"deployment_id" text NOT NULL,
+	"path" text NOT NULL,
+	"size" bigint NOT NULL,
+	"content_type" text NOT NULL,
+	"cid" text NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "deployment_files" ADD CONSTRAINT "deployment_files_deployment_id_deployments_id_fk" FOREIGN KEY ("deployment_id") REFERENCES "public"."deployments"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "deployment_files_deployment_path_idx" ON "deployment_files" USING btree ("deployment_id","path");
\ No newline at end of file
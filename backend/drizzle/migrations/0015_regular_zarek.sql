@@ -0,0 +1,5 @@
+ALTER TABLE "deployments" ADD COLUMN "piece_cid" text;--> statement-breakpoint
+ALTER TABLE "deployments" ADD COLUMN "data_set_id" integer;--> statement-breakpoint
+ALTER TABLE "deployments" ADD COLUMN "provider_id" integer;--> statement-breakpoint
+ALTER TABLE "deployments" ADD COLUMN "outcome" text;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "force_reupload" boolean DEFAULT false NOT NULL;
\ No newline at end of file
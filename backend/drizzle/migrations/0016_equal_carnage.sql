@@ -0,0 +1,2 @@
+ALTER TABLE "deployments" ADD COLUMN "unixfs_settings" jsonb;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "unixfs_settings" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "deployments" ADD COLUMN "car_verification" jsonb;
\ No newline at end of file
@@ -29,6 +29,37 @@ const envSchema = z.object({
 
   CLEANUP_BUILDS_ON_COMPLETE: z.string().default('true').transform((val) => val === 'true'),
 
+  BUILD_EXECUTOR: z.enum(['host', 'container', 'bubblewrap']).default('host'),
+  BUILD_CONTAINER_RUNTIME: z.enum(['podman', 'docker']).default('podman'),
+  BUILD_CONTAINER_IMAGE: z.string().min(1).default('node:20-bookworm'),
+  BUILD_SANDBOX_HIDDEN_PATHS: z.string().optional(),
+  BUILD_DEFAULT_CPUS: z.string().default('2').transform((val) => parseFloat(val)),
+  BUILD_DEFAULT_MEMORY_MB: z.string().default('4096').transform((val) => parseInt(val, 10)),
+  BUILD_DEFAULT_DISK_MB: z.string().default('10240').transform((val) => parseInt(val, 10)),
+  BUILD_MAX_CPUS: z.string().default('8').transform((val) => parseFloat(val)),
+  BUILD_MAX_MEMORY_MB: z.string().default('16384').transform((val) => parseInt(val, 10)),
+  BUILD_MAX_DISK_MB: z.string().default('51200').transform((val) => parseInt(val, 10)),
+
+  BUILD_CACHE_ENABLED: z.string().default('true').transform((val) => val === 'true'),
+  BUILD_CACHE_MAX_AGE_DAYS: z.string().default('14').transform((val) => parseInt(val, 10)),
+  BUILD_CACHE_MAX_SIZE_MB: z.string().default('20480').transform((val) => parseInt(val, 10)),
+
+  NODE_TOOLCHAINS_DIR: z.string().min(1).optional(),
+  GENERATOR_TOOLCHAINS_DIR: z.string().min(1).optional(),
+
+  DEPLOYMENT_JOB_LEASE_SECONDS: z.string().default('60').transform((val) => parseInt(val, 10)),
+  DEPLOYMENT_JOB_POLL_INTERVAL_MS: z.string().default('2000').transform((val) => parseInt(val, 10)),
+  DEPLOYMENT_JOB_MAX_ATTEMPTS: z.string().default('3').transform((val) => parseInt(val, 10)),
+  MAX_CONCURRENT_BUILDS: z.string().default('4').transform((val) => parseInt(val, 10)),
+  MAX_CONCURRENT_BUILDS_PER_USER: z.string().default('0').transform((val) => parseInt(val, 10)),
+  BUILD_QUEUE_FAIRNESS: z.string().default('true').transform((val) => val === 'true'),
+  BUILD_WORKER_PROCESSES: z.string().default('1').transform((val) => parseInt(val, 10)),
+  BUILD_WORKER_CONCURRENCY: z.string().default('1').transform((val) => parseInt(val, 10)),
+
+  METRICS_TOKEN: z.string().min(16).optional(),
+  METRICS_ALLOWED_IPS: z.string().optional(),
+  WORKER_METRICS_PORT: z.string().default('9464').transform((val) => parseInt(val, 10)),
+
   FILECOIN_PRIVATE_KEY: z.string().regex(/^0x[a-fA-F0-9]{64}$/, 'Must be a valid private key'),
   FILECOIN_RPC_URL: z.string().url().optional(),
   WARM_STORAGE_ADDRESS: z.string().optional(),
@@ -7,13 +7,27 @@ import { projects, deployments } from '../db/schema';
 import { eq, and, desc, inArray } from 'drizzle-orm';
 import { generateId } from '../utils/generateId';
 import { buildService } from '../services/build.service';
+import { githubAppService } from '../services/github-app.service';
 import { ensService } from '../services/ens.service';
 import { logger } from '../utils/logger';
-import { getDeploymentBuildDir } from '../utils/paths';
-import { deploymentQueue, CancellationError } from '../services/deployment-queue.service';
+import { deploymentQueue, JOB_PRIORITY } from '../services/deployment-queue.service';
 import { env } from '../config/env';
 import { dynamicImport } from '../utils/dynamic-import';
-import { filecoinUploadService } from '../services/filecoin-upload.service';
+import { deploymentLogService } from '../services/deployment-log.service';
+import { deploymentEvents } from '../services/deployment-events.service';
+import { deploymentTiming } from '../services/deployment-timing.service';
+import { deploymentFilesService, diffManifests } from '../services/deployment-files.service';
+import {
+    deploymentState,
+    ACTIVE_STATUSES,
+    ENS_CONFIRM_STATUSES,
+    ENS_PREPARE_STATUSES,
+    InvalidTransitionError,
+    UPLOAD_STATUSES,
+    isActiveStatus,
+    isDeploymentStatus,
+    isStatusIn,
+} from '../services/deployment-state.service';
 
 async function recoverCarRootCid(carPath: string): Promise<string | null> {
     try {
@@ -41,36 +55,54 @@ async function recoverCarRootCid(carPath: string): Promise<string | null> {
     }
 }
 
-export class DeploymentsController {
-    private static readonly ACTIVE_STATUSES = [
-        'pending_build',
-        'cloning',
-        'building',
-        'pending_upload',
-        'uploading',
-        'awaiting_signature',
-        'awaiting_confirmation',
-    ];
-    private static readonly KNOWN_STATUSES = new Set([
-        'pending_build',
-        'cloning',
-        'building',
-        'pending_upload',
-        'uploading',
-        'awaiting_signature',
-        'awaiting_confirmation',
-        'success',
-        'failed',
-        'cancelled',
-    ]);
+const STREAM_HEARTBEAT_MS = 25_000;
+const LOG_STREAM_PAGE_SIZE = 500;
+
+/** Switch the response to server-sent events; returns a writer and a cleanup hook. */
+function openEventStream(req: Request, res: Response) {
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    // Disable proxy buffering (nginx) so events are delivered as they happen
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+    res.write('retry: 3000\n\n');
+
+    const heartbeat = setInterval(() => {
+        res.write(': keep-alive\n\n');
+    }, STREAM_HEARTBEAT_MS);
+
+    const cleanups: Array<() => void> = [() => clearInterval(heartbeat)];
+    req.on('close', () => {
+        for (const cleanup of cleanups) {
+            cleanup();
+        }
+    });
+
+    return {
+        send(event: string, data: unknown, id?: number) {
+            if (res.writableEnded) {
+                return;
+            }
+            const idLine = id === undefined ? '' : `id: ${id}\n`;
+            res.write(`${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        },
+        onClose(cleanup: () => void) {
+            cleanups.push(cleanup);
+        },
+    };
+}
 
+export class DeploymentsController {
     // Create new deployment (start build process)
     async create(req: Request, res: Response) {
-        const { projectId } = req.body;
+        const { projectId, ref } = req.body as { projectId: string; ref?: string };
         const userId = req.userId!;
 
         logger.info('Creating new deployment', {
             projectId,
+            ref,
             userId,
         });
 
@@ -107,7 +139,7 @@ export class DeploymentsController {
                 where: (deployment: any, { eq: eqField, inArray: inArrayField, and: andField }: any) =>
                     andField(
                         eqField(deployment.projectId, projectId),
-                        inArrayField(deployment.status, DeploymentsController.ACTIVE_STATUSES)
+                        inArrayField(deployment.status, ACTIVE_STATUSES)
                     ),
                 orderBy: (deployment: any, { desc: orderDesc }: any) => [orderDesc(deployment.createdAt)],
             });
@@ -125,34 +157,52 @@ export class DeploymentsController {
                 });
             }
 
+            // Pin an explicit ref to its commit now, so the build doesn't pick up later pushes
+            let commit: { sha: string; message: string } | null = null;
+            if (ref) {
+                const [owner, repo] = project.repoFullName.split('/');
+                commit = await githubAppService.resolveCommit(project.installation.installationId, owner, repo, ref);
+                if (!commit) {
+                    logger.warn('Deployment creation denied: ref not found', { projectId, ref, userId });
+                    return res.status(400).json({
+                        error: 'RefNotFound',
+                        message: `No branch, tag or commit named "${ref}" was found in ${project.repoFullName}`,
+                    });
+                }
+            }
+
             const deploymentId = generateId();
 
             logger.info('Creating deployment record', {
                 deploymentId,
                 projectId,
                 projectName: project.name,
+                ref,
+                commitSha: commit?.sha,
             });
 
             // Create deployment record
-            await db
-                .insert(deployments)
-                .values({
+            await deploymentState.create(
+                {
                     id: deploymentId,
                     projectId,
-                    status: 'pending_build',
                     triggeredBy: 'manual',
+                    gitRef: ref ?? null,
+                    commitSha: commit?.sha ?? null,
+                    commitMessage: commit?.message ?? null,
                     createdAt: new Date(),
-                });
+                },
+                `user:${userId}`,
+                ref ? { ref, commitSha: commit?.sha } : undefined
+            );
 
-            // Start build process asynchronously using per-project queue
+            // Builds run on a deployment worker; jobs for one project run in order
             logger.info('Enqueuing deployment build', {
                 deploymentId,
                 projectId,
             });
 
-            deploymentQueue.enqueue(projectId, (signal) =>
-                this.runBuildPipeline(deploymentId, project, project.installation!.installationId, signal)
-            );
+            await deploymentQueue.enqueue(deploymentId, projectId, { userId, priority: JOB_PRIORITY.manual });
 
             logger.info('Deployment created and queued', {
                 deploymentId,
@@ -197,7 +247,7 @@ export class DeploymentsController {
                 });
             }
 
-            if (!DeploymentsController.ACTIVE_STATUSES.includes(deployment.status)) {
+            if (!isActiveStatus(deployment.status)) {
                 logger.warn('Cannot cancel deployment: not in active status', {
                     deploymentId: id,
                     currentStatus: deployment.status,
@@ -209,30 +259,36 @@ export class DeploymentsController {
                 });
             }
 
-            const cancelled = await db
-                .update(deployments)
-                .set({
-                    status: 'cancelled',
+            const cancelled = await deploymentState.transition(id, 'cancelled', {
+                actor: `user:${userId}`,
+                set: {
                     errorMessage: 'Deployment cancelled by user',
                     completedAt: new Date(),
-                })
-                .where(eq(deployments.id, id))
-                .returning();
+                },
+            });
 
-            const killed = buildService.cancelBuild(id);
-            const queueCleared = deploymentQueue.clearQueue(deployment.projectId);
+            // The worker running the job aborts it when it sees the cancellation
+            const jobState = await deploymentQueue.cancel(id);
+            const killed = jobState === 'running';
+            const queueCleared = jobState !== null;
 
             logger.info(
-                `Deployment ${id} cancelled by user ${userId}${killed ? ' (build process terminated)' : ''
-                }${queueCleared ? ' (queue cleared)' : ''}`
+                `Deployment ${id} cancelled by user ${userId}${killed ? ' (running job aborted)' : ''
+                }${queueCleared ? ' (job cancelled)' : ''}`
             );
 
             res.json({
-                status: cancelled[0]?.status ?? 'cancelled',
+                status: cancelled.status,
                 killed,
                 queueCleared,
             });
         } catch (error) {
+            if (error instanceof InvalidTransitionError) {
+                return res.status(409).json({
+                    error: 'InvalidTransition',
+                    message: error.message,
+                });
+            }
             logger.error('Failed to cancel deployment:', error);
             res.status(500).json({
                 error: 'Internal Server Error',
@@ -277,7 +333,7 @@ export class DeploymentsController {
                 });
             }
 
-            if (!['pending_upload', 'uploading', 'awaiting_signature', 'success'].includes(deployment.status)) {
+            if (!isStatusIn(deployment.status, ENS_PREPARE_STATUSES)) {
                 return res.status(400).json({
                     error: 'InvalidState',
                     message: 'Deployment is not ready for ENS preparation.',
@@ -294,14 +350,14 @@ export class DeploymentsController {
             // Only update status if not already successful (to avoid triggering auto-deploy poller)
             // For successful deployments, we're just preparing ENS for a deployment that skipped ENS
             if (deployment.status !== 'success') {
-                await db
-                    .update(deployments)
-                    .set({
+                await deploymentState.transition(id, 'awaiting_signature', {
+                    actor: `user:${userId}`,
+                    set: {
                         ipfsCid,
-                        status: 'awaiting_signature',
                         buildArtifactsPath: null,
-                    })
-                    .where(eq(deployments.id, id));
+                    },
+                    metadata: { ipfsCid },
+                });
             }
 
             logger.info('ENS transaction prepared and awaiting signature', {
@@ -314,6 +370,12 @@ export class DeploymentsController {
                 payload,
             });
         } catch (error) {
+            if (error instanceof InvalidTransitionError) {
+                return res.status(409).json({
+                    error: 'InvalidTransition',
+                    message: error.message,
+                });
+            }
             logger.error('Failed to prepare ENS transaction:', error);
             res.status(500).json({
                 error: 'Internal Server Error',
@@ -358,37 +420,72 @@ export class DeploymentsController {
                 });
             }
 
-            if (!['awaiting_signature', 'awaiting_confirmation', 'success'].includes(deployment.status)) {
+            if (!isStatusIn(deployment.status, ENS_CONFIRM_STATUSES)) {
                 return res.status(400).json({
                     error: 'InvalidState',
                     message: 'Deployment is not awaiting ENS confirmation.',
                 });
             }
 
-            await db
-                .update(deployments)
-                .set({
-                    status: 'awaiting_confirmation',
-                    ensTxHash: txHash,
-                })
-                .where(eq(deployments.id, id));
+            // A finished deployment can point ENS at its CID again without leaving success
+            const alreadySucceeded = deployment.status === 'success';
+            if (alreadySucceeded) {
+                await db.update(deployments).set({ ensTxHash: txHash }).where(eq(deployments.id, id));
+            } else {
+                await deploymentState.transition(id, 'awaiting_confirmation', {
+                    actor: `user:${userId}`,
+                    set: { ensTxHash: txHash },
+                    metadata: { txHash },
+                });
+            }
 
-            const result = await ensService.waitForTransaction({
-                ensName: deployment.project.ensName!,
-                txHash,
-                expectedCid: deployment.ipfsCid!,
-                rpcUrl: deployment.project.ethereumRpcUrl!,
-            });
+            let result: Awaited<ReturnType<typeof ensService.waitForTransaction>>;
+            try {
+                result = await ensService.waitForTransaction({
+                    ensName: deployment.project.ensName!,
+                    txHash,
+                    expectedCid: deployment.ipfsCid!,
+                    rpcUrl: deployment.project.ethereumRpcUrl!,
+                });
+            } catch (error) {
+                const message = error instanceof Error ? error.message : 'Failed to confirm ENS transaction';
+                logger.error('ENS confirmation failed:', error);
+
+                if (!alreadySucceeded) {
+                    await deploymentState.tryTransition(id, 'failed', {
+                        actor: 'system',
+                        set: {
+                            errorMessage: `ENS confirmation failed: ${message}`,
+                            buildArtifactsPath: null,
+                            completedAt: new Date(),
+                        },
+                        metadata: { txHash, error: message },
+                    });
 
-            await db
-                .update(deployments)
-                .set({
-                    status: 'success',
-                    ensTxHash: txHash,
-                    buildArtifactsPath: null,
-                    completedAt: new Date(),
-                })
-                .where(eq(deployments.id, id));
+                    // Cleanup build directory if enabled
+                    if (env.CLEANUP_BUILDS_ON_COMPLETE) {
+                        await buildService.cleanupDeploymentBuild(id).catch((error) => {
+                            logger.warn('Failed to cleanup build directory after failure', { deploymentId: id, error });
+                        });
+                    }
+                }
+
+                return res.status(500).json({
+                    error: 'ENSConfirmationFailed',
+                    message,
+                });
+            }
+
+            if (!alreadySucceeded) {
+                await deploymentState.transition(id, 'success', {
+                    actor: 'system',
+                    set: {
+                        buildArtifactsPath: null,
+                        completedAt: new Date(),
+                    },
+                    metadata: { txHash, blockNumber: result.blockNumber, verified: result.verified },
+                });
+            }
 
             // Cleanup build directory if enabled
             if (env.CLEANUP_BUILDS_ON_COMPLETE) {
@@ -404,29 +501,16 @@ export class DeploymentsController {
                 blockNumber: result.blockNumber,
             });
         } catch (error) {
-            const message = error instanceof Error ? error.message : 'Failed to confirm ENS transaction';
-            logger.error('ENS confirmation failed:', error);
-
-            await db
-                .update(deployments)
-                .set({
-                    status: 'failed',
-                    errorMessage: `ENS confirmation failed: ${message}`,
-                    buildArtifactsPath: null,
-                    completedAt: new Date(),
-                })
-                .where(eq(deployments.id, id));
-
-            // Cleanup build directory if enabled
-            if (env.CLEANUP_BUILDS_ON_COMPLETE) {
-                await buildService.cleanupDeploymentBuild(id).catch((error) => {
-                    logger.warn('Failed to cleanup build directory after failure', { deploymentId: id, error });
+            if (error instanceof InvalidTransitionError) {
+                return res.status(409).json({
+                    error: 'InvalidTransition',
+                    message: error.message,
                 });
             }
-
+            logger.error('ENS confirmation failed:', error);
             res.status(500).json({
                 error: 'ENSConfirmationFailed',
-                message,
+                message: error instanceof Error ? error.message : 'Failed to confirm ENS transaction',
             });
         }
     }
@@ -458,22 +542,22 @@ export class DeploymentsController {
                 });
             }
 
-            if (deployment.status !== 'pending_upload' && deployment.status !== 'uploading') {
+            if (!isStatusIn(deployment.status, UPLOAD_STATUSES)) {
                 return res.status(400).json({
                     error: 'InvalidState',
                     message: 'Only deployments awaiting upload can be marked as failed.',
                 });
             }
 
-            await db
-                .update(deployments)
-                .set({
-                    status: 'failed',
+            await deploymentState.transition(id, 'failed', {
+                actor: `user:${userId}`,
+                from: UPLOAD_STATUSES,
+                set: {
                     errorMessage: message ?? 'Filecoin upload failed.',
                     buildArtifactsPath: null,
                     completedAt: new Date(),
-                })
-                .where(eq(deployments.id, id));
+                },
+            });
 
             // Cleanup build directory if enabled
             if (env.CLEANUP_BUILDS_ON_COMPLETE) {
@@ -489,6 +573,12 @@ export class DeploymentsController {
 
             res.json({ status: 'failed' });
         } catch (error) {
+            if (error instanceof InvalidTransitionError) {
+                return res.status(409).json({
+                    error: 'InvalidTransition',
+                    message: error.message,
+                });
+            }
             logger.error('Failed to mark deployment as failed:', error);
             res.status(500).json({
                 error: 'Internal Server Error',
@@ -497,6 +587,328 @@ export class DeploymentsController {
         }
     }
 
+    // Get persisted build log chunks after a sequence number
+    async getLogs(req: Request, res: Response) {
+        const { id } = req.params;
+        const userId = req.userId!;
+        const after = Number.parseInt(String(req.query.after ?? '-1'), 10);
+        const limit = Math.min(Math.max(Number.parseInt(String(req.query.limit ?? '500'), 10) || 500, 1), 1000);
+
+        try {
+            const deployment = await db.query.deployments.findFirst({
+                where: eq(deployments.id, id),
+                columns: { id: true, status: true },
+                with: {
+                    project: {
+                        columns: { userId: true },
+                    },
+                },
+            });
+
+            if (!deployment || deployment.project.userId !== userId) {
+                return res.status(404).json({
+                    error: 'Not Found',
+                    message: 'Deployment not found',
+                });
+            }
+
+            const chunks = await deploymentLogService.getChunks(id, Number.isFinite(after) ? after : -1, limit);
+
+            res.json({
+                chunks,
+                lastSeq: chunks.length > 0 ? chunks[chunks.length - 1].seq : after,
+                status: deployment.status,
+                complete: !isActiveStatus(deployment.status),
+            });
+        } catch (error) {
+            logger.error('Failed to get deployment logs:', error);
+            res.status(500).json({
+                error: 'Internal Server Error',
+                message: 'Failed to fetch deployment logs',
+            });
+        }
+    }
+
+    // Get the recorded status transitions of a deployment
+    async getTimeline(req: Request, res: Response) {
+        const { id } = req.params;
+        const userId = req.userId!;
+
+        try {
+            const deployment = await db.query.deployments.findFirst({
+                where: eq(deployments.id, id),
+                columns: { id: true },
+                with: {
+                    project: {
+                        columns: { userId: true },
+                    },
+                },
+            });
+
+            if (!deployment || deployment.project.userId !== userId) {
+                return res.status(404).json({
+                    error: 'Not Found',
+                    message: 'Deployment not found',
+                });
+            }
+
+            const events = await deploymentState.getTimeline(id);
+            res.json({ events });
+        } catch (error) {
+            logger.error('Failed to get deployment timeline:', error);
+            res.status(500).json({
+                error: 'Internal Server Error',
+                message: 'Failed to fetch deployment timeline',
+            });
+        }
+    }
+
+    // Get the manifest of files the deployment's CAR contains
+    async getFiles(req: Request, res: Response) {
+        const { id } = req.params;
+        const userId = req.userId!;
+
+        try {
+            const deployment = await db.query.deployments.findFirst({
+                where: eq(deployments.id, id),
+                columns: { id: true },
+                with: {
+                    project: {
+                        columns: { userId: true },
+                    },
+                },
+            });
+
+            if (!deployment || deployment.project.userId !== userId) {
+                return res.status(404).json({
+                    error: 'Not Found',
+                    message: 'Deployment not found',
+                });
+            }
+
+            const files = await deploymentFilesService.list(id);
+            res.json({
+                files,
+                totalFiles: files.length,
+                totalSize: files.reduce((sum, file) => sum + file.size, 0),
+            });
+        } catch (error) {
+            logger.error('Failed to get deployment files:', error);
+            res.status(500).json({
+                error: 'Internal Server Error',
+                message: 'Failed to fetch deployment files',
+            });
+        }
+    }
+
+    // Compare the deployment's files with another deployment, by default the previous one of the project
+    async getDiff(req: Request, res: Response) {
+        const { id } = req.params;
+        const userId = req.userId!;
+        const baseId = typeof req.query.base === 'string' && req.query.base ? req.query.base : null;
+
+        try {
+            const deployment = await db.query.deployments.findFirst({
+                where: eq(deployments.id, id),
+                columns: { id: true, projectId: true, createdAt: true },
+                with: {
+                    project: {
+                        columns: { userId: true },
+                    },
+                },
+            });
+
+            if (!deployment || deployment.project.userId !== userId) {
+                return res.status(404).json({
+                    error: 'Not Found',
+                    message: 'Deployment not found',
+                });
+            }
+
+            let base: { id: string; createdAt: Date } | null = null;
+            if (baseId) {
+                const requested = await db.query.deployments.findFirst({
+                    where: eq(deployments.id, baseId),
+                    columns: { id: true, createdAt: true },
+                    with: {
+                        project: {
+                            columns: { userId: true },
+                        },
+                    },
+                });
+                if (!requested || requested.project.userId !== userId) {
+                    return res.status(404).json({
+                        error: 'Not Found',
+                        message: 'Base deployment not found',
+                    });
+                }
+                base = { id: requested.id, createdAt: requested.createdAt };
+            } else {
+                base = await deploymentFilesService.findPrevious(deployment);
+            }
+
+            const files = await deploymentFilesService.list(id);
+            const baseFiles = base ? await deploymentFilesService.list(base.id) : [];
+            if (files.length === 0 || (base && baseFiles.length === 0)) {
+                return res.status(404).json({
+                    error: 'Not Found',
+                    message: `No file manifest was recorded for ${files.length === 0 ? 'this' : 'the base'} deployment`,
+                });
+            }
+
+            res.json({
+                base,
+                diff: base ? diffManifests(baseFiles, files) : null,
+            });
+        } catch (error) {
+            logger.error('Failed to diff deployments:', error);
+            res.status(500).json({
+                error: 'Internal Server Error',
+                message: 'Failed to compare deployments',
+            });
+        }
+    }
+
+    // Stream status and upload progress for all of the user's deployments
+    async streamAll(req: Request, res: Response) {
+        const userId = req.userId!;
+
+        try {
+            const userProjects = await db.query.projects.findMany({
+                where: eq(projects.userId, userId),
+                columns: { id: true },
+            });
+            const ownedProjects = new Set(userProjects.map((project) => project.id));
+            const checkedProjects = new Set(ownedProjects);
+
+            // Projects created after the stream opened are looked up once
+            const isOwned = async (projectId: string) => {
+                if (!checkedProjects.has(projectId)) {
+                    checkedProjects.add(projectId);
+                    const project = await db.query.projects.findFirst({
+                        where: and(eq(projects.id, projectId), eq(projects.userId, userId)),
+                        columns: { id: true },
+                    });
+                    if (project) {
+                        ownedProjects.add(projectId);
+                    }
+                }
+                return ownedProjects.has(projectId);
+            };
+
+            const stream = openEventStream(req, res);
+            const unsubscribe = deploymentEvents.subscribe((event) => {
+                if (event.type === 'log') {
+                    return;
+                }
+                void isOwned(event.projectId)
+                    .then((owned) => {
+                        if (owned) {
+                            stream.send(event.type, event);
+                        }
+                    })
+                    .catch(() => undefined);
+            });
+            stream.onClose(unsubscribe);
+        } catch (error) {
+            logger.error('Failed to open deployment event stream:', error);
+            if (!res.headersSent) {
+                res.status(500).json({
+                    error: 'Internal Server Error',
+                    message: 'Failed to open deployment event stream',
+                });
+            }
+        }
+    }
+
+    // Stream one deployment: status, upload progress and log chunks
+    async stream(req: Request, res: Response) {
+        const { id } = req.params;
+        const userId = req.userId!;
+        const lastEventId = req.header('Last-Event-ID') ?? req.query.after ?? '-1';
+        const parsedAfter = Number.parseInt(String(lastEventId), 10);
+
+        try {
+            const deployment = await db.query.deployments.findFirst({
+                where: eq(deployments.id, id),
+                with: {
+                    project: {
+                        columns: { userId: true },
+                    },
+                },
+            });
+
+            if (!deployment || deployment.project.userId !== userId) {
+                return res.status(404).json({
+                    error: 'Not Found',
+                    message: 'Deployment not found',
+                });
+            }
+
+            const stream = openEventStream(req, res);
+            let lastSeq = Number.isFinite(parsedAfter) ? parsedAfter : -1;
+            let sending: Promise<void> = Promise.resolve();
+
+            // Chunks are read back from the table so a reconnect resumes from Last-Event-ID. A
+            // client far behind gets every page before anything queued after it, such as the
+            // terminal status event.
+            const sendNewChunks = () => {
+                sending = sending
+                    .then(async () => {
+                        let chunks;
+                        do {
+                            chunks = await deploymentLogService.getChunks(id, lastSeq, LOG_STREAM_PAGE_SIZE);
+                            for (const chunk of chunks) {
+                                stream.send('log', chunk, chunk.seq);
+                                lastSeq = chunk.seq;
+                            }
+                        } while (chunks.length === LOG_STREAM_PAGE_SIZE);
+                    })
+                    .catch((error) => {
+                        logger.warn('Failed to stream deployment log chunks', {
+                            deploymentId: id,
+                            error: error instanceof Error ? error.message : String(error),
+                        });
+                    });
+            };
+
+            const unsubscribe = deploymentEvents.subscribe((event) => {
+                if (event.deploymentId !== id) {
+                    return;
+                }
+                if (event.type === 'log') {
+                    if (event.seq > lastSeq) {
+                        sendNewChunks();
+                    }
+                    return;
+                }
+                // Queued behind log pages so a status never overtakes the log it follows
+                sending = sending.then(() => stream.send(event.type, event));
+            });
+            stream.onClose(unsubscribe);
+
+            sendNewChunks();
+            const initialStatus = {
+                type: 'status',
+                deploymentId: deployment.id,
+                projectId: deployment.projectId,
+                status: deployment.status,
+                ipfsCid: deployment.ipfsCid,
+                errorMessage: deployment.errorMessage ? deployment.errorMessage.slice(0, 500) : null,
+                completedAt: deployment.completedAt ? deployment.completedAt.toISOString() : null,
+            };
+            sending = sending.then(() => stream.send('status', initialStatus));
+        } catch (error) {
+            logger.error('Failed to open deployment stream:', error);
+            if (!res.headersSent) {
+                res.status(500).json({
+                    error: 'Internal Server Error',
+                    message: 'Failed to open deployment stream',
+                });
+            }
+        }
+    }
+
     // Get deployment status
     async getStatus(req: Request, res: Response) {
         const { id } = req.params;
@@ -521,15 +933,26 @@ export class DeploymentsController {
                 });
             }
 
+            const queue =
+                deployment.status === 'pending_build' ? await deploymentQueue.getQueuePosition(deployment.id) : null;
+            const stages = await deploymentTiming.getStages(deployment.id);
+
             res.json({
                 id: deployment.id,
                 projectId: deployment.projectId,
                 status: deployment.status,
+                queue,
+                stages,
                 ipfsCid: deployment.ipfsCid,
+                pieceCid: deployment.pieceCid,
+                outcome: deployment.outcome,
+                unixfsSettings: deployment.unixfsSettings,
+                carVerification: deployment.carVerification,
                 ensTxHash: deployment.ensTxHash,
                 buildLog: deployment.buildLog,
                 errorMessage: deployment.errorMessage,
                 triggeredBy: deployment.triggeredBy,
+                gitRef: deployment.gitRef,
                 commitSha: deployment.commitSha,
                 commitMessage: deployment.commitMessage,
                 createdAt: deployment.createdAt,
@@ -556,7 +979,7 @@ export class DeploymentsController {
         });
 
         try {
-            if (status && typeof status === 'string' && !DeploymentsController.KNOWN_STATUSES.has(status)) {
+            if (status && typeof status === 'string' && !isDeploymentStatus(status)) {
                 return res.status(400).json({
                     error: 'InvalidStatus',
                     message: `Unsupported status filter: ${status}`,
@@ -637,6 +1060,34 @@ export class DeploymentsController {
         }
     }
 
+    // p50/p95 stage durations over a project's recent deployments
+    async getStageStats(req: Request, res: Response) {
+        const { id } = req.params; // project ID
+        const userId = req.userId!;
+
+        try {
+            const project = await db.query.projects.findFirst({
+                where: eq(projects.id, id),
+                columns: { userId: true },
+            });
+
+            if (!project || project.userId !== userId) {
+                return res.status(403).json({
+                    error: 'Forbidden',
+                    message: 'You do not have access to this project',
+                });
+            }
+
+            res.json(await deploymentTiming.getProjectStats(id));
+        } catch (error) {
+            logger.error('Failed to get stage stats:', error);
+            res.status(500).json({
+                error: 'Internal Server Error',
+                message: 'Failed to fetch stage durations',
+            });
+        }
+    }
+
     // Download build artifacts (zipped output directory)
     async downloadArtifacts(req: Request, res: Response) {
         const { id } = req.params;
@@ -661,7 +1112,7 @@ export class DeploymentsController {
                 });
             }
 
-            if (deployment.status !== 'pending_upload' && deployment.status !== 'uploading') {
+            if (!isStatusIn(deployment.status, UPLOAD_STATUSES)) {
                 return res.status(400).json({
                     error: 'InvalidState',
                     message: 'Artifacts are only available while awaiting upload.',
@@ -688,10 +1139,11 @@ export class DeploymentsController {
 
             if (deployment.status === 'pending_upload') {
                 logger.debug('Updating deployment status to uploading', { deploymentId: id });
-                await db
-                    .update(deployments)
-                    .set({ status: 'uploading' })
-                    .where(eq(deployments.id, id));
+                await deploymentState.tryTransition(id, 'uploading', {
+                    actor: `user:${userId}`,
+                    from: ['pending_upload'],
+                    metadata: { reason: 'artifact download' },
+                });
             }
 
             logger.info('Starting artifact download', {
@@ -761,7 +1213,7 @@ export class DeploymentsController {
                 });
             }
 
-            if (deployment.status !== 'pending_upload' && deployment.status !== 'uploading') {
+            if (!isStatusIn(deployment.status, UPLOAD_STATUSES)) {
                 return res.status(400).json({
                     error: 'InvalidState',
                     message: 'CAR artifacts are only available while awaiting upload.',
@@ -787,10 +1239,11 @@ export class DeploymentsController {
 
             if (deployment.status === 'pending_upload') {
                 logger.debug('Updating deployment status to uploading before CAR download', { deploymentId: id });
-                await db
-                    .update(deployments)
-                    .set({ status: 'uploading' })
-                    .where(eq(deployments.id, id));
+                await deploymentState.tryTransition(id, 'uploading', {
+                    actor: `user:${userId}`,
+                    from: ['pending_upload'],
+                    metadata: { reason: 'CAR download' },
+                });
             }
 
             const stats = await fs.stat(carPath);
@@ -856,166 +1309,6 @@ export class DeploymentsController {
         }
     }
 
-    // Run the build process for a deployment
-    async runBuildPipeline(
-        deploymentId: string,
-        project: any,
-        installationId: number,
-        signal?: AbortSignal
-    ) {
-
-        const checkCancelled = () => {
-            if (signal?.aborted) {
-                throw new CancellationError();
-            }
-        };
-
-        try {
-            checkCancelled();
-            logger.info('Build pipeline starting', {
-                deploymentId,
-                projectId: project.id,
-                projectName: project.name,
-                repoUrl: project.repoUrl,
-                repoBranch: project.repoBranch || 'main',
-                installationId,
-            });
-
-            // Update status to cloning when build actually starts
-            await db
-                .update(deployments)
-                .set({ status: 'cloning' })
-                .where(eq(deployments.id, deploymentId));
-
-            logger.info(`Starting build for deployment ${deploymentId}`);
-
-            // Clone and build
-            const result = await buildService.cloneAndBuild(project.repoUrl, project.repoBranch || 'main', installationId, deploymentId, {
-                buildCommand: project.buildCommand ?? undefined,
-                outputDir: project.outputDir ?? undefined,
-                frontendDir: project.frontendDir ?? undefined,
-            });
-
-            checkCancelled();
-
-            await db
-                .update(deployments)
-                .set({
-                    status: 'pending_upload',
-                    buildLog: result.logs,
-                    buildArtifactsPath: result.outputDir,
-                    carRootCid: result.carRootCid,
-                    carFilePath: result.carFilePath,
-                })
-                .where(eq(deployments.id, deploymentId));
-
-            logger.info(`Build completed successfully for deployment ${deploymentId}`);
-            logger.info(`Output directory: ${result.outputDir}`);
-            logger.info(`Build directory: ${getDeploymentBuildDir(deploymentId)}`);
-            logger.info(`Frontend should now upload from: ${result.outputDir}`);
-            logger.info('CAR artifact prepared', {
-                deploymentId,
-                carRootCid: result.carRootCid,
-                carFilePath: result.carFilePath,
-            });
-
-            checkCancelled();
-
-            // Step: Upload to Filecoin
-            await db
-                .update(deployments)
-                .set({ status: 'uploading' })
-                .where(eq(deployments.id, deploymentId));
-
-            logger.info('Starting Filecoin upload', { deploymentId, carFilePath: result.carFilePath });
-
-            const uploadResult = await filecoinUploadService.uploadCar(
-                result.carFilePath,
-                result.carRootCid,
-                deploymentId,
-                { signal }
-            );
-
-            logger.info('Filecoin upload completed', {
-                deploymentId,
-                rootCid: uploadResult.rootCid,
-                pieceCid: uploadResult.pieceCid,
-                transactionHash: uploadResult.transactionHash,
-            });
-
-            // Check if project has ENS configured
-            const hasEns = Boolean(project.ensName && project.ensOwnerAddress);
-
-            if (hasEns) {
-                // ENS configured - transition to awaiting_signature
-                await db
-                    .update(deployments)
-                    .set({
-                        status: 'awaiting_signature',
-                        ipfsCid: uploadResult.rootCid,
-                    })
-                    .where(eq(deployments.id, deploymentId));
-
-                logger.info('Deployment ready for ENS signature', {
-                    deploymentId,
-                    ipfsCid: uploadResult.rootCid,
-                    ensName: project.ensName,
-                });
-            } else {
-                // No ENS configured - mark as success immediately
-                await db
-                    .update(deployments)
-                    .set({
-                        status: 'success',
-                        ipfsCid: uploadResult.rootCid,
-                        completedAt: new Date(),
-                    })
-                    .where(eq(deployments.id, deploymentId));
-
-                logger.info('Deployment completed (IPFS-only, no ENS)', {
-                    deploymentId,
-                    ipfsCid: uploadResult.rootCid,
-                });
-            }
-
-            // Cleanup build directory after successful upload if enabled
-            if (env.CLEANUP_BUILDS_ON_COMPLETE) {
-                await buildService.cleanupDeploymentBuild(deploymentId).catch((cleanupError) => {
-                    logger.warn('Failed to cleanup build directory after upload', { deploymentId, error: cleanupError });
-                });
-            }
-        } catch (error) {
-            logger.error(`Build/upload failed for deployment ${deploymentId}:`, error);
-
-            const currentStatus = await db.query.deployments.findFirst({
-                where: eq(deployments.id, deploymentId),
-            });
-
-            if (currentStatus?.status === 'cancelled') {
-                logger.info(`Deployment ${deploymentId} marked as cancelled.`);
-                return;
-            }
-
-            await db
-                .update(deployments)
-                .set({
-                    status: 'failed',
-                    errorMessage: (error as Error).message,
-                    buildLog: (error as Error).message,
-                    buildArtifactsPath: null,
-                    completedAt: new Date(),
-                })
-                .where(eq(deployments.id, deploymentId));
-
-            // Cleanup build directory if enabled
-            if (env.CLEANUP_BUILDS_ON_COMPLETE) {
-                await buildService.cleanupDeploymentBuild(deploymentId).catch((cleanupError) => {
-                    logger.warn('Failed to cleanup build directory after build failure', { deploymentId, error: cleanupError });
-                });
-            }
-        }
-    }
-
     /**
      * Skip ENS update and mark deployment as successful
      * POST /api/deployments/:id/ens/skip
@@ -1051,14 +1344,15 @@ export class DeploymentsController {
                 });
             }
 
-            await db
-                .update(deployments)
-                .set({
-                    status: 'success',
+            await deploymentState.transition(id, 'success', {
+                actor: `user:${userId}`,
+                from: ['awaiting_signature'],
+                set: {
                     buildArtifactsPath: null,
                     completedAt: new Date(),
-                })
-                .where(eq(deployments.id, id));
+                },
+                metadata: { ensSkipped: true },
+            });
 
             // Cleanup build directory if enabled
             if (env.CLEANUP_BUILDS_ON_COMPLETE) {
@@ -1074,6 +1368,12 @@ export class DeploymentsController {
                 message: 'Deployment completed without ENS update',
             });
         } catch (error) {
+            if (error instanceof InvalidTransitionError) {
+                return res.status(409).json({
+                    error: 'InvalidTransition',
+                    message: error.message,
+                });
+            }
             const message = error instanceof Error ? error.message : 'Failed to skip ENS';
             logger.error('Failed to skip ENS:', error);
             res.status(500).json({
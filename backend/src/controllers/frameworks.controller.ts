@@ -0,0 +1,10 @@
+import { Request, Response } from 'express';
+import { listFrameworks } from '../utils/frameworks';
+
+export class FrameworksController {
+    list(_req: Request, res: Response) {
+        res.json(listFrameworks());
+    }
+}
+
+export const frameworksController = new FrameworksController();
@@ -0,0 +1,222 @@
+import { Request, Response } from 'express';
+import { and, eq } from 'drizzle-orm';
+import { db } from '../db';
+import { projects, projectEnvVars } from '../db/schema';
+import { generateId } from '../utils/generateId';
+import { logger } from '../utils/logger';
+import { encryptionService } from '../services/encryption.service';
+import { projectEnvService, RESERVED_ENV_KEYS, type EnvVarTarget } from '../services/project-env.service';
+
+class ProjectEnvController {
+    private async findOwnedProject(projectId: string, userId: string) {
+        return db.query.projects.findFirst({
+            where: and(eq(projects.id, projectId), eq(projects.userId, userId)),
+        });
+    }
+
+    async list(req: Request, res: Response) {
+        const { id } = req.params;
+        const userId = req.userId!;
+
+        try {
+            const project = await this.findOwnedProject(id, userId);
+            if (!project) {
+                return res.status(404).json({ error: 'Not Found', message: 'Project not found' });
+            }
+
+            const variables = await projectEnvService.list(id);
+            res.json({ variables });
+        } catch (error) {
+            logger.error('Failed to list project environment variables', {
+                error: error instanceof Error ? error.message : String(error),
+                projectId: id,
+                userId,
+            });
+            res.status(500).json({ error: 'Internal Server Error', message: 'Failed to list environment variables' });
+        }
+    }
+
+    async create(req: Request, res: Response) {
+        const { id } = req.params;
+        const userId = req.userId!;
+        const { key, value, isSecret = true, target = 'all', branch } = req.body as {
+            key: string;
+            value: string;
+            isSecret?: boolean;
+            target?: EnvVarTarget;
+            branch?: string | null;
+        };
+        const normalizedBranch = branch?.trim() || null;
+
+        try {
+            const project = await this.findOwnedProject(id, userId);
+            if (!project) {
+                return res.status(404).json({ error: 'Not Found', message: 'Project not found' });
+            }
+
+            if (RESERVED_ENV_KEYS.has(key)) {
+                return res.status(400).json({ error: 'ReservedKey', message: `${key} is managed by the build sandbox` });
+            }
+
+            const conflict = await projectEnvService.findConflict(id, key, target, normalizedBranch);
+            if (conflict) {
+                return res.status(409).json({
+                    error: 'DuplicateKey',
+                    message: `${key} is already defined for this target and branch`,
+                });
+            }
+
+            const [created] = await db
+                .insert(projectEnvVars)
+                .values({
+                    id: generateId(),
+                    projectId: id,
+                    key,
+                    valueEncrypted: encryptionService.encrypt(value),
+                    isSecret,
+                    target,
+                    branch: normalizedBranch,
+                    createdAt: new Date(),
+                    updatedAt: new Date(),
+                })
+                .returning();
+
+            logger.info('Project environment variable created', {
+                projectId: id,
+                envVarId: created.id,
+                key,
+                target,
+                branch: normalizedBranch,
+                isSecret,
+            });
+
+            res.status(201).json(projectEnvService.toView(created));
+        } catch (error) {
+            logger.error('Failed to create project environment variable', {
+                error: error instanceof Error ? error.message : String(error),
+                projectId: id,
+                userId,
+            });
+            res.status(500).json({ error: 'Internal Server Error', message: 'Failed to create environment variable' });
+        }
+    }
+
+    async update(req: Request, res: Response) {
+        const { id, envId } = req.params;
+        const userId = req.userId!;
+        const updates = req.body as {
+            key?: string;
+            value?: string;
+            isSecret?: boolean;
+            target?: EnvVarTarget;
+            branch?: string | null;
+        };
+
+        try {
+            const project = await this.findOwnedProject(id, userId);
+            if (!project) {
+                return res.status(404).json({ error: 'Not Found', message: 'Project not found' });
+            }
+
+            const existing = await db.query.projectEnvVars.findFirst({
+                where: and(eq(projectEnvVars.id, envId), eq(projectEnvVars.projectId, id)),
+            });
+            if (!existing) {
+                return res.status(404).json({ error: 'Not Found', message: 'Environment variable not found' });
+            }
+
+            const key = updates.key ?? existing.key;
+            const target = updates.target ?? (existing.target as EnvVarTarget);
+            const branch = updates.branch === undefined ? existing.branch : updates.branch?.trim() || null;
+
+            if (RESERVED_ENV_KEYS.has(key)) {
+                return res.status(400).json({ error: 'ReservedKey', message: `${key} is managed by the build sandbox` });
+            }
+
+            const conflict = await projectEnvService.findConflict(id, key, target, branch, existing.id);
+            if (conflict) {
+                return res.status(409).json({
+                    error: 'DuplicateKey',
+                    message: `${key} is already defined for this target and branch`,
+                });
+            }
+
+            // Turning a secret into a plain variable would reveal its value, so require a new one
+            if (existing.isSecret && updates.isSecret === false && updates.value === undefined) {
+                return res.status(400).json({
+                    error: 'ValueRequired',
+                    message: 'Provide a new value to convert a secret into a plain variable',
+                });
+            }
+
+            const [updated] = await db
+                .update(projectEnvVars)
+                .set({
+                    key,
+                    target,
+                    branch,
+                    ...(updates.value !== undefined ? { valueEncrypted: encryptionService.encrypt(updates.value) } : {}),
+                    ...(updates.isSecret !== undefined ? { isSecret: updates.isSecret } : {}),
+                    updatedAt: new Date(),
+                })
+                .where(eq(projectEnvVars.id, existing.id))
+                .returning();
+
+            logger.info('Project environment variable updated', {
+                projectId: id,
+                envVarId: existing.id,
+                key,
+                valueChanged: updates.value !== undefined,
+            });
+
+            res.json(projectEnvService.toView(updated));
+        } catch (error) {
+            logger.error('Failed to update project environment variable', {
+                error: error instanceof Error ? error.message : String(error),
+                projectId: id,
+                envVarId: envId,
+                userId,
+            });
+            res.status(500).json({ error: 'Internal Server Error', message: 'Failed to update environment variable' });
+        }
+    }
+
+    async delete(req: Request, res: Response) {
+        const { id, envId } = req.params;
+        const userId = req.userId!;
+
+        try {
+            const project = await this.findOwnedProject(id, userId);
+            if (!project) {
+                return res.status(404).json({ error: 'Not Found', message: 'Project not found' });
+            }
+
+            const deleted = await db
+                .delete(projectEnvVars)
+                .where(and(eq(projectEnvVars.id, envId), eq(projectEnvVars.projectId, id)))
+                .returning({ id: projectEnvVars.id, key: projectEnvVars.key });
+
+            if (deleted.length === 0) {
+                return res.status(404).json({ error: 'Not Found', message: 'Environment variable not found' });
+            }
+
+            logger.info('Project environment variable deleted', {
+                projectId: id,
+                envVarId: envId,
+                key: deleted[0].key,
+            });
+
+            res.status(204).send();
+        } catch (error) {
+            logger.error('Failed to delete project environment variable', {
+                error: error instanceof Error ? error.message : String(error),
+                projectId: id,
+                envVarId: envId,
+                userId,
+            });
+            res.status(500).json({ error: 'Internal Server Error', message: 'Failed to delete environment variable' });
+        }
+    }
+}
+
+export const projectEnvController = new ProjectEnvController();
@@ -6,6 +6,7 @@ import { generateId } from '../utils/generateId';
 import { githubAppService } from '../services/github-app.service';
 import { logger } from '../utils/logger';
 import { webhookSecretService } from '../services/webhook-secret.service';
+import { buildCacheService } from '../services/build-cache.service';
 import { env } from '../config/env';
 import { getNetworkConfig, isValidNetwork, type NetworkType } from '../config/network-config';
 
@@ -124,6 +125,15 @@ export class ProjectsController {
       buildCommand,
       outputDir,
       frontendDir,
+      packageManager,
+      installCommand,
+      gitSubmodules,
+      gitLfs,
+      nodeVersion,
+      generatorVersion,
+      gatewayPathMode,
+      forceReupload,
+      unixfsSettings,
       force
     } = req.body;
 
@@ -237,6 +247,15 @@ export class ProjectsController {
           buildCommand: buildCommand || null,
           outputDir: outputDir || null,
           frontendDir: frontendDir || null,
+          packageManager: packageManager || null,
+          installCommand: installCommand || null,
+          gitSubmodules: gitSubmodules ?? false,
+          gitLfs: gitLfs ?? false,
+          nodeVersion: nodeVersion?.trim() || null,
+          generatorVersion: generatorVersion?.trim() || null,
+          gatewayPathMode: gatewayPathMode ?? 'report',
+          forceReupload: forceReupload ?? false,
+          unixfsSettings: unixfsSettings ?? null,
           webhookEnabled: true,
           webhookSecret: encryptedSecret,
           createdAt: new Date(),
@@ -296,6 +315,14 @@ export class ProjectsController {
         updates.ensOwnerAddress = updates.ensOwnerAddress.toLowerCase();
       }
 
+      if (updates.nodeVersion !== undefined) {
+        updates.nodeVersion = updates.nodeVersion?.trim() || null;
+      }
+
+      if (updates.generatorVersion !== undefined) {
+        updates.generatorVersion = updates.generatorVersion?.trim() || null;
+      }
+
       const updated = await db
         .update(projects)
         .set({
@@ -364,6 +391,13 @@ export class ProjectsController {
 
       await db.delete(projects).where(eq(projects.id, id));
 
+      await buildCacheService.clearProject(id).catch((error) => {
+        logger.warn('Failed to clear build cache during deletion', {
+          projectId: id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+
       logger.info('Project deleted successfully', {
         projectId: id,
         projectName: project.name,
@@ -4,6 +4,7 @@ import { githubInstallations } from '../db/schema';
 import { eq } from 'drizzle-orm';
 import { githubAppService } from '../services/github-app.service';
 import { logger } from '../utils/logger';
+import { readWorkspace } from '../utils/workspace';
 
 export class RepositoriesController {
   async list(req: Request, res: Response) {
@@ -83,6 +84,44 @@ export class RepositoriesController {
       });
     }
   }
+
+  /** Workspace packages of a monorepo, for picking which package a project builds. */
+  async getWorkspace(req: Request, res: Response) {
+    const { owner, repo, installationId } = req.params;
+    const userId = req.userId!;
+    const branch = typeof req.query.branch === 'string' && req.query.branch ? req.query.branch : null;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    try {
+      const installation = await db.query.githubInstallations.findFirst({
+        where: eq(githubInstallations.id, installationId),
+      });
+
+      if (!installation || installation.userId !== userId) {
+        return res.status(404).json({ error: 'Installation not found' });
+      }
+
+      const ref =
+        branch ?? (await githubAppService.getRepository(installation.installationId, owner, repo)).defaultBranch;
+      const reader = await githubAppService.getRepositoryReader(installation.installationId, owner, repo, ref);
+      const workspace = await readWorkspace(reader);
+
+      res.json({
+        source: workspace?.source ?? null,
+        orchestrator: workspace?.orchestrator ?? null,
+        packages: (workspace?.packages ?? []).map(({ name, dir, hasBuildScript }) => ({ name, dir, hasBuildScript })),
+      });
+    } catch (error) {
+      logger.error('Failed to read repository workspace:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to read repository workspace',
+      });
+    }
+  }
 }
 
 export const repositoriesController = new RepositoriesController();
@@ -1,13 +1,14 @@
 import { Request, Response } from 'express';
 import crypto from 'crypto';
 import { db } from '../db';
-import { projects, deployments, users, githubInstallations } from '../db/schema';
+import { projects, users, githubInstallations } from '../db/schema';
 import { eq } from 'drizzle-orm';
 import { webhookSecretService } from '../services/webhook-secret.service';
 import { logger } from '../utils/logger';
 import { generateId } from '../utils/generateId';
-import { deploymentQueue } from '../services/deployment-queue.service';
-import { deploymentsController } from './deployments.controller';
+import { deploymentQueue, JOB_PRIORITY } from '../services/deployment-queue.service';
+import { deploymentState } from '../services/deployment-state.service';
+import { metrics } from '../services/metrics.service';
 import { githubAppService } from '../services/github-app.service';
 import { env } from '../config/env';
 
@@ -98,6 +99,7 @@ class WebhooksController {
 
         if (event !== 'push') {
             logger.debug('Webhook ignored: not a push event', { event, deliveryId });
+            metrics.webhookOutcomes.inc({ outcome: 'ignored_event' });
             return res.status(200).json({ ignored: true });
         }
 
@@ -109,6 +111,7 @@ class WebhooksController {
                 error: error instanceof Error ? error.message : String(error),
                 deliveryId,
             });
+            metrics.webhookOutcomes.inc({ outcome: 'invalid_payload' });
             return res.status(400).json({ error: 'InvalidPayload' });
         }
 
@@ -127,6 +130,7 @@ class WebhooksController {
 
         if (!repoFullName) {
             logger.debug('Webhook ignored: no repository name', { deliveryId });
+            metrics.webhookOutcomes.inc({ outcome: 'no_repository' });
             return res.status(200).json({ ignored: true });
         }
 
@@ -143,6 +147,7 @@ class WebhooksController {
                     projectId: project?.id,
                     webhookEnabled: project?.webhookEnabled,
                 });
+                metrics.webhookOutcomes.inc({ outcome: 'no_project' });
                 return res.status(200).json({ ignored: true });
             }
 
@@ -164,6 +169,7 @@ class WebhooksController {
 
                 // Attempt to rotate the webhook secret so the next delivery succeeds
                 await this.rotateWebhookSecret(project);
+                metrics.webhookOutcomes.inc({ outcome: 'invalid_signature' });
 
                 return res.status(202).json({ error: 'InvalidSignature', rotated: true });
             }
@@ -179,6 +185,7 @@ class WebhooksController {
                     receivedBranch: branch,
                     expectedBranch,
                 });
+                metrics.webhookOutcomes.inc({ outcome: 'branch_mismatch' });
                 return res.status(200).json({ ignored: true });
             }
 
@@ -194,15 +201,19 @@ class WebhooksController {
                 deliveryId,
             });
 
-            await db.insert(deployments).values({
-                id: deploymentId,
-                projectId: project.id,
-                status: 'pending_build',
-                triggeredBy: 'webhook',
-                commitSha: commitSha ?? null,
-                commitMessage: commitMessage ?? null,
-                createdAt: new Date(),
-            });
+            await deploymentState.create(
+                {
+                    id: deploymentId,
+                    projectId: project.id,
+                    triggeredBy: 'webhook',
+                    gitRef: branch,
+                    commitSha: commitSha ?? null,
+                    commitMessage: commitMessage ?? null,
+                    createdAt: new Date(),
+                },
+                `webhook:${deliveryId ?? 'unknown'}`,
+                { branch, commitSha }
+            );
 
             logger.info('Enqueuing webhook deployment', {
                 deploymentId,
@@ -215,10 +226,14 @@ class WebhooksController {
                     projectId: project.id,
                     repoFullName,
                 });
+                metrics.webhookOutcomes.inc({ outcome: 'no_installation' });
                 return res.status(200).json({ ignored: true });
             }
 
-            deploymentQueue.enqueue(project.id, () => deploymentsController.runBuildPipeline(deploymentId, project, project.installation!.installationId));
+            await deploymentQueue.enqueue(deploymentId, project.id, {
+                userId: project.userId,
+                priority: JOB_PRIORITY.webhook,
+            });
 
             logger.info('Webhook deployment queued successfully', {
                 deploymentId,
@@ -226,9 +241,11 @@ class WebhooksController {
                 deliveryId: deliveryId ?? 'n/a',
             });
 
+            metrics.webhookOutcomes.inc({ outcome: 'deployed' });
             return res.status(200).json({ deploymentId });
         } catch (error) {
             logger.error('Failed to process GitHub webhook:', error);
+            metrics.webhookOutcomes.inc({ outcome: 'error' });
             return res.status(500).json({ error: 'Internal Server Error' });
         }
     }
@@ -1,5 +1,7 @@
-import { pgTable, text, integer, boolean, timestamp } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { pgTable, text, integer, bigint, boolean, timestamp, real, serial, index, uniqueIndex, jsonb } from 'drizzle-orm/pg-core';
+import type { UnixfsSettings, UnixfsSettingsOverrides } from '../utils/unixfs-settings';
+import type { CarVerification } from '../utils/car-verifier';
+import { relations, sql } from 'drizzle-orm';
 
 export const users = pgTable('users', {
   walletAddress: text('wallet_address').primaryKey(),
@@ -34,6 +36,21 @@ export const projects = pgTable('projects', {
   buildCommand: text('build_command'),
   outputDir: text('output_dir'),
   frontendDir: text('frontend_dir'),
+  packageManager: text('package_manager'),
+  installCommand: text('install_command'),
+  buildCpus: real('build_cpus'),
+  buildMemoryMb: integer('build_memory_mb'),
+  buildDiskMb: integer('build_disk_mb'),
+  buildNetworkEnabled: boolean('build_network_enabled').notNull().default(true),
+  gitSubmodules: boolean('git_submodules').notNull().default(false),
+  gitLfs: boolean('git_lfs').notNull().default(false),
+  nodeVersion: text('node_version'),
+  generatorVersion: text('generator_version'),
+  gatewayPathMode: text('gateway_path_mode').notNull().default('report'),
+  /** Upload and ask for an ENS update even when the root CID matches the last deployment. */
+  forceReupload: boolean('force_reupload').notNull().default(false),
+  /** Chunker, HAMT threshold and hash function for the CAR; null uses the defaults. */
+  unixfsSettings: jsonb('unixfs_settings').$type<UnixfsSettingsOverrides>(),
   webhookEnabled: boolean('webhook_enabled').notNull().default(false),
   webhookSecret: text('webhook_secret'),
   createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
@@ -47,6 +64,8 @@ export const deployments = pgTable('deployments', {
   triggeredBy: text('triggered_by'),
   commitSha: text('commit_sha'),
   commitMessage: text('commit_message'),
+  /** Branch, tag or commit requested for the build; null builds the project's branch. */
+  gitRef: text('git_ref'),
   buildLog: text('build_log'),
   ipfsCid: text('ipfs_cid'),
   ensTxHash: text('ens_tx_hash'),
@@ -54,10 +73,120 @@ export const deployments = pgTable('deployments', {
   buildArtifactsPath: text('build_artifacts_path'),
   carRootCid: text('car_root_cid'),
   carFilePath: text('car_file_path'),
+  /** Import settings the CAR was built with, so its CIDs can be reproduced. */
+  unixfsSettings: jsonb('unixfs_settings').$type<UnixfsSettings>(),
+  /** Block, DAG and piece CID checks of the CAR before upload, and of the provider's piece CID after. */
+  carVerification: jsonb('car_verification').$type<CarVerification>(),
+  /** Filecoin piece, data set and storage provider of the upload, or of the deployment it reused. */
+  pieceCid: text('piece_cid'),
+  dataSetId: integer('data_set_id'),
+  providerId: integer('provider_id'),
+  /** `unchanged` when the root CID matched the last successful deployment and nothing was uploaded. */
+  outcome: text('outcome'),
   createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
   completedAt: timestamp('completed_at', { withTimezone: true }),
 });
 
+export const deploymentLogs = pgTable(
+  'deployment_logs',
+  {
+    id: serial('id').primaryKey(),
+    deploymentId: text('deployment_id').notNull().references(() => deployments.id, { onDelete: 'cascade' }),
+    seq: integer('seq').notNull(),
+    stage: text('stage').notNull(),
+    content: text('content').notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [index('deployment_logs_deployment_seq_idx').on(table.deploymentId, table.seq)]
+);
+
+export const deploymentEvents = pgTable(
+  'deployment_events',
+  {
+    id: serial('id').primaryKey(),
+    deploymentId: text('deployment_id').notNull().references(() => deployments.id, { onDelete: 'cascade' }),
+    fromStatus: text('from_status'),
+    toStatus: text('to_status').notNull(),
+    actor: text('actor').notNull(),
+    metadata: jsonb('metadata').$type<Record<string, unknown>>(),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [index('deployment_events_deployment_created_idx').on(table.deploymentId, table.createdAt)]
+);
+
+export const deploymentStageTimings = pgTable(
+  'deployment_stage_timings',
+  {
+    id: serial('id').primaryKey(),
+    deploymentId: text('deployment_id').notNull().references(() => deployments.id, { onDelete: 'cascade' }),
+    stage: text('stage').notNull(),
+    startedAt: timestamp('started_at', { withTimezone: true }).notNull(),
+    endedAt: timestamp('ended_at', { withTimezone: true }),
+    outcome: text('outcome'),
+  },
+  (table) => [index('deployment_stage_timings_deployment_idx').on(table.deploymentId, table.startedAt)]
+);
+
+/** Manifest of the files a deployment's CAR contains. */
+export const deploymentFiles = pgTable(
+  'deployment_files',
+  {
+    id: serial('id').primaryKey(),
+    deploymentId: text('deployment_id').notNull().references(() => deployments.id, { onDelete: 'cascade' }),
+    path: text('path').notNull(),
+    size: bigint('size', { mode: 'number' }).notNull(),
+    contentType: text('content_type').notNull(),
+    cid: text('cid').notNull(),
+  },
+  (table) => [uniqueIndex('deployment_files_deployment_path_idx').on(table.deploymentId, table.path)]
+);
+
+export const deploymentJobs = pgTable(
+  'deployment_jobs',
+  {
+    id: text('id').primaryKey(),
+    deploymentId: text('deployment_id')
+      .notNull()
+      .unique()
+      .references(() => deployments.id, { onDelete: 'cascade' }),
+    projectId: text('project_id').notNull().references(() => projects.id, { onDelete: 'cascade' }),
+    userId: text('user_id').references(() => users.walletAddress, { onDelete: 'cascade' }),
+    status: text('status').notNull().default('queued'),
+    priority: integer('priority').notNull().default(0),
+    attempts: integer('attempts').notNull().default(0),
+    maxAttempts: integer('max_attempts').notNull().default(3),
+    lockedBy: text('locked_by'),
+    lockedUntil: timestamp('locked_until', { withTimezone: true }),
+    heartbeatAt: timestamp('heartbeat_at', { withTimezone: true }),
+    lastCompletedStage: text('last_completed_stage'),
+    lastError: text('last_error'),
+    runAfter: timestamp('run_after', { withTimezone: true }).notNull().defaultNow(),
+    startedAt: timestamp('started_at', { withTimezone: true }),
+    completedAt: timestamp('completed_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    index('deployment_jobs_status_run_after_idx').on(table.status, table.runAfter),
+    // At most one running job per project
+    uniqueIndex('deployment_jobs_project_running_idx')
+      .on(table.projectId)
+      .where(sql`${table.status} = 'running'`),
+  ]
+);
+
+export const projectEnvVars = pgTable('project_env_vars', {
+  id: text('id').primaryKey(),
+  projectId: text('project_id').notNull().references(() => projects.id, { onDelete: 'cascade' }),
+  key: text('key').notNull(),
+  valueEncrypted: text('value_encrypted').notNull(),
+  isSecret: boolean('is_secret').notNull().default(true),
+  target: text('target').notNull().default('all'),
+  branch: text('branch'),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
 export const usersRelations = relations(users, ({ many }) => ({
   projects: many(projects),
   githubInstallations: many(githubInstallations),
@@ -81,11 +210,63 @@ export const projectsRelations = relations(projects, ({ one, many }) => ({
     references: [githubInstallations.id],
   }),
   deployments: many(deployments),
+  envVars: many(projectEnvVars),
 }));
 
-export const deploymentsRelations = relations(deployments, ({ one }) => ({
+export const deploymentsRelations = relations(deployments, ({ one, many }) => ({
   project: one(projects, {
     fields: [deployments.projectId],
     references: [projects.id],
   }),
+  logs: many(deploymentLogs),
+  events: many(deploymentEvents),
+  stageTimings: many(deploymentStageTimings),
+  files: many(deploymentFiles),
+  job: one(deploymentJobs),
+}));
+
+export const deploymentLogsRelations = relations(deploymentLogs, ({ one }) => ({
+  deployment: one(deployments, {
+    fields: [deploymentLogs.deploymentId],
+    references: [deployments.id],
+  }),
+}));
+
+export const deploymentEventsRelations = relations(deploymentEvents, ({ one }) => ({
+  deployment: one(deployments, {
+    fields: [deploymentEvents.deploymentId],
+    references: [deployments.id],
+  }),
+}));
+
+export const deploymentStageTimingsRelations = relations(deploymentStageTimings, ({ one }) => ({
+  deployment: one(deployments, {
+    fields: [deploymentStageTimings.deploymentId],
+    references: [deployments.id],
+  }),
+}));
+
+export const deploymentFilesRelations = relations(deploymentFiles, ({ one }) => ({
+  deployment: one(deployments, {
+    fields: [deploymentFiles.deploymentId],
+    references: [deployments.id],
+  }),
+}));
+
+export const deploymentJobsRelations = relations(deploymentJobs, ({ one }) => ({
+  deployment: one(deployments, {
+    fields: [deploymentJobs.deploymentId],
+    references: [deployments.id],
+  }),
+  project: one(projects, {
+    fields: [deploymentJobs.projectId],
+    references: [projects.id],
+  }),
+}));
+
+export const projectEnvVarsRelations = relations(projectEnvVars, ({ one }) => ({
+  project: one(projects, {
+    fields: [projectEnvVars.projectId],
+    references: [projects.id],
+  }),
 }));
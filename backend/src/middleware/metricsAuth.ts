@@ -0,0 +1,48 @@
+import { timingSafeEqual } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { env } from '../config/env';
+
+const allowedIps = (env.METRICS_ALLOWED_IPS ?? '')
+  .split(',')
+  .map((ip) => ip.trim())
+  .filter(Boolean);
+
+function normalizeIp(ip: string | undefined) {
+  return ip?.startsWith('::ffff:') ? ip.slice('::ffff:'.length) : ip;
+}
+
+function hasValidToken(req: Request) {
+  const header = req.header('authorization') ?? '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+  if (!env.METRICS_TOKEN || !token) {
+    return false;
+  }
+  const expected = Buffer.from(env.METRICS_TOKEN);
+  const received = Buffer.from(token);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * Allows scrapes that present METRICS_TOKEN as a bearer token or come from an address
+ * in METRICS_ALLOWED_IPS. With neither configured, metrics are not exposed at all.
+ * The allowlist checks the socket's peer address rather than `req.ip`, which with
+ * `trust proxy` comes from X-Forwarded-For and can be set by any client.
+ */
+export function requireMetricsAccess(req: Request, res: Response, next: NextFunction) {
+  if (!env.METRICS_TOKEN && allowedIps.length === 0) {
+    return res.status(404).json({
+      error: 'Not Found',
+      message: 'Metrics are not enabled',
+    });
+  }
+
+  const ip = normalizeIp(req.socket.remoteAddress);
+  if (hasValidToken(req) || (ip && allowedIps.includes(ip))) {
+    return next();
+  }
+
+  res.status(403).json({
+    error: 'Forbidden',
+    message: 'Metrics access denied',
+  });
+}
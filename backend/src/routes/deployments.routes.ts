@@ -43,7 +43,13 @@ router.post(
 );
 
 router.get('/', isAuthenticated, (req, res) => deploymentsController.list(req, res));
+router.get('/stream', isAuthenticated, (req, res) => deploymentsController.streamAll(req, res));
 router.get('/:id', isAuthenticated, (req, res) => deploymentsController.getStatus(req, res));
+router.get('/:id/logs', isAuthenticated, (req, res) => deploymentsController.getLogs(req, res));
+router.get('/:id/timeline', isAuthenticated, (req, res) => deploymentsController.getTimeline(req, res));
+router.get('/:id/files', isAuthenticated, (req, res) => deploymentsController.getFiles(req, res));
+router.get('/:id/diff', isAuthenticated, (req, res) => deploymentsController.getDiff(req, res));
+router.get('/:id/stream', isAuthenticated, (req, res) => deploymentsController.stream(req, res));
 router.get('/:id/artifacts', isAuthenticated, (req, res) => deploymentsController.downloadArtifacts(req, res));
 router.get('/:id/artifact', isAuthenticated, (req, res) => deploymentsController.downloadArtifacts(req, res)); // legacy path
 router.get('/:id/car', isAuthenticated, (req, res) => deploymentsController.downloadCar(req, res));
@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { frameworksController } from '../controllers/frameworks.controller';
+
+const router: Router = Router();
+
+// GET /api/frameworks - Frameworks Filify can build, with their default build command and output dir
+router.get('/', (req, res) => frameworksController.list(req, res));
+
+export default router;
@@ -1,9 +1,17 @@
 import { Router } from 'express';
 import { projectsController } from '../controllers/projects.controller';
 import { deploymentsController } from '../controllers/deployments.controller';
+import { projectEnvController } from '../controllers/project-env.controller';
 import { isAuthenticated } from '../middleware/auth';
 import { validateRequest } from '../middleware/validateRequest';
-import { createProjectSchema, updateProjectSchema, webhookToggleSchema, emptyBodySchema } from '../utils/validators';
+import {
+  createProjectSchema,
+  updateProjectSchema,
+  webhookToggleSchema,
+  emptyBodySchema,
+  createEnvVarSchema,
+  updateEnvVarSchema,
+} from '../utils/validators';
 
 const router: Router = Router();
 
@@ -25,6 +33,9 @@ router.delete('/:id', isAuthenticated, (req, res) => projectsController.delete(r
 router.get('/:id/deployments', isAuthenticated, (req, res) =>
   deploymentsController.listByProject(req, res)
 );
+router.get('/:id/stage-stats', isAuthenticated, (req, res) =>
+  deploymentsController.getStageStats(req, res)
+);
 router.post(
   '/:id/webhook/enable',
   isAuthenticated,
@@ -38,6 +49,22 @@ router.post(
   (req, res) => projectsController.disableWebhook(req, res)
 );
 
+// Build Environment Variables
+router.get('/:id/env', isAuthenticated, (req, res) => projectEnvController.list(req, res));
+router.post(
+  '/:id/env',
+  isAuthenticated,
+  validateRequest(createEnvVarSchema),
+  (req, res) => projectEnvController.create(req, res)
+);
+router.put(
+  '/:id/env/:envId',
+  isAuthenticated,
+  validateRequest(updateEnvVarSchema),
+  (req, res) => projectEnvController.update(req, res)
+);
+router.delete('/:id/env/:envId', isAuthenticated, (req, res) => projectEnvController.delete(req, res));
+
 // ENS Management Routes
 router.post(
   '/:id/ens/attach',
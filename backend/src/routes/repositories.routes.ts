@@ -8,5 +8,8 @@ router.get('/', isAuthenticated, (req, res) => repositoriesController.list(req,
 router.get('/:installationId/:owner/:repo/branches', isAuthenticated, (req, res) =>
     repositoriesController.getBranches(req, res)
 );
+router.get('/:installationId/:owner/:repo/workspace', isAuthenticated, (req, res) =>
+    repositoriesController.getWorkspace(req, res)
+);
 
 export default router;
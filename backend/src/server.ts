@@ -7,6 +7,7 @@ import { Pool } from 'pg';
 import { env } from './config/env';
 import { errorHandler } from './middleware/errorHandler';
 import { requestLogger } from './middleware/requestLogger';
+import { requireMetricsAccess } from './middleware/metricsAuth';
 import { logger } from './utils/logger';
 import authRoutes from './routes/auth.routes';
 import projectsRoutes from './routes/projects.routes';
@@ -15,7 +16,8 @@ import deploymentsRoutes from './routes/deployments.routes';
 import webhooksRoutes from './routes/webhooks.routes';
 import ensRoutes from './routes/ens.routes';
 import githubRoutes from './routes/github.routes';
-import { cancelStaleDeployments } from './services/startup.service';
+import frameworksRoutes from './routes/frameworks.routes';
+import { metrics } from './services/metrics.service';
 
 const app = express();
 const PgStore = pgSession(session);
@@ -74,11 +76,22 @@ app.use('/api/projects', projectsRoutes);
 app.use('/api/repositories', repositoriesRoutes);
 app.use('/api/deployments', deploymentsRoutes);
 app.use('/api/ens', ensRoutes);
+app.use('/api/frameworks', frameworksRoutes);
 
 app.get('/health', (req, res) => {
     res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+metrics.registerSystemGauges();
+app.get('/metrics', requireMetricsAccess, async (req, res, next) => {
+    try {
+        res.set('Content-Type', metrics.registry.contentType);
+        res.send(await metrics.registry.metrics());
+    } catch (error) {
+        next(error);
+    }
+});
+
 app.use(errorHandler);
 
 const PORT = env.PORT || 3000;
@@ -93,10 +106,4 @@ app.listen(PORT, () => {
     logger.info(`Environment: ${env.NODE_ENV}`);
     logger.info(`Frontend URL: ${env.FRONTEND_URL}`);
     logger.info(`Backend URL: ${env.BACKEND_URL}`);
-
-    cancelStaleDeployments().then((count) => {
-        if (count > 0) {
-            logger.info(`Cancelled ${count} stale deployment(s) from previous session`);
-        }
-    });
 });
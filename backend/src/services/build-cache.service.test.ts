@@ -0,0 +1,230 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { env } from '../config/env';
+import type { PackageManagerInfo } from '../utils/package-manager';
+import { buildCacheService, type BuildCacheContext } from './build-cache.service';
+
+const { tempRoot } = vi.hoisted(() => {
+    const nodeOs: typeof import('os') = require('os');
+    const nodeFs: typeof import('fs') = require('fs');
+    const nodePath: typeof import('path') = require('path');
+    return { tempRoot: nodeFs.mkdtempSync(nodePath.join(nodeOs.tmpdir(), 'build-cache-')) };
+});
+
+vi.mock('../utils/paths', () => ({
+    getBuildCacheRoot: () => path.join(tempRoot, 'build-cache'),
+}));
+
+const CACHE_ROOT = path.join(tempRoot, 'build-cache');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function packageManager(overrides: Partial<PackageManagerInfo> = {}): PackageManagerInfo {
+    return {
+        name: 'npm',
+        version: null,
+        source: 'lockfile',
+        lockfile: 'package-lock.json',
+        installDir: '',
+        yarnBerry: false,
+        corepack: false,
+        installCommand: 'npm ci --include=dev',
+        ...overrides,
+    };
+}
+
+afterAll(async () => {
+    await fs.rm(tempRoot, { recursive: true, force: true });
+});
+
+describe('buildCacheService.getCacheKey', () => {
+    let buildDir: string;
+
+    beforeEach(async () => {
+        buildDir = await fs.mkdtemp(path.join(tempRoot, 'build-'));
+        await fs.mkdir(path.join(buildDir, 'apps/web'), { recursive: true });
+        await fs.mkdir(path.join(buildDir, 'apps/docs'), { recursive: true });
+        await fs.writeFile(path.join(buildDir, 'package-lock.json'), '{"lockfileVersion":3}');
+        await fs.writeFile(path.join(buildDir, 'apps/web/package.json'), '{"name":"web"}');
+    });
+
+    function context(overrides: Partial<BuildCacheContext> = {}): BuildCacheContext {
+        return {
+            projectId: 'project-1',
+            buildDir,
+            workingDir: buildDir,
+            packageManager: packageManager({ installDir: buildDir }),
+            ...overrides,
+        };
+    }
+
+    it('is stable for the same inputs', async () => {
+        const key = await buildCacheService.getCacheKey(context());
+        expect(key).toMatch(/^[0-9a-f]{16}$/);
+        expect(await buildCacheService.getCacheKey(context())).toBe(key);
+    });
+
+    it('changes with the lockfile contents', async () => {
+        const before = await buildCacheService.getCacheKey(context());
+        await fs.writeFile(path.join(buildDir, 'package-lock.json'), '{"lockfileVersion":3,"packages":{}}');
+        expect(await buildCacheService.getCacheKey(context())).not.toBe(before);
+    });
+
+    it('changes with the package manager', async () => {
+        const npm = await buildCacheService.getCacheKey(context());
+        const pnpm = await buildCacheService.getCacheKey(
+            context({ packageManager: packageManager({ name: 'pnpm', installDir: buildDir }) })
+        );
+        expect(pnpm).not.toBe(npm);
+    });
+
+    it('separates monorepo apps that share a lockfile', async () => {
+        const web = await buildCacheService.getCacheKey(context({ workingDir: path.join(buildDir, 'apps/web') }));
+        const docs = await buildCacheService.getCacheKey(context({ workingDir: path.join(buildDir, 'apps/docs') }));
+        expect(web).not.toBe(docs);
+    });
+
+    it('does not depend on where the checkout is', async () => {
+        const key = await buildCacheService.getCacheKey(context());
+        const otherBuildDir = await fs.mkdtemp(path.join(tempRoot, 'build-'));
+        await fs.copyFile(path.join(buildDir, 'package-lock.json'), path.join(otherBuildDir, 'package-lock.json'));
+
+        const otherKey = await buildCacheService.getCacheKey({
+            projectId: 'project-1',
+            buildDir: otherBuildDir,
+            workingDir: otherBuildDir,
+            packageManager: packageManager({ installDir: otherBuildDir }),
+        });
+        expect(otherKey).toBe(key);
+    });
+
+    it('uses package.json when there is no lockfile', async () => {
+        const workingDir = path.join(buildDir, 'apps/web');
+        const noLockfile = context({ workingDir, packageManager: packageManager({ lockfile: null, installDir: workingDir }) });
+        const before = await buildCacheService.getCacheKey(noLockfile);
+
+        await fs.writeFile(path.join(buildDir, 'package-lock.json'), '{"changed":true}');
+        expect(await buildCacheService.getCacheKey(noLockfile)).toBe(before);
+
+        await fs.writeFile(path.join(workingDir, 'package.json'), '{"name":"web","dependencies":{"vite":"^5"}}');
+        expect(await buildCacheService.getCacheKey(noLockfile)).not.toBe(before);
+    });
+
+    it('changes with the Node.js version when one is set', async () => {
+        const unset = await buildCacheService.getCacheKey(context());
+        const node20 = await buildCacheService.getCacheKey(context({ nodeVersion: '20.18.0' }));
+        const node22 = await buildCacheService.getCacheKey(context({ nodeVersion: '22.11.0' }));
+
+        expect(new Set([unset, node20, node22]).size).toBe(3);
+        expect(await buildCacheService.getCacheKey(context({ nodeVersion: '20.18.0' }))).toBe(node20);
+    });
+});
+
+describe('buildCacheService save and restore', () => {
+    it('restores the store and framework caches saved by an earlier build', async () => {
+        const firstBuild = await fs.mkdtemp(path.join(tempRoot, 'build-'));
+        const firstContext: BuildCacheContext = {
+            projectId: 'project-save',
+            buildDir: firstBuild,
+            workingDir: firstBuild,
+            packageManager: packageManager({ installDir: firstBuild }),
+        };
+        await fs.writeFile(path.join(firstBuild, 'package-lock.json'), '{}');
+        const storeDir = buildCacheService.getStoreDir(firstBuild);
+        await fs.mkdir(path.join(storeDir, 'npm'), { recursive: true });
+        await fs.writeFile(path.join(storeDir, 'npm/index'), 'tarballs');
+        await fs.mkdir(path.join(firstBuild, '.next/cache'), { recursive: true });
+        await fs.writeFile(path.join(firstBuild, '.next/cache/webpack'), 'chunks');
+
+        const miss = await buildCacheService.restoreStore(firstContext);
+        expect(miss.hit).toBe(false);
+        await buildCacheService.save(firstContext, miss.key);
+
+        const secondBuild = await fs.mkdtemp(path.join(tempRoot, 'build-'));
+        const secondContext = { ...firstContext, buildDir: secondBuild, workingDir: secondBuild };
+        secondContext.packageManager = packageManager({ installDir: secondBuild });
+        await fs.writeFile(path.join(secondBuild, 'package-lock.json'), '{}');
+
+        const hit = await buildCacheService.restoreStore(secondContext);
+        expect(hit).toEqual({ hit: true, key: miss.key });
+        expect(await fs.readFile(path.join(buildCacheService.getStoreDir(secondBuild), 'npm/index'), 'utf-8')).toBe(
+            'tarballs'
+        );
+        expect(await buildCacheService.restoreFrameworkCaches(secondContext, hit.key)).toEqual(['.next/cache']);
+        expect(await fs.readFile(path.join(secondBuild, '.next/cache/webpack'), 'utf-8')).toBe('chunks');
+    });
+});
+
+describe('buildCacheService.evict', () => {
+    const limits = {
+        BUILD_CACHE_MAX_AGE_DAYS: env.BUILD_CACHE_MAX_AGE_DAYS,
+        BUILD_CACHE_MAX_SIZE_MB: env.BUILD_CACHE_MAX_SIZE_MB,
+    };
+
+    beforeEach(async () => {
+        await fs.rm(CACHE_ROOT, { recursive: true, force: true });
+        Object.assign(env, { BUILD_CACHE_MAX_AGE_DAYS: 14, BUILD_CACHE_MAX_SIZE_MB: 3 });
+    });
+
+    afterEach(() => {
+        Object.assign(env, limits);
+    });
+
+    async function writeEntry(projectId: string, key: string, lastUsedDaysAgo: number, sizeMb: number) {
+        const dir = path.join(CACHE_ROOT, projectId, key);
+        await fs.mkdir(dir, { recursive: true });
+        const lastUsedAt = new Date(Date.now() - lastUsedDaysAgo * DAY_MS).toISOString();
+        await fs.writeFile(
+            path.join(dir, 'meta.json'),
+            JSON.stringify({ key, packageManager: 'npm', createdAt: lastUsedAt, lastUsedAt, sizeBytes: sizeMb * 1024 * 1024 })
+        );
+    }
+
+    async function remainingKeys() {
+        const keys: string[] = [];
+        for (const projectId of await fs.readdir(CACHE_ROOT)) {
+            keys.push(...(await fs.readdir(path.join(CACHE_ROOT, projectId))));
+        }
+        return keys.sort();
+    }
+
+    it('removes entries unused for longer than the maximum age', async () => {
+        await writeEntry('project-1', 'fresh', 1, 1);
+        await writeEntry('project-1', 'stale', 15, 1);
+        await writeEntry('project-2', 'ancient', 90, 1);
+
+        await buildCacheService.evict();
+
+        expect(await remainingKeys()).toEqual(['fresh']);
+    });
+
+    it('removes the least recently used entries until the cache fits', async () => {
+        await writeEntry('project-1', 'newest', 0, 1);
+        await writeEntry('project-2', 'oldest', 10, 1);
+        await writeEntry('project-1', 'middle', 5, 1);
+        await writeEntry('project-2', 'recent', 2, 1);
+
+        await buildCacheService.evict();
+
+        expect(await remainingKeys()).toEqual(['middle', 'newest', 'recent']);
+
+        env.BUILD_CACHE_MAX_SIZE_MB = 1;
+        await buildCacheService.evict();
+
+        expect(await remainingKeys()).toEqual(['newest']);
+    });
+
+    it('keeps saves in progress and clears abandoned ones', async () => {
+        await writeEntry('project-1', 'entry', 0, 1);
+        const inProgress = path.join(CACHE_ROOT, 'project-1', '.tmp-abc-1');
+        const abandoned = path.join(CACHE_ROOT, 'project-1', '.tmp-def-2');
+        await fs.mkdir(inProgress);
+        await fs.mkdir(abandoned);
+        const twoDaysAgo = new Date(Date.now() - 2 * DAY_MS);
+        await fs.utimes(abandoned, twoDaysAgo, twoDaysAgo);
+
+        await buildCacheService.evict();
+
+        expect(await remainingKeys()).toEqual(['.tmp-abc-1', 'entry']);
+    });
+});
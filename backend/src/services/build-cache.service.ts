@@ -0,0 +1,288 @@
+import crypto from 'crypto';
+import path from 'path';
+import fs from 'fs/promises';
+import { env } from '../config/env';
+import { logger } from '../utils/logger';
+import { getBuildCacheRoot } from '../utils/paths';
+import { getDirectorySizeBytes } from '../utils/disk-usage';
+import type { PackageManagerInfo } from '../utils/package-manager';
+import { SANDBOX_STATE_DIRNAME } from './build-executor.service';
+
+/** Framework caches worth keeping between builds, relative to the project working dir. */
+const FRAMEWORK_CACHE_PATHS = ['.next/cache', 'node_modules/.cache', '.nuxt/cache', '.angular/cache', '.parcel-cache'];
+
+const STORE_DIRNAME = 'store';
+const FRAMEWORKS_DIRNAME = 'frameworks';
+const META_FILENAME = 'meta.json';
+
+export interface BuildCacheContext {
+    projectId: string;
+    buildDir: string;
+    /** Project working dir (frontendDir inside the checkout). */
+    workingDir: string;
+    packageManager: PackageManagerInfo;
+    /** Node.js version of the build; native modules in the store are tied to it. */
+    nodeVersion?: string;
+}
+
+interface CacheMeta {
+    key: string;
+    packageManager: string;
+    createdAt: string;
+    lastUsedAt: string;
+    sizeBytes: number;
+}
+
+interface CacheEntry {
+    dir: string;
+    meta: CacheMeta;
+}
+
+class BuildCacheService {
+    private readonly CACHE_ROOT = getBuildCacheRoot();
+
+    get enabled() {
+        return env.BUILD_CACHE_ENABLED;
+    }
+
+    /**
+     * Directory inside the build sandbox that package managers are pointed at; it is
+     * restored from and saved to the persistent cache.
+     */
+    getStoreDir(buildDir: string) {
+        return path.join(buildDir, SANDBOX_STATE_DIRNAME, 'cache');
+    }
+
+    /** Environment that redirects package manager stores into the sandbox store dir. */
+    getCacheEnv(buildDir: string): Record<string, string> {
+        const storeDir = this.getStoreDir(buildDir);
+        return {
+            npm_config_cache: path.join(storeDir, 'npm'),
+            npm_config_store_dir: path.join(storeDir, 'pnpm-store'),
+            YARN_CACHE_FOLDER: path.join(storeDir, 'yarn'),
+            YARN_GLOBAL_FOLDER: path.join(storeDir, 'yarn-berry'),
+            BUN_INSTALL_CACHE_DIR: path.join(storeDir, 'bun'),
+            COREPACK_HOME: path.join(storeDir, 'corepack'),
+        };
+    }
+
+    /**
+     * Cache key: package manager plus the lockfile (or package.json when there is none)
+     * and the working dir, so monorepo apps sharing a lockfile keep separate framework caches.
+     * The Node.js version is part of the key when one was requested.
+     */
+    async getCacheKey(context: BuildCacheContext): Promise<string> {
+        const { packageManager, workingDir, buildDir } = context;
+        const keySource = packageManager.lockfile
+            ? path.join(packageManager.installDir, packageManager.lockfile)
+            : path.join(workingDir, 'package.json');
+        const contents = await fs.readFile(keySource).catch(() => Buffer.alloc(0));
+
+        const hash = crypto
+            .createHash('sha256')
+            .update(packageManager.name)
+            .update('\0')
+            .update(path.relative(buildDir, workingDir))
+            .update('\0')
+            .update(contents);
+        if (context.nodeVersion) {
+            hash.update('\0').update(context.nodeVersion);
+        }
+        return hash.digest('hex').slice(0, 16);
+    }
+
+    private getEntryDir(projectId: string, key: string) {
+        return path.join(this.CACHE_ROOT, projectId, key);
+    }
+
+    /**
+     * Restore the package manager store before install. Framework caches are restored
+     * separately because installs may wipe node_modules.
+     */
+    async restoreStore(context: BuildCacheContext): Promise<{ hit: boolean; key: string }> {
+        const key = await this.getCacheKey(context);
+        const entryDir = this.getEntryDir(context.projectId, key);
+        const meta = await this.readMeta(entryDir);
+        if (!meta) {
+            logger.info('Build cache miss', { projectId: context.projectId, key });
+            return { hit: false, key };
+        }
+
+        const storeSource = path.join(entryDir, STORE_DIRNAME);
+        await fs.mkdir(this.getStoreDir(context.buildDir), { recursive: true });
+        await fs
+            .cp(storeSource, this.getStoreDir(context.buildDir), { recursive: true, verbatimSymlinks: true })
+            .catch((error) => {
+                if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                    throw error;
+                }
+            });
+
+        await this.writeMeta(entryDir, { ...meta, lastUsedAt: new Date().toISOString() });
+        logger.info('Build cache hit', { projectId: context.projectId, key });
+        return { hit: true, key };
+    }
+
+    /** Restore framework caches (e.g. .next/cache) into the working dir after install. */
+    async restoreFrameworkCaches(context: BuildCacheContext, key: string): Promise<string[]> {
+        const frameworksDir = path.join(this.getEntryDir(context.projectId, key), FRAMEWORKS_DIRNAME);
+        const restored: string[] = [];
+        for (const relativePath of FRAMEWORK_CACHE_PATHS) {
+            const source = path.join(frameworksDir, relativePath);
+            if (!(await this.isDirectory(source))) {
+                continue;
+            }
+            const target = path.join(context.workingDir, relativePath);
+            await fs.rm(target, { recursive: true, force: true });
+            await fs.mkdir(path.dirname(target), { recursive: true });
+            await fs.cp(source, target, { recursive: true, verbatimSymlinks: true });
+            restored.push(relativePath);
+        }
+        return restored;
+    }
+
+    /**
+     * Save the store and framework caches after a successful build. The entry is written
+     * to a temp dir and renamed into place so concurrent builds never see a partial cache.
+     */
+    async save(context: BuildCacheContext, key: string): Promise<{ sizeBytes: number }> {
+        const projectDir = path.join(this.CACHE_ROOT, context.projectId);
+        const entryDir = this.getEntryDir(context.projectId, key);
+        const tempDir = path.join(projectDir, `.tmp-${key}-${Date.now()}`);
+
+        try {
+            await fs.mkdir(tempDir, { recursive: true });
+
+            const storeDir = this.getStoreDir(context.buildDir);
+            if (await this.isDirectory(storeDir)) {
+                await fs.cp(storeDir, path.join(tempDir, STORE_DIRNAME), { recursive: true, verbatimSymlinks: true });
+            }
+
+            for (const relativePath of FRAMEWORK_CACHE_PATHS) {
+                const source = path.join(context.workingDir, relativePath);
+                if (await this.isDirectory(source)) {
+                    const target = path.join(tempDir, FRAMEWORKS_DIRNAME, relativePath);
+                    await fs.mkdir(path.dirname(target), { recursive: true });
+                    await fs.cp(source, target, { recursive: true, verbatimSymlinks: true });
+                }
+            }
+
+            const sizeBytes = await getDirectorySizeBytes(tempDir);
+            const now = new Date().toISOString();
+            await this.writeMeta(tempDir, {
+                key,
+                packageManager: context.packageManager.name,
+                createdAt: now,
+                lastUsedAt: now,
+                sizeBytes,
+            });
+
+            await fs.rm(entryDir, { recursive: true, force: true });
+            await fs.rename(tempDir, entryDir);
+
+            logger.info('Build cache saved', { projectId: context.projectId, key, sizeBytes });
+            return { sizeBytes };
+        } finally {
+            await fs.rm(tempDir, { recursive: true, force: true }).catch(() => undefined);
+        }
+    }
+
+    /** Remove every cache entry for a project (e.g. when the project is deleted). */
+    async clearProject(projectId: string) {
+        await fs.rm(path.join(this.CACHE_ROOT, projectId), { recursive: true, force: true });
+        logger.info('Build cache cleared for project', { projectId });
+    }
+
+    /**
+     * Evict entries unused for longer than BUILD_CACHE_MAX_AGE_DAYS, then the least
+     * recently used entries until the cache fits in BUILD_CACHE_MAX_SIZE_MB.
+     */
+    async evict() {
+        const entries = await this.listEntries();
+        const maxAgeMs = env.BUILD_CACHE_MAX_AGE_DAYS * 24 * 60 * 60 * 1000;
+        const maxSizeBytes = env.BUILD_CACHE_MAX_SIZE_MB * 1024 * 1024;
+        const now = Date.now();
+        let evictedCount = 0;
+
+        const remaining: CacheEntry[] = [];
+        for (const entry of entries) {
+            if (now - new Date(entry.meta.lastUsedAt).getTime() > maxAgeMs) {
+                await this.removeEntry(entry, 'expired');
+                evictedCount++;
+            } else {
+                remaining.push(entry);
+            }
+        }
+
+        remaining.sort((a, b) => new Date(a.meta.lastUsedAt).getTime() - new Date(b.meta.lastUsedAt).getTime());
+        let totalBytes = remaining.reduce((sum, entry) => sum + entry.meta.sizeBytes, 0);
+        while (totalBytes > maxSizeBytes && remaining.length > 0) {
+            const entry = remaining.shift()!;
+            await this.removeEntry(entry, 'size');
+            totalBytes -= entry.meta.sizeBytes;
+            evictedCount++;
+        }
+
+        if (evictedCount > 0) {
+            logger.info('Build cache eviction completed', { evictedCount, remainingBytes: totalBytes });
+        }
+    }
+
+    private async listEntries(): Promise<CacheEntry[]> {
+        const entries: CacheEntry[] = [];
+        const projectIds = await fs.readdir(this.CACHE_ROOT).catch(() => [] as string[]);
+        for (const projectId of projectIds) {
+            const projectDir = path.join(this.CACHE_ROOT, projectId);
+            const keys = await fs.readdir(projectDir).catch(() => [] as string[]);
+            for (const key of keys) {
+                const dir = path.join(projectDir, key);
+                if (key.startsWith('.tmp-')) {
+                    // Leftover from a crashed save; safe to drop once it is old
+                    const stats = await fs.stat(dir).catch(() => null);
+                    if (stats && Date.now() - stats.mtimeMs > 24 * 60 * 60 * 1000) {
+                        await fs.rm(dir, { recursive: true, force: true }).catch(() => undefined);
+                    }
+                    continue;
+                }
+                const meta = await this.readMeta(dir);
+                if (meta) {
+                    entries.push({ dir, meta });
+                }
+            }
+        }
+        return entries;
+    }
+
+    private async removeEntry(entry: CacheEntry, reason: 'expired' | 'size') {
+        try {
+            await fs.rm(entry.dir, { recursive: true, force: true });
+            logger.info('Evicted build cache entry', { path: entry.dir, reason, sizeBytes: entry.meta.sizeBytes });
+        } catch (error) {
+            logger.warn('Failed to evict build cache entry', {
+                path: entry.dir,
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
+    }
+
+    private async readMeta(entryDir: string): Promise<CacheMeta | null> {
+        try {
+            return JSON.parse(await fs.readFile(path.join(entryDir, META_FILENAME), 'utf-8')) as CacheMeta;
+        } catch {
+            return null;
+        }
+    }
+
+    private async writeMeta(entryDir: string, meta: CacheMeta) {
+        await fs.writeFile(path.join(entryDir, META_FILENAME), JSON.stringify(meta), 'utf-8');
+    }
+
+    private async isDirectory(target: string) {
+        return fs
+            .stat(target)
+            .then((stats) => stats.isDirectory())
+            .catch(() => false);
+    }
+}
+
+export const buildCacheService = new BuildCacheService();
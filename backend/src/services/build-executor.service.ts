@@ -0,0 +1,311 @@
+import { execFile } from 'child_process';
+import path from 'path';
+import { env } from '../config/env';
+import { mountQuotaDir, unmountQuotaDir } from '../utils/disk-quota';
+import { logger } from '../utils/logger';
+import { getBuildCacheRoot, getBuildsRoot } from '../utils/paths';
+
+export type BuildExecutorType = 'host' | 'container' | 'bubblewrap';
+
+export interface BuildResourceLimits {
+    cpus: number;
+    memoryMb: number;
+    diskMb: number;
+    network: boolean;
+}
+
+export interface ProjectBuildLimits {
+    buildCpus?: number | null;
+    buildMemoryMb?: number | null;
+    buildDiskMb?: number | null;
+    buildNetworkEnabled?: boolean | null;
+}
+
+export interface SandboxOptions {
+    deploymentId: string;
+    /** The only directory the build may write to (the deployment build dir). */
+    sandboxDir: string;
+    cwd: string;
+    env: NodeJS.ProcessEnv;
+    limits: BuildResourceLimits;
+    /** Toolchain bin dirs (e.g. a Node.js version) put first on PATH; read-only to the build. */
+    toolPaths?: string[];
+}
+
+export interface SandboxInvocation {
+    file: string;
+    args: string[];
+    cwd: string;
+    env: NodeJS.ProcessEnv;
+}
+
+export interface BuildExecutor {
+    readonly type: BuildExecutorType;
+    prepare(command: string, options: SandboxOptions): SandboxInvocation;
+    terminate?(deploymentId: string): Promise<void>;
+    /**
+     * Set up the deployment build dir before anything is written to it. Executors that
+     * implement this cap its size at the disk limit; for the others the build measures it.
+     */
+    createWorkspace?(sandboxDir: string, limits: BuildResourceLimits): Promise<void>;
+    /** Undo createWorkspace; the build dir itself is removed by the caller. */
+    releaseWorkspace?(sandboxDir: string): Promise<void>;
+}
+
+/** Host variables a build legitimately needs; everything else (secrets included) is dropped. */
+const PASSTHROUGH_ENV_KEYS = [
+    'PATH',
+    'LANG',
+    'LC_ALL',
+    'TZ',
+    'HTTP_PROXY',
+    'HTTPS_PROXY',
+    'NO_PROXY',
+    'http_proxy',
+    'https_proxy',
+    'no_proxy',
+];
+
+export const SANDBOX_STATE_DIRNAME = '.filify';
+
+export function getSandboxHomeDir(sandboxDir: string): string {
+    return path.join(sandboxDir, SANDBOX_STATE_DIRNAME, 'home');
+}
+
+/**
+ * Build a scrubbed environment for user build commands. The backend's own
+ * process.env is never forwarded wholesale.
+ */
+export function createSandboxEnv(sandboxDir: string, extra: Record<string, string> = {}): NodeJS.ProcessEnv {
+    const sandboxEnv: NodeJS.ProcessEnv = {};
+    for (const key of PASSTHROUGH_ENV_KEYS) {
+        if (process.env[key] !== undefined) {
+            sandboxEnv[key] = process.env[key];
+        }
+    }
+
+    return {
+        ...sandboxEnv,
+        HOME: getSandboxHomeDir(sandboxDir),
+        CI: '1',
+        ...extra,
+    };
+}
+
+function prependToPath(buildEnv: NodeJS.ProcessEnv, toolPaths: string[] = []): NodeJS.ProcessEnv {
+    if (toolPaths.length === 0) {
+        return buildEnv;
+    }
+    return { ...buildEnv, PATH: [...toolPaths, buildEnv.PATH].filter(Boolean).join(':') };
+}
+
+/** Project (or default) limits, capped at the operator's BUILD_MAX_* settings. */
+export function resolveBuildLimits(project: ProjectBuildLimits = {}): BuildResourceLimits {
+    return {
+        cpus: Math.min(project.buildCpus ?? env.BUILD_DEFAULT_CPUS, env.BUILD_MAX_CPUS),
+        memoryMb: Math.min(project.buildMemoryMb ?? env.BUILD_DEFAULT_MEMORY_MB, env.BUILD_MAX_MEMORY_MB),
+        diskMb: Math.min(project.buildDiskMb ?? env.BUILD_DEFAULT_DISK_MB, env.BUILD_MAX_DISK_MB),
+        network: project.buildNetworkEnabled ?? true,
+    };
+}
+
+class HostBuildExecutor implements BuildExecutor {
+    readonly type = 'host' as const;
+
+    prepare(command: string, options: SandboxOptions): SandboxInvocation {
+        return {
+            file: '/bin/sh',
+            args: ['-c', command],
+            cwd: options.cwd,
+            env: prependToPath(options.env, options.toolPaths),
+        };
+    }
+}
+
+/**
+ * Runs each command in a throwaway container (podman or docker, rootless recommended).
+ * The root filesystem is read-only; only the deployment build dir is mounted writable,
+ * at the same path as on the host so cwd and env paths need no translation. The build
+ * dir and /tmp are both capped at the disk limit.
+ */
+class ContainerBuildExecutor implements BuildExecutor {
+    readonly type = 'container' as const;
+    private readonly runtime = env.BUILD_CONTAINER_RUNTIME;
+    private readonly image = env.BUILD_CONTAINER_IMAGE;
+
+    private containerName(deploymentId: string) {
+        return `filify-build-${deploymentId}`;
+    }
+
+    prepare(command: string, options: SandboxOptions): SandboxInvocation {
+        const { sandboxDir, cwd, limits } = options;
+        const args = [
+            'run',
+            '--rm',
+            '--init',
+            '--name',
+            this.containerName(options.deploymentId),
+            '--read-only',
+            '--tmpfs',
+            `/tmp:rw,exec,size=${limits.diskMb}m`,
+            '--security-opt',
+            'no-new-privileges',
+            '--cap-drop',
+            'ALL',
+            '--volume',
+            `${sandboxDir}:${sandboxDir}:rw`,
+            '--workdir',
+            cwd,
+            '--cpus',
+            String(limits.cpus),
+            '--memory',
+            `${limits.memoryMb}m`,
+            '--memory-swap',
+            `${limits.memoryMb}m`,
+        ];
+
+        if (this.runtime === 'podman') {
+            args.push('--userns=keep-id');
+        } else if (typeof process.getuid === 'function' && typeof process.getgid === 'function') {
+            args.push('--user', `${process.getuid()}:${process.getgid()}`);
+        }
+
+        if (!limits.network) {
+            args.push('--network', 'none');
+        }
+
+        // Toolchains are mounted at their host path; the image's own PATH follows them
+        const toolPaths = options.toolPaths ?? [];
+        for (const toolPath of toolPaths) {
+            const toolchainDir = path.dirname(toolPath);
+            args.push('--volume', `${toolchainDir}:${toolchainDir}:ro`);
+        }
+        const script = toolPaths.length > 0 ? `export PATH="${toolPaths.join(':')}:$PATH"; ${command}` : command;
+
+        // Pass variables by name only so their values never show up in the process list;
+        // the runtime CLI reads them from its own environment.
+        for (const key of Object.keys(options.env)) {
+            if (key !== 'PATH') {
+                args.push('--env', key);
+            }
+        }
+
+        args.push(this.image, 'sh', '-c', script);
+
+        return {
+            file: this.runtime,
+            args,
+            cwd,
+            env: { ...options.env, PATH: process.env.PATH },
+        };
+    }
+
+    terminate(deploymentId: string): Promise<void> {
+        return new Promise((resolve) => {
+            execFile(this.runtime, ['rm', '-f', this.containerName(deploymentId)], (error) => {
+                if (error) {
+                    logger.debug('Build container removal skipped', { deploymentId, error: error.message });
+                }
+                resolve();
+            });
+        });
+    }
+
+    // A root Docker daemon is only let into the user's FUSE mount with allow_other
+    createWorkspace(sandboxDir: string, limits: BuildResourceLimits) {
+        return mountQuotaDir(sandboxDir, limits.diskMb, { allowOther: this.runtime === 'docker' });
+    }
+
+    releaseWorkspace(sandboxDir: string) {
+        return unmountQuotaDir(sandboxDir);
+    }
+}
+
+/**
+ * Runs each command under bubblewrap with a read-only view of the host, a private /tmp
+ * and every namespace unshared. CPU and memory limits are applied through a transient
+ * systemd scope, so the backend user needs a systemd user session. The build dir and
+ * /tmp are capped at the disk limit.
+ */
+class BubblewrapBuildExecutor implements BuildExecutor {
+    readonly type = 'bubblewrap' as const;
+
+    private hiddenPaths() {
+        const configured = env.BUILD_SANDBOX_HIDDEN_PATHS
+            ? env.BUILD_SANDBOX_HIDDEN_PATHS.split(',').map((entry) => entry.trim()).filter(Boolean)
+            : [];
+        // Hide the backend checkout (.env lives there), the shared build cache and every other
+        // deployment's build dir; the deployment's own dir is bound back on top afterwards.
+        return [process.cwd(), getBuildsRoot(), getBuildCacheRoot(), ...configured];
+    }
+
+    prepare(command: string, options: SandboxOptions): SandboxInvocation {
+        const { sandboxDir, cwd, limits } = options;
+        const bwrapArgs = [
+            '--die-with-parent',
+            '--new-session',
+            '--unshare-all',
+            ...(limits.network ? ['--share-net'] : []),
+            '--ro-bind',
+            '/',
+            '/',
+            '--dev',
+            '/dev',
+            '--proc',
+            '/proc',
+            '--size',
+            String(limits.diskMb * 1024 * 1024),
+            '--tmpfs',
+            '/tmp',
+        ];
+
+        for (const hidden of this.hiddenPaths()) {
+            bwrapArgs.push('--tmpfs', hidden);
+        }
+
+        bwrapArgs.push('--bind', sandboxDir, sandboxDir, '--chdir', cwd, '--', '/bin/sh', '-c', command);
+
+        const scopeArgs = [
+            '--user',
+            '--scope',
+            '--quiet',
+            '--collect',
+            '-p',
+            `MemoryMax=${limits.memoryMb}M`,
+            '-p',
+            'MemorySwapMax=0',
+            '-p',
+            `CPUQuota=${Math.round(limits.cpus * 100)}%`,
+            'bwrap',
+        ];
+
+        return {
+            file: 'systemd-run',
+            args: [...scopeArgs, ...bwrapArgs],
+            cwd,
+            env: prependToPath(options.env, options.toolPaths),
+        };
+    }
+
+    createWorkspace(sandboxDir: string, limits: BuildResourceLimits) {
+        return mountQuotaDir(sandboxDir, limits.diskMb);
+    }
+
+    releaseWorkspace(sandboxDir: string) {
+        return unmountQuotaDir(sandboxDir);
+    }
+}
+
+const executors: Record<BuildExecutorType, BuildExecutor> = {
+    host: new HostBuildExecutor(),
+    container: new ContainerBuildExecutor(),
+    bubblewrap: new BubblewrapBuildExecutor(),
+};
+
+export function getBuildExecutor(): BuildExecutor {
+    return executors[env.BUILD_EXECUTOR];
+}
+
+export function getHostExecutor(): BuildExecutor {
+    return executors.host;
+}
@@ -1,10 +1,60 @@
-import { exec, type ChildProcess, type ExecOptions } from 'child_process';
+import { spawn, type ChildProcess } from 'child_process';
 import path from 'path';
 import fs from 'fs/promises';
 import { githubAppService } from './github-app.service';
+import { buildCacheService, type BuildCacheContext } from './build-cache.service';
+import type { DeploymentLogWriter } from './deployment-log.service';
+import {
+    createSandboxEnv,
+    getBuildExecutor,
+    getHostExecutor,
+    getSandboxHomeDir,
+    resolveBuildLimits,
+    SANDBOX_STATE_DIRNAME,
+    type BuildExecutorType,
+    type BuildResourceLimits,
+    type ProjectBuildLimits,
+} from './build-executor.service';
+import { generatorToolchainService } from './generator-toolchain.service';
 import { logger } from '../utils/logger';
 import { getBuildsRoot, getDeploymentBuildDir } from '../utils/paths';
-import { buildCarFromDirectory } from '../utils/car-builder';
+import { buildCarFromDirectory, type ManifestFile } from '../utils/car-builder';
+import { getDirectorySizeBytes } from '../utils/disk-usage';
+import { detectPackageManager, getRunScriptCommand } from '../utils/package-manager';
+import {
+    createFsWorkspaceReader,
+    findWorkspaceRoot,
+    getWorkspaceBuildCommand,
+    getWorkspaceBuildOrder,
+    parseJsonObject,
+    readWorkspace,
+    type WorkspaceInfo,
+    type WorkspacePackage,
+} from '../utils/workspace';
+import { GIT_REF_PATTERN } from '../utils/validators';
+import { findNodeVersionRequest } from '../utils/node-version';
+import {
+    detectFramework,
+    getFrameworkBuildCommand,
+    type FrameworkDefinition,
+    type FrameworkPreparation,
+} from '../utils/frameworks';
+import { isNextServerBuild } from '../utils/nextjs-export';
+import {
+    checkGatewayPaths,
+    type GatewayPathMode,
+    type GatewayPathReport,
+    type RelativeBaseSettings,
+} from '../utils/gateway-paths';
+import { readIgnoreFile } from '../utils/ignore-rules';
+import {
+    describeUnixfsSettings,
+    resolveUnixfsSettings,
+    type UnixfsSettings,
+    type UnixfsSettingsOverrides,
+} from '../utils/unixfs-settings';
+import { detectStaticGenerator, planStaticGeneratorBuild, type StaticGeneratorDefinition } from '../utils/static-generators';
+import { describeNodeVersionRequest, nodeToolchainService } from './node-toolchain.service';
 
 interface BuildResult {
     buildDir: string;
@@ -12,15 +62,100 @@ interface BuildResult {
     logs: string;
     carFilePath: string;
     carRootCid: string;
+    /** Every file in the CAR, for the deployment's manifest. */
+    files: ManifestFile[];
+    /** Import settings the CAR was built with. */
+    unixfsSettings: UnixfsSettings;
 }
 
 interface BuildOptions {
+    /** Enables the per-project dependency cache when set. */
+    projectId?: string;
     buildCommand?: string | null;
     outputDir?: string | null;
     frontendDir?: string | null;
+    packageManager?: string | null;
+    installCommand?: string | null;
+    resources?: ProjectBuildLimits;
+    /** Project variables passed to install and build commands. */
+    env?: Record<string, string>;
+    /** Values scrubbed from the returned (and thrown) build log. */
+    maskedValues?: string[];
+    /** Receives output as it is produced so the log can be followed live. */
+    logWriter?: DeploymentLogWriter;
+    /** Exact commit to build; when unset the current head of the ref is built. */
+    commitSha?: string | null;
+    /** Called with the commit that was checked out, before installing. */
+    onCommitResolved?: (commit: ResolvedCommit) => Promise<void> | void;
+    /** Called once the checkout is complete, before the project is installed and built. */
+    onBuildStarted?: () => Promise<void> | void;
+    /** Check out submodules recursively. */
+    submodules?: boolean;
+    /** Replace Git LFS pointer files with their content. */
+    lfs?: boolean;
+    /** Project override for the Node.js version; otherwise read from the repository. */
+    nodeVersion?: string | null;
+    /** Hugo, Jekyll, MkDocs or Zola version for sites built with one of them. */
+    generatorVersion?: string | null;
+    /** Handling of root-absolute paths in the output; defaults to `report`. */
+    gatewayPathMode?: GatewayPathMode;
+    /** Project overrides for chunking, sharding and hashing of the CAR. */
+    unixfs?: UnixfsSettingsOverrides | null;
+}
+
+interface ResolvedCommit {
+    sha: string;
+    message: string;
+}
+
+interface ResolvedWorkspace {
+    root: string;
+    rootPackageJson: Record<string, any> | null;
+    info: WorkspaceInfo;
+    target: WorkspacePackage;
+}
+
+interface StaticSiteBuild {
+    siteDir: string;
+    buildDir: string;
+    sandbox: NonNullable<RunCommandOptions['sandbox']>;
+    env: Record<string, string>;
+    version: string | null;
+    buildCommand?: string | null;
+    outputDir?: string | null;
+    appendLog: (text: string) => void;
+    logWriter?: DeploymentLogWriter;
+}
+
+interface RunCommandOptions {
+    cwd?: string;
+    env?: NodeJS.ProcessEnv;
+    timeout?: number;
+    maxBuffer?: number;
+    /** Called with stdout/stderr chunks as they arrive. */
+    onOutput?: (chunk: string) => void;
+    /** Run through the configured build executor instead of directly on the host. */
+    sandbox?: {
+        sandboxDir: string;
+        limits: BuildResourceLimits;
+        toolPaths?: string[];
+    };
 }
 
 const OUTPUT_METADATA_FILENAME = '.output-dir';
+const FULL_SHA_PATTERN = /^[0-9a-f]{40}$/;
+const DISK_CHECK_INTERVAL_MS = 15 * 1000;
+const MASK = '********';
+
+function countLines(text: string) {
+    return text.split('\n').filter((line) => line.trim()).length;
+}
+
+function maskValues(text: string, values: string[]): string {
+    return [...values]
+        .sort((a, b) => b.length - a.length)
+        .reduce((masked, value) => masked.split(value).join(MASK), text);
+}
 
 class BuildService {
     private readonly BUILD_ROOT = getBuildsRoot();
@@ -35,14 +170,23 @@ class BuildService {
 
     async cloneAndBuild(
         repoUrl: string,
-        branch: string,
+        ref: string,
         installationId: number,
         deploymentId: string,
         options: BuildOptions = {}
     ): Promise<BuildResult> {
         const buildDir = getDeploymentBuildDir(deploymentId);
-        const { buildCommand, outputDir, frontendDir } = options;
+        const { buildCommand, outputDir, frontendDir, packageManager, installCommand } = options;
+        const limits = resolveBuildLimits(options.resources);
+        const sandbox: NonNullable<RunCommandOptions['sandbox']> = { sandboxDir: buildDir, limits };
+        const projectEnv = options.env ?? {};
+        const { logWriter } = options;
+        const secrets = [...(options.maskedValues ?? [])];
         let logs = '';
+        const appendLog = (text: string) => {
+            logs += text;
+            logWriter?.write(text);
+        };
 
         // Determine the working directory for the frontend (if frontendDir is specified)
         const frontendWorkingDir = frontendDir ? path.join(buildDir, frontendDir) : buildDir;
@@ -50,7 +194,8 @@ class BuildService {
         logger.info('Starting clone and build process', {
             deploymentId,
             repoUrl,
-            branch,
+            ref,
+            commitSha: options.commitSha,
             buildDir,
             installationId,
             frontendDir: frontendDir || 'root',
@@ -67,26 +212,70 @@ class BuildService {
             // Get installation token for cloning
             logger.debug('Fetching installation token for clone', { deploymentId, installationId });
             const token = await githubAppService.getInstallationToken(installationId);
+            secrets.push(token);
+            logWriter?.addMaskedValues([token]);
+            logWriter?.stage('clone');
+
+            const target = options.commitSha ?? ref;
+            if (!FULL_SHA_PATTERN.test(target) && !GIT_REF_PATTERN.test(target)) {
+                throw new Error(`Invalid git ref "${target}"`);
+            }
 
             // Clone repository with authentication
-            logs += `Cloning repository: ${repoUrl} (branch: ${branch})\n`;
+            appendLog(
+                `Cloning repository: ${repoUrl} (${ref}${options.commitSha ? ` @ ${options.commitSha.slice(0, 7)}` : ''})\n`
+            );
             if (frontendDir) {
-                logs += `Frontend directory: ${frontendDir}\n`;
+                appendLog(`Frontend directory: ${frontendDir}\n`);
             }
-            const authUrl = repoUrl.replace('https://', `https://x-access-token:${token}@`);
+            const gitEnv = this.createGitEnv(buildDir, repoUrl, token);
 
             logger.info('Cloning repository', {
                 deploymentId,
                 repoUrl,
-                branch,
+                ref,
+                target,
                 buildDir,
                 frontendDir,
             });
 
+            await getBuildExecutor().releaseWorkspace?.(buildDir);
             await fs.rm(buildDir, { recursive: true, force: true }).catch(() => undefined);
-            await this.runCommand(`git clone --single-branch --branch ${branch} ${authUrl} ${buildDir}`, deploymentId);
-            logs += `✓ Repository cloned successfully\n\n`;
-            logger.info('Repository cloned successfully', { deploymentId, buildDir });
+            await getBuildExecutor().createWorkspace?.(buildDir, limits);
+
+            // Fetch only the one commit being deployed
+            await this.runCommand(['git', 'init', '--quiet', buildDir], deploymentId);
+            await this.runCommand(['git', '-C', buildDir, 'remote', 'add', 'origin', repoUrl], deploymentId);
+            await this.runCommand(
+                ['git', '-C', buildDir, 'fetch', '--quiet', '--depth', '1', '--no-tags', 'origin', target],
+                deploymentId,
+                { env: gitEnv }
+            );
+            await this.runCommand(['git', '-C', buildDir, 'checkout', '--quiet', '--detach', 'FETCH_HEAD'], deploymentId, {
+                env: gitEnv,
+            });
+            const commit = await this.readHeadCommit(buildDir, deploymentId);
+            appendLog(`✓ Checked out ${commit.sha}\n`);
+            const subject = commit.message.split('\n')[0];
+            if (subject) {
+                appendLog(`  ${subject}\n`);
+            }
+            appendLog(`\n`);
+            logger.info('Repository cloned successfully', { deploymentId, buildDir, commitSha: commit.sha });
+            await options.onCommitResolved?.(commit);
+            await fs.mkdir(getSandboxHomeDir(buildDir), { recursive: true });
+
+            if (options.submodules) {
+                appendLog(`Checking out submodules...\n`);
+                const submoduleCount = await this.checkoutSubmodules(buildDir, deploymentId, gitEnv);
+                appendLog(`✓ Checked out ${submoduleCount} submodule${submoduleCount === 1 ? '' : 's'}\n\n`);
+            }
+
+            if (options.lfs) {
+                appendLog(`Fetching Git LFS objects...\n`);
+                const lfsCount = await this.pullLfsObjects(buildDir, deploymentId, gitEnv, Boolean(options.submodules));
+                appendLog(`✓ Fetched ${lfsCount} Git LFS object${lfsCount === 1 ? '' : 's'}\n\n`);
+            }
 
             // Verify frontend directory exists if specified
             if (frontendDir) {
@@ -95,7 +284,7 @@ class BuildService {
                     if (!stats.isDirectory()) {
                         throw new Error(`Frontend directory "${frontendDir}" exists but is not a directory`);
                     }
-                    logs += `✓ Frontend directory found: ${frontendDir}\n\n`;
+                    appendLog(`✓ Frontend directory found: ${frontendDir}\n\n`);
                 } catch (error) {
                     if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
                         throw new Error(`Frontend directory "${frontendDir}" not found in repository`);
@@ -104,8 +293,10 @@ class BuildService {
                 }
             }
 
+            await options.onBuildStarted?.();
+
             // Determine project type
-            logs += `Checking project structure...\n`;
+            appendLog(`Checking project structure...\n`);
             const packageJsonPath = path.join(frontendWorkingDir, 'package.json');
             const hasPackageJson = await fs
                 .access(packageJsonPath)
@@ -113,7 +304,10 @@ class BuildService {
                 .catch(() => false);
 
             let packageJson: Record<string, any> | null = null;
-            let projectType: 'nextjs' | 'nuxt' | 'node' | 'static' = 'static';
+            let projectType = 'static';
+            let framework: FrameworkDefinition | null = null;
+            let generator: StaticGeneratorDefinition | null = null;
+            let preparation: FrameworkPreparation = { notes: [] };
             if (hasPackageJson) {
                 const parsed = JSON.parse(await fs.readFile(packageJsonPath, 'utf-8'));
                 packageJson = parsed && typeof parsed === 'object' ? parsed : null;
@@ -121,103 +315,296 @@ class BuildService {
 
             if (packageJson) {
                 const packageName = typeof packageJson.name === 'string' ? packageJson.name : 'app';
-                logs += `✓ Found package.json: ${packageName}\n\n`;
-                projectType = 'node';
-                logger.debug('Detected Node.js project', { deploymentId, packageName });
-                const hasNextDep =
-                    typeof packageJson.dependencies?.next === 'string' ||
-                    typeof packageJson.devDependencies?.next === 'string';
-                if (hasNextDep) {
-                    projectType = 'nextjs';
-                    logs += `Detected Next.js project\n`;
-                    logger.info('Detected Next.js project', { deploymentId, packageName });
-                    // Ensure a static export config exists
-                    const nextConfigPath = path.join(frontendWorkingDir, 'next.config.js');
-                    const nextConfigMjsPath = path.join(frontendWorkingDir, 'next.config.mjs');
-                    const nextConfigTsPath = path.join(frontendWorkingDir, 'next.config.ts');
-                    let hasNextConfig = false;
-                    for (const candidate of [nextConfigPath, nextConfigMjsPath, nextConfigTsPath]) {
-                        try {
-                            await fs.access(candidate);
-                            hasNextConfig = true;
-                            break;
-                        } catch {
-                            // continue
+                appendLog(`✓ Found package.json: ${packageName}\n\n`);
+                framework = detectFramework(packageJson);
+                projectType = framework?.id ?? 'node';
+                if (framework) {
+                    appendLog(`Detected ${framework.name} project\n`);
+                    logger.info('Detected framework', { deploymentId, packageName, framework: framework.id });
+                    if (framework.prepare) {
+                        preparation = await framework.prepare({ workingDir: frontendWorkingDir, packageJson });
+                        for (const note of preparation.notes) {
+                            appendLog(`${note}\n`);
                         }
                     }
-                    if (!hasNextConfig) {
-                        logs += `⚠️  No next.config.js found. Creating one with static export configuration...\n`;
-                        await fs.writeFile(
-                            nextConfigPath,
-                            `/** @type {import('next').NextConfig} */\nconst nextConfig = {\n  output: 'export',\n  trailingSlash: true,\n  images: {\n    unoptimized: true,\n  },\n}\n\nmodule.exports = nextConfig\n`
-                        );
-                        logs += `✓ Created next.config.js with static export settings\n\n`;
-                    }
+                    appendLog(`\n`);
                 } else {
-                    // Check for Nuxt
-                    const hasNuxtDep =
-                        typeof packageJson.dependencies?.nuxt === 'string' ||
-                        typeof packageJson.devDependencies?.nuxt === 'string';
-                    if (hasNuxtDep) {
-                        projectType = 'nuxt';
-                        logs += `Detected Nuxt 3 project\n`;
-                        logger.info('Detected Nuxt 3 project', { deploymentId, packageName });
-                    }
+                    logger.debug('Detected Node.js project', { deploymentId, packageName });
                 }
             } else {
-                logs += `⚠️  No package.json found — treating as static site\n\n`;
-                logger.info('No package.json found, treating as static site', { deploymentId });
+                generator = await detectStaticGenerator(frontendWorkingDir);
+                if (generator) {
+                    projectType = generator.id;
+                    appendLog(`Detected ${generator.name} site\n\n`);
+                    logger.info('Detected static site generator', { deploymentId, generator: generator.id });
+                } else {
+                    appendLog(`⚠️  No package.json found — treating as static site\n\n`);
+                    logger.info('No package.json found, treating as static site', { deploymentId });
+                }
             }
 
+            const gatewayPathMode = options.gatewayPathMode ?? 'report';
+            let rewriteGatewayPaths = gatewayPathMode === 'rewrite';
             let detectedOutputDir: string;
             if (projectType === 'static') {
                 detectedOutputDir = await this.prepareStaticOutput(frontendWorkingDir);
+                if (gatewayPathMode === 'base-path') {
+                    rewriteGatewayPaths = !this.resolveRelativeBase(null, false, appendLog);
+                }
+            } else if (generator) {
+                logWriter?.stage('install');
+                appendLog(this.describeSandbox(getBuildExecutor().type, limits));
+                const relativeBase =
+                    gatewayPathMode === 'base-path' ? this.resolveRelativeBase(generator, !buildCommand, appendLog) : null;
+                rewriteGatewayPaths ||= gatewayPathMode === 'base-path' && !relativeBase;
+                detectedOutputDir = await this.buildStaticSite(generator, deploymentId, {
+                    siteDir: frontendWorkingDir,
+                    buildDir,
+                    sandbox,
+                    env: { ...projectEnv, ...relativeBase?.env },
+                    version: options.generatorVersion?.trim() || null,
+                    buildCommand,
+                    outputDir,
+                    appendLog,
+                    logWriter,
+                });
             } else {
-                // Install dependencies (include devDependencies for build tools like TypeScript, Vite)
-                logs += `Installing dependencies...\n`;
-                logger.info('Installing dependencies', { deploymentId, frontendWorkingDir });
-                const installResult = await this.runCommand('npm install --include=dev', deploymentId, {
+                const executor = getBuildExecutor();
+                logWriter?.stage('install');
+                appendLog(this.describeSandbox(executor.type, limits));
+
+                // Packages inside a monorepo install at the workspace root so workspace deps link
+                const workspace = frontendDir ? await this.resolveWorkspace(frontendWorkingDir, buildDir) : null;
+                if (workspace) {
+                    const source = workspace.info.orchestrator ?? workspace.info.source;
+                    appendLog(
+                        `Workspace package: ${workspace.target.name} (${source}, ${workspace.info.packages.length} packages in workspace)\n`
+                    );
+                }
+
+                const nodeRequest = await findNodeVersionRequest(
+                    frontendWorkingDir,
+                    buildDir,
+                    packageJson?.engines?.node ? packageJson : workspace?.rootPackageJson ?? packageJson,
+                    options.nodeVersion
+                );
+                if (nodeRequest) {
+                    const toolchain = await nodeToolchainService.resolve(nodeRequest, {
+                        // Containers can't run the backend's own Node.js binary
+                        includeHost: executor.type !== 'container',
+                    });
+                    sandbox.toolPaths = [toolchain.binDir];
+                }
+                const { stdout: nodeVersionOutput } = await this.runCommand('node --version', deploymentId, {
                     cwd: frontendWorkingDir,
+                    env: createSandboxEnv(buildDir),
+                    sandbox,
                 });
-                logs += installResult.stdout + installResult.stderr;
-                logs += `✓ Dependencies installed\n\n`;
+                const nodeVersion = nodeVersionOutput.trim();
+                appendLog(
+                    `Node.js: ${nodeVersion} (${nodeRequest ? `requested ${describeNodeVersionRequest(nodeRequest)}` : 'build server default'})\n`
+                );
+
+                const pm = await detectPackageManager(
+                    workspace?.root ?? frontendWorkingDir,
+                    buildDir,
+                    workspace ? workspace.rootPackageJson ?? packageJson : packageJson,
+                    { packageManager, installCommand }
+                );
+                const pmSourceLabel = {
+                    project: 'project setting',
+                    packageManager: 'packageManager field',
+                    lockfile: pm.lockfile ?? 'lockfile',
+                    default: 'default, no lockfile found',
+                }[pm.source];
+                appendLog(`Package manager: ${pm.name}${pm.version ? `@${pm.version}` : ''} (${pmSourceLabel})\n`);
+                if (!pm.lockfile) {
+                    appendLog(`⚠️  No ${pm.name} lockfile found — dependencies will not be installed from a frozen lockfile\n`);
+                }
+                const installDirLabel = path.relative(buildDir, pm.installDir) || '.';
+                if (pm.installDir !== frontendWorkingDir) {
+                    appendLog(`Installing from workspace root: ${installDirLabel}\n`);
+                }
+                const toolEnv = { COREPACK_ENABLE_DOWNLOAD_PROMPT: '0', ...buildCacheService.getCacheEnv(buildDir) };
+                const projectEnvKeys = Object.keys(projectEnv);
+                if (projectEnvKeys.length > 0) {
+                    appendLog(`Environment variables: ${projectEnvKeys.sort().join(', ')}\n`);
+                }
+
+                let cacheContext: BuildCacheContext | null = null;
+                let cacheKey: string | null = null;
+                let cacheHit = false;
+                if (options.projectId && buildCacheService.enabled) {
+                    cacheContext = {
+                        projectId: options.projectId,
+                        buildDir,
+                        workingDir: frontendWorkingDir,
+                        packageManager: pm,
+                        nodeVersion,
+                    };
+                    try {
+                        const restored = await buildCacheService.restoreStore(cacheContext);
+                        cacheKey = restored.key;
+                        cacheHit = restored.hit;
+                        appendLog(cacheHit
+                            ? `Build cache: hit (key ${cacheKey})\n`
+                            : `Build cache: miss (key ${cacheKey}) — dependencies will be downloaded\n`);
+                    } catch (error) {
+                        appendLog(`⚠️  Build cache restore failed: ${(error as Error).message}\n`);
+                        logger.warn('Build cache restore failed', { deploymentId, error: (error as Error).message });
+                    }
+                }
+
+                // Install dependencies (include devDependencies for build tools like TypeScript, Vite)
+                appendLog(`Installing dependencies: ${pm.installCommand}\n`);
+                logger.info('Installing dependencies', {
+                    deploymentId,
+                    installDir: pm.installDir,
+                    packageManager: pm.name,
+                    packageManagerSource: pm.source,
+                    installCommand: pm.installCommand,
+                    executor: executor.type,
+                });
+                await this.runCommand(pm.installCommand, deploymentId, {
+                    cwd: pm.installDir,
+                    env: createSandboxEnv(buildDir, { ...projectEnv, ...toolEnv }),
+                    sandbox,
+                    onOutput: appendLog,
+                });
+                appendLog(`✓ Dependencies installed\n\n`);
                 logger.info('Dependencies installed successfully', { deploymentId });
 
+                if (cacheContext && cacheKey && cacheHit) {
+                    try {
+                        const restoredCaches = await buildCacheService.restoreFrameworkCaches(cacheContext, cacheKey);
+                        if (restoredCaches.length > 0) {
+                            appendLog(`Restored framework caches: ${restoredCaches.join(', ')}\n\n`);
+                        }
+                    } catch (error) {
+                        appendLog(`⚠️  Framework cache restore failed: ${(error as Error).message}\n\n`);
+                        logger.warn('Framework cache restore failed', { deploymentId, error: (error as Error).message });
+                    }
+                }
+
                 // Build project
-                logs += `Building project...\n`;
-                const buildCmd = buildCommand ?? 'npm run build';
+                logWriter?.stage('build');
+                appendLog(`Building project...\n`);
+                let workspaceBuildCmd: string | null = null;
+                if (workspace && !buildCommand) {
+                    workspaceBuildCmd = getWorkspaceBuildCommand(workspace.info, workspace.target, pm);
+                    const dependencies = getWorkspaceBuildOrder(workspace.info, workspace.target).length - 1;
+                    appendLog(
+                        workspaceBuildCmd
+                            ? `Building ${workspace.target.name} with ${dependencies} workspace ${dependencies === 1 ? 'dependency' : 'dependencies'}\n`
+                            : `⚠️  Workspace package names need shell quoting; building ${workspace.target.name} on its own\n`
+                    );
+                }
+                const relativeBase =
+                    gatewayPathMode === 'base-path'
+                        ? this.resolveRelativeBase(framework, !buildCommand && !workspaceBuildCmd, appendLog)
+                        : null;
+                rewriteGatewayPaths ||= gatewayPathMode === 'base-path' && !relativeBase;
+                const buildCmd =
+                    buildCommand ??
+                    workspaceBuildCmd ??
+                    (framework && packageJson
+                        ? getFrameworkBuildCommand(framework, packageJson, pm, relativeBase?.args)
+                        : getRunScriptCommand(pm, 'build'));
+                const buildCwd = workspaceBuildCmd && workspace ? workspace.root : frontendWorkingDir;
                 logger.info('Building project', {
                     deploymentId,
                     buildCommand: buildCmd,
                     projectType,
                     frontendWorkingDir,
+                    buildCwd,
                 });
-                const buildResult = await this.runCommand(buildCmd, deploymentId, {
-                    cwd: frontendWorkingDir,
-                    env: {
-                        ...process.env,
-                        NODE_ENV: 'production',
-                    },
+                await this.runCommand(buildCmd, deploymentId, {
+                    cwd: buildCwd,
+                    env: createSandboxEnv(buildDir, { NODE_ENV: 'production', ...projectEnv, ...relativeBase?.env, ...toolEnv }),
+                    sandbox,
+                    onOutput: appendLog,
                 });
-                logs += buildResult.stdout + buildResult.stderr;
-                logs += `✓ Build completed\n\n`;
+                appendLog(`✓ Build completed\n\n`);
                 logger.info('Build completed successfully', { deploymentId, buildCommand: buildCmd });
 
+                if (cacheContext && cacheKey) {
+                    try {
+                        const saved = await buildCacheService.save(cacheContext, cacheKey);
+                        appendLog(`✓ Build cache saved (${Math.round(saved.sizeBytes / (1024 * 1024))} MB)\n\n`);
+                    } catch (error) {
+                        appendLog(`⚠️  Build cache save failed: ${(error as Error).message}\n\n`);
+                        logger.warn('Build cache save failed', { deploymentId, error: (error as Error).message });
+                    }
+                }
+
+                const frameworkDirs = [preparation.outputDir, framework?.outputDir].filter((dir): dir is string => Boolean(dir));
                 detectedOutputDir = outputDir
                     ? path.join(frontendWorkingDir, outputDir)
-                    : await this.detectOutputDir(frontendWorkingDir);
+                    : await this.detectOutputDir(
+                        frontendWorkingDir,
+                        frameworkDirs,
+                        // Nx writes app output under the workspace root's dist/
+                        workspace ? [path.join(workspace.root, 'dist', workspace.target.dir)] : [],
+                        framework?.strictOutputDir
+                    );
+                if (await isNextServerBuild(detectedOutputDir)) {
+                    throw new Error(
+                        `${path.relative(buildDir, detectedOutputDir) || '.'} is a Next.js server build, not a static export; ` +
+                            `set output: 'export' in next.config and deploy the export directory (default: out)`
+                    );
+                }
             }
             // Record detected output directory for later retrieval (relative to buildDir)
             const relativeOutputDir = path.relative(buildDir, detectedOutputDir) || '.';
             await fs.writeFile(path.join(buildDir, OUTPUT_METADATA_FILENAME), relativeOutputDir, 'utf-8');
 
-            logs += `✓ Output directory detected: ${path.basename(detectedOutputDir)}\n`;
+            appendLog(`✓ Output directory detected: ${path.basename(detectedOutputDir)}\n`);
+
+            const gatewayPaths = await checkGatewayPaths(detectedOutputDir, { rewrite: rewriteGatewayPaths });
+            appendLog(this.describeGatewayPaths(gatewayPaths, gatewayPathMode));
 
             const carFilePath = path.join(buildDir, 'artifact.car');
-            logs += `Creating CAR file...\n`;
-            const carResult = await buildCarFromDirectory(detectedOutputDir, deploymentId, carFilePath);
-            logs += `✓ CAR generated (root CID: ${carResult.rootCid})\n`;
-            logs += `Files included: ${carResult.summary.totalFiles}, directories: ${carResult.summary.totalDirectories}\n`;
+            logWriter?.stage('car');
+            appendLog(`Creating CAR file...\n`);
+            const unixfsSettings = resolveUnixfsSettings(options.unixfs);
+            appendLog(`UnixFS settings: ${describeUnixfsSettings(unixfsSettings)}\n`);
+            // The site's own directory wins over the repository root in a monorepo
+            const ignore = await readIgnoreFile([...new Set([frontendWorkingDir, buildDir])]);
+            if (ignore) {
+                appendLog(`Using ${path.relative(buildDir, ignore.source)} (${ignore.patterns.length} rules)\n`);
+            }
+            const carResult = await buildCarFromDirectory(detectedOutputDir, deploymentId, carFilePath, {
+                unixfs: unixfsSettings,
+                ignore,
+            });
+            appendLog(`✓ CAR generated (root CID: ${carResult.rootCid})\n`);
+            appendLog(`Files included: ${carResult.summary.totalFiles}, directories: ${carResult.summary.totalDirectories}\n`);
+            appendLog(
+                `CAR size: ${(carResult.stats.carBytes / (1024 * 1024)).toFixed(1)} MB ` +
+                    `(${carResult.stats.carBytes} bytes, ${carResult.stats.blockCount} blocks)\n`
+            );
+            const { ignoredEntries, lfsPointerFiles } = carResult.summary;
+            if (ignoredEntries.length > 0) {
+                appendLog(`Excluded by ignore rules: ${ignoredEntries.length}\n`);
+                for (const entry of ignoredEntries.slice(0, 10)) {
+                    appendLog(`  ${entry}\n`);
+                }
+                if (ignoredEntries.length > 10) {
+                    appendLog(`  ...and ${ignoredEntries.length - 10} more\n`);
+                }
+            }
+            if (lfsPointerFiles.length > 0) {
+                appendLog(
+                    `⚠ ${lfsPointerFiles.length} file(s) in the output are Git LFS pointers, not their content` +
+                        `${options.lfs ? '' : ' (enable Git LFS in the project settings)'}:\n`
+                );
+                for (const file of lfsPointerFiles.slice(0, 10)) {
+                    appendLog(`  ${file}\n`);
+                }
+                if (lfsPointerFiles.length > 10) {
+                    appendLog(`  ...and ${lfsPointerFiles.length - 10} more\n`);
+                }
+            }
 
             logger.info('Build process completed successfully', {
                 deploymentId,
@@ -231,31 +618,188 @@ class BuildService {
             return {
                 buildDir,
                 outputDir: detectedOutputDir,
-                logs,
+                logs: maskValues(logs, secrets),
                 carFilePath,
                 carRootCid: carResult.rootCid,
+                files: carResult.files,
+                unixfsSettings,
             };
         } catch (error) {
-            logs += `\n❌ Error: ${(error as Error).message}\n`;
-            logger.error(`Build failed for deployment ${deploymentId}:`, error);
+            appendLog(`\n❌ Error: ${(error as Error).message}\n`);
+            logs = maskValues(logs, secrets);
+            logger.error(`Build failed for deployment ${deploymentId}:`, maskValues((error as Error).message, secrets));
             throw new Error(logs);
         }
     }
 
-    private async detectOutputDir(buildDir: string): Promise<string> {
-        const possibleDirs = [
-            'out', // Next.js static export
-            'dist', // Vite, Parcel
-            'build', // CRA, Gatsby
-            '.next', // Next.js
-            '.output/public', // Nuxt 3
-            'public', // Some static sites
+    private describeSandbox(executorType: BuildExecutorType, limits: BuildResourceLimits) {
+        let text = `Build sandbox: ${executorType} (${limits.cpus} CPUs, ${limits.memoryMb} MB memory, ${limits.diskMb} MB disk, network ${limits.network ? 'enabled' : 'disabled'})\n`;
+        if (executorType === 'host') {
+            text += `⚠️  Host executor: CPU, memory and network limits are not enforced\n`;
+        }
+        return `${text}\n`;
+    }
+
+    /**
+     * Settings that build the site with relative asset URLs, or null (with a warning)
+     * when there are none or they are arguments that a custom build command won't take;
+     * those builds have their output rewritten instead.
+     */
+    private resolveRelativeBase(
+        definition: { name: string; relativeBase?: RelativeBaseSettings } | null,
+        canPassArgs: boolean,
+        appendLog: (text: string) => void
+    ): RelativeBaseSettings | null {
+        const settings = definition?.relativeBase;
+        if (!definition || !settings) {
+            appendLog(`⚠️  No relative base path setting for ${definition?.name ?? 'this project'}; root-absolute paths will be rewritten instead\n`);
+            return null;
+        }
+        if (settings.args && !canPassArgs) {
+            appendLog(`⚠️  Custom build command: ${settings.args.join(' ')} can't be passed; root-absolute paths will be rewritten instead\n`);
+            return null;
+        }
+        const applied = [
+            ...(settings.args ? [settings.args.join(' ')] : []),
+            ...Object.entries(settings.env ?? {}).map(([key, value]) => `${key}=${value}`),
         ];
+        appendLog(`Base path: relative (${applied.length > 0 ? applied.join(', ') : `${definition.name} default`})\n`);
+        return settings;
+    }
+
+    private describeGatewayPaths(report: GatewayPathReport, mode: GatewayPathMode) {
+        const { references, filesScanned } = report;
+        if (references.length === 0) {
+            return `✓ Gateway paths: no root-absolute references in ${filesScanned} HTML/CSS/JS files\n`;
+        }
+        const byFile = new Map<string, string[]>();
+        for (const reference of references) {
+            byFile.set(reference.file, [...(byFile.get(reference.file) ?? []), reference.path]);
+        }
+        let text = `⚠️  Gateway paths: ${references.length} root-absolute reference(s) in ${byFile.size} of ${filesScanned} HTML/CSS/JS files\n`;
+        for (const [file, paths] of [...byFile].slice(0, 10)) {
+            const unique = [...new Set(paths)];
+            text += `  ${file}: ${unique.slice(0, 3).join(', ')}${unique.length > 3 ? ` (+${unique.length - 3} more)` : ''}\n`;
+        }
+        if (byFile.size > 10) {
+            text += `  ...and ${byFile.size - 10} more files\n`;
+        }
+        if (report.rewrittenFiles > 0) {
+            text += `✓ Rewrote HTML/CSS references to relative paths in ${report.rewrittenFiles} file(s)\n`;
+        }
+        const scriptReferences = references.filter((reference) => !reference.rewritable).length;
+        if (scriptReferences > 0) {
+            text += `⚠️  ${scriptReferences} reference(s) in JavaScript can't be rewritten; configure the framework's base path for them\n`;
+        }
+        if (mode === 'report') {
+            text +=
+                `   Root-absolute paths break when the site is opened through an IPFS gateway (/ipfs/<cid>/), not through ENS; ` +
+                `set the project's gateway path mode to "rewrite" or "base-path" to fix them\n`;
+        } else if (report.rewrittenFiles === 0 && scriptReferences < references.length) {
+            text += `   Set the project's gateway path mode to "rewrite" to rewrite the remaining HTML/CSS references\n`;
+        }
+        return text;
+    }
+
+    /**
+     * Install (MkDocs, Jekyll) or pick (Hugo, Zola) the generator, build the site and
+     * return its output directory.
+     */
+    private async buildStaticSite(
+        generator: StaticGeneratorDefinition,
+        deploymentId: string,
+        build: StaticSiteBuild
+    ): Promise<string> {
+        const { siteDir, buildDir, sandbox, version, appendLog } = build;
+        const toolsDir = path.join(buildDir, SANDBOX_STATE_DIRNAME, 'tools');
+        await fs.mkdir(toolsDir, { recursive: true });
+
+        if (generator.id === 'hugo' || generator.id === 'zola') {
+            const toolchain = await generatorToolchainService.resolve(generator.id, generator.name, version);
+            if (toolchain) {
+                sandbox.toolPaths = [toolchain.binDir];
+            }
+        } else if (version) {
+            appendLog(`Requested ${generator.name} version: ${version}\n`);
+        }
+
+        const plan = await planStaticGeneratorBuild(generator, siteDir, toolsDir, version);
+        const commandEnv = createSandboxEnv(buildDir, { ...build.env, ...plan.env });
+        for (const command of plan.install) {
+            appendLog(`Installing ${generator.name}: ${command}\n`);
+            await this.runCommand(command, deploymentId, {
+                cwd: siteDir,
+                env: commandEnv,
+                sandbox,
+                onOutput: appendLog,
+            });
+        }
+
+        let installedVersion: string;
+        try {
+            const { stdout } = await this.runCommand(plan.versionCommand, deploymentId, {
+                cwd: siteDir,
+                env: commandEnv,
+                sandbox,
+            });
+            installedVersion = stdout.trim().split('\n')[0];
+        } catch {
+            throw new Error(`${generator.name} is not available on the build server (\`${plan.versionCommand}\` failed)`);
+        }
+        appendLog(`${generator.name}: ${installedVersion}\n\n`);
+
+        build.logWriter?.stage('build');
+        const buildCmd = build.buildCommand ?? plan.build;
+        appendLog(`Building site: ${buildCmd}\n`);
+        logger.info('Building static site', { deploymentId, generator: generator.id, buildCommand: buildCmd });
+        await this.runCommand(buildCmd, deploymentId, {
+            cwd: siteDir,
+            env: commandEnv,
+            sandbox,
+            onOutput: appendLog,
+        });
+        appendLog(`✓ Build completed\n\n`);
+
+        if (build.outputDir) {
+            return path.join(siteDir, build.outputDir);
+        }
+        const candidates = [await generator.readOutputDir(siteDir), generator.outputDir].filter(
+            (dir): dir is string => Boolean(dir)
+        );
+        for (const dir of candidates) {
+            const stats = await fs.stat(path.join(siteDir, dir)).catch(() => null);
+            if (stats?.isDirectory()) {
+                return path.join(siteDir, dir);
+            }
+        }
+        throw new Error(`${generator.name} build did not produce an output directory (checked: ${[...new Set(candidates)].join(', ')})`);
+    }
+
+    /**
+     * The framework's output dirs first, then common defaults, then the fallback paths.
+     * `strict` checks only the framework's dirs.
+     */
+    private async detectOutputDir(
+        buildDir: string,
+        frameworkDirs: string[] = [],
+        fallbackPaths: string[] = [],
+        strict = false
+    ): Promise<string> {
+        const possibleDirs = strict
+            ? frameworkDirs
+            : [
+                ...frameworkDirs,
+                'out', // Next.js static export
+                'dist', // Vite, Parcel
+                'build', // CRA, Gatsby
+                '.output/public', // Nuxt 3
+                'public', // Some static sites
+            ];
 
-        logger.debug('Detecting output directory', { buildDir, possibleDirs });
+        logger.debug('Detecting output directory', { buildDir, possibleDirs, fallbackPaths });
 
-        for (const dir of possibleDirs) {
-            const fullPath = path.join(buildDir, dir);
+        for (const fullPath of [...possibleDirs.map((dir) => path.join(buildDir, dir)), ...fallbackPaths]) {
+            const dir = path.relative(buildDir, fullPath);
             try {
                 const stats = await fs.stat(fullPath);
                 if (stats.isDirectory()) {
@@ -273,7 +817,9 @@ class BuildService {
         });
 
         throw new Error(
-            'Could not detect build output directory. Please ensure your project has a build script that outputs to: out, dist, build, .next, or .output/public'
+            `Could not detect build output directory. Please ensure your project has a build script that outputs to: ${[
+                ...new Set(possibleDirs),
+            ].join(', ')}`
         );
     }
 
@@ -312,6 +858,7 @@ class BuildService {
             logger.info('Cancelling build process', { deploymentId });
             child.kill('SIGTERM');
             this.activeProcesses.delete(deploymentId);
+            void getBuildExecutor().terminate?.(deploymentId);
             logger.info('Build process cancelled', { deploymentId });
             return true;
         }
@@ -319,48 +866,246 @@ class BuildService {
         return false;
     }
 
-    private runCommand(command: string, deploymentId: string, options: ExecOptions = {}) {
+    /**
+     * Environment for git commands that talk to GitHub. The installation token is added by
+     * url.insteadOf rules passed through the environment, so it never shows up in commands,
+     * logs or .git/config, and submodules on the same host and Git LFS are authenticated too.
+     * LFS smudging is skipped on checkout; LFS objects are only fetched when enabled.
+     */
+    private createGitEnv(buildDir: string, repoUrl: string, token: string) {
+        const { host } = new URL(repoUrl);
+        const authBase = `https://x-access-token:${token}@${host}/`;
+        const rewrites = [`https://${host}/`, `git@${host}:`, `ssh://git@${host}/`];
+        const config: Record<string, string> = { GIT_CONFIG_COUNT: String(rewrites.length) };
+        rewrites.forEach((from, index) => {
+            config[`GIT_CONFIG_KEY_${index}`] = `url.${authBase}.insteadOf`;
+            config[`GIT_CONFIG_VALUE_${index}`] = from;
+        });
+        return createSandboxEnv(buildDir, { GIT_TERMINAL_PROMPT: '0', GIT_LFS_SKIP_SMUDGE: '1', ...config });
+    }
+
+    /** Shallow, recursive submodule checkout; returns how many submodules were checked out. */
+    private async checkoutSubmodules(buildDir: string, deploymentId: string, gitEnv: NodeJS.ProcessEnv) {
+        await this.runCommand(
+            ['git', '-C', buildDir, 'submodule', 'update', '--init', '--recursive', '--depth', '1', '--jobs', '4'],
+            deploymentId,
+            { env: gitEnv }
+        );
+        const { stdout } = await this.runCommand(['git', '-C', buildDir, 'submodule', 'status', '--recursive'], deploymentId, {
+            env: gitEnv,
+        });
+        return countLines(stdout);
+    }
+
+    /** Replaces LFS pointer files in the checkout; returns how many LFS objects it holds. */
+    private async pullLfsObjects(
+        buildDir: string,
+        deploymentId: string,
+        gitEnv: NodeJS.ProcessEnv,
+        includeSubmodules: boolean
+    ) {
+        try {
+            await this.runCommand(['git', 'lfs', 'version'], deploymentId, { env: gitEnv });
+        } catch {
+            throw new Error('Git LFS is enabled for this project but git-lfs is not installed on the build server');
+        }
+
+        await this.runCommand(['git', '-C', buildDir, 'lfs', 'pull'], deploymentId, { env: gitEnv });
+        const { stdout } = await this.runCommand(['git', '-C', buildDir, 'lfs', 'ls-files', '--name-only'], deploymentId, {
+            env: gitEnv,
+        });
+        let count = countLines(stdout);
+
+        if (includeSubmodules) {
+            await this.runCommand(
+                ['git', '-C', buildDir, 'submodule', 'foreach', '--quiet', '--recursive', 'git lfs pull'],
+                deploymentId,
+                { env: gitEnv }
+            );
+            const submoduleFiles = await this.runCommand(
+                ['git', '-C', buildDir, 'submodule', 'foreach', '--quiet', '--recursive', 'git lfs ls-files --name-only'],
+                deploymentId,
+                { env: gitEnv }
+            );
+            count += countLines(submoduleFiles.stdout);
+        }
+        return count;
+    }
+
+    /** The workspace the package dir belongs to, if it is a member of one. */
+    private async resolveWorkspace(packageDir: string, buildDir: string): Promise<ResolvedWorkspace | null> {
+        const root = await findWorkspaceRoot(packageDir, buildDir);
+        if (!root) {
+            return null;
+        }
+        const reader = createFsWorkspaceReader(root);
+        const info = await readWorkspace(reader);
+        const relativeDir = path.relative(root, packageDir).split(path.sep).join('/');
+        const target = info?.packages.find((pkg) => pkg.dir === relativeDir);
+        if (!info || !target) {
+            return null;
+        }
+        return {
+            root,
+            rootPackageJson: parseJsonObject(await reader.readFile('package.json')),
+            info,
+            target,
+        };
+    }
+
+    private async readHeadCommit(buildDir: string, deploymentId: string): Promise<ResolvedCommit> {
+        const { stdout } = await this.runCommand(['git', '-C', buildDir, 'log', '-1', '--format=%H%n%B'], deploymentId);
+        const [sha = '', ...message] = stdout.split('\n');
+        return { sha: sha.trim(), message: message.join('\n').trim() };
+    }
+
+    /**
+     * Run a command through the build executor. An argument array (used for git, with
+     * repository URLs and refs in it) is executed directly on the host, without a shell.
+     */
+    private runCommand(command: string | string[], deploymentId: string, options: RunCommandOptions = {}) {
         return new Promise<{ stdout: string; stderr: string }>((resolve, reject) => {
-            const execOptions: ExecOptions = {
-                ...options,
-                maxBuffer: options.maxBuffer ?? 10 * 1024 * 1024,
-                timeout: options.timeout ?? 15 * 60 * 1000,
-            };
+            const executor = options.sandbox ? getBuildExecutor() : getHostExecutor();
+            const sandboxDir = options.sandbox?.sandboxDir ?? getDeploymentBuildDir(deploymentId);
+            // Host commands (git) default to the backend cwd, since the build dir may not exist yet
+            const cwd = options.cwd ?? (options.sandbox ? sandboxDir : process.cwd());
+            const env = options.env ?? createSandboxEnv(sandboxDir, { GIT_TERMINAL_PROMPT: '0' });
+            const invocation = Array.isArray(command)
+                ? { file: command[0], args: command.slice(1), cwd, env }
+                : executor.prepare(command, {
+                    deploymentId,
+                    sandboxDir,
+                    cwd,
+                    env,
+                    limits: options.sandbox?.limits ?? resolveBuildLimits(),
+                    toolPaths: options.sandbox?.toolPaths,
+                });
+            const timeout = options.timeout ?? 15 * 60 * 1000;
+            const maxBuffer = options.maxBuffer ?? 10 * 1024 * 1024;
+            const safeCommand = (Array.isArray(command) ? command.join(' ') : command).replace(/https:\/\/[^@]+@/, 'https://***@'); // Hide token in logs
 
             logger.debug('Executing command', {
                 deploymentId,
-                command: command.replace(/https:\/\/[^@]+@/, 'https://***@'), // Hide token in logs
-                cwd: options.cwd,
-                timeout: execOptions.timeout,
+                command: safeCommand,
+                cwd,
+                executor: executor.type,
+                timeout,
             });
 
             const startTime = Date.now();
-            const child = exec(command, execOptions, (error, stdout, stderr) => {
+            let stdout = '';
+            let stderr = '';
+            let failure: string | null = null;
+            let diskTimer: NodeJS.Timeout | undefined;
+
+            const child = spawn(invocation.file, invocation.args, {
+                cwd: invocation.cwd,
+                env: invocation.env,
+                stdio: ['ignore', 'pipe', 'pipe'],
+            });
+
+            // Keep the tail of the output for the returned value; the live log gets everything
+            const capture = (current: string, chunk: string) => {
+                const next = current + chunk;
+                return next.length > maxBuffer ? next.slice(next.length - maxBuffer) : next;
+            };
+
+            child.stdout.setEncoding('utf-8');
+            child.stderr.setEncoding('utf-8');
+            child.stdout.on('data', (chunk: string) => {
+                stdout = capture(stdout, chunk);
+                options.onOutput?.(chunk);
+            });
+            child.stderr.on('data', (chunk: string) => {
+                stderr = capture(stderr, chunk);
+                options.onOutput?.(chunk);
+            });
+
+            const terminate = (reason: string) => {
+                if (failure) {
+                    return;
+                }
+                failure = reason;
+                child.kill('SIGKILL');
+                void executor.terminate?.(deploymentId);
+            };
+
+            const timeoutTimer = setTimeout(() => {
+                terminate(`Command timed out after ${Math.round(timeout / 1000)}s`);
+            }, timeout);
+
+            // Sandboxed executors cap the build dir themselves; on the host it is measured
+            if (options.sandbox && !executor.createWorkspace) {
+                const { limits } = options.sandbox;
+                diskTimer = setInterval(() => {
+                    getDirectorySizeBytes(sandboxDir)
+                        .then((bytes) => {
+                            if (bytes > limits.diskMb * 1024 * 1024 && !failure) {
+                                logger.warn('Build exceeded disk limit, terminating', {
+                                    deploymentId,
+                                    usedMb: Math.round(bytes / (1024 * 1024)),
+                                    limitMb: limits.diskMb,
+                                });
+                                terminate(`Build exceeded the disk limit of ${limits.diskMb} MB`);
+                            }
+                        })
+                        .catch(() => undefined);
+                }, DISK_CHECK_INTERVAL_MS);
+            }
+
+            const finish = (error: Error | null, code: number | null, signal: NodeJS.Signals | null) => {
                 const duration = Date.now() - startTime;
+                clearTimeout(timeoutTimer);
+                if (diskTimer) {
+                    clearInterval(diskTimer);
+                }
                 if (this.activeProcesses.get(deploymentId) === child) {
                     this.activeProcesses.delete(deploymentId);
                 }
-                if (error) {
-                    const message = `${typeof stdout === 'string' ? stdout : stdout.toString()}${typeof stderr === 'string' ? stderr : stderr.toString()
-                        }`.trim();
+
+                if (error || failure || code !== 0) {
+                    // Writes past a capped build dir fail with ENOSPC rather than being killed
+                    const diskFull =
+                        options.sandbox && executor.createWorkspace && /ENOSPC|No space left on device/.test(`${stdout}${stderr}`)
+                            ? `Build exceeded the disk limit of ${options.sandbox.limits.diskMb} MB`
+                            : null;
+                    const reason =
+                        failure ??
+                        diskFull ??
+                        error?.message ??
+                        (signal ? `Command terminated by ${signal}` : `Command exited with code ${code}`);
                     logger.error('Command execution failed', {
                         deploymentId,
-                        command: command.replace(/https:\/\/[^@]+@/, 'https://***@'),
-                        error: error.message,
+                        command: safeCommand,
+                        error: reason,
                         duration: `${duration}ms`,
                     });
-                    reject(new Error(message || error.message));
+                    // Streamed output is already in the build log; otherwise surface it in the error
+                    const output = options.onOutput ? '' : `${stdout}${stderr}`.trim();
+                    reject(new Error(output ? `${output}\n${reason}` : reason));
                     return;
                 }
+
                 logger.debug('Command executed successfully', {
                     deploymentId,
-                    command: command.replace(/https:\/\/[^@]+@/, 'https://***@'),
+                    command: safeCommand,
                     duration: `${duration}ms`,
                 });
-                resolve({
-                    stdout: typeof stdout === 'string' ? stdout : stdout.toString(),
-                    stderr: typeof stderr === 'string' ? stderr : stderr.toString(),
-                });
+                resolve({ stdout, stderr });
+            };
+
+            let settled = false;
+            child.on('error', (error) => {
+                if (!settled) {
+                    settled = true;
+                    finish(error, null, null);
+                }
+            });
+            child.on('close', (code, signal) => {
+                if (!settled) {
+                    settled = true;
+                    finish(null, code, signal);
+                }
             });
 
             this.activeProcesses.set(deploymentId, child);
@@ -380,6 +1125,8 @@ class BuildService {
             '.gitmodules',
             'node_modules',
             '__static_export__',
+            SANDBOX_STATE_DIRNAME,
+            OUTPUT_METADATA_FILENAME,
         ]);
 
         await Promise.all(
@@ -433,6 +1180,7 @@ class BuildService {
                     }
                     const age = now - stats.mtimeMs;
                     if (age > this.ARTIFACT_TTL_MS) {
+                        await getBuildExecutor().releaseWorkspace?.(fullPath);
                         await fs.rm(fullPath, { recursive: true, force: true });
                         deletedCount++;
                         logger.info(`Deleted expired build directory`, {
@@ -454,12 +1202,19 @@ class BuildService {
         } else {
             logger.debug('Cleanup completed, no expired artifacts found', { totalEntries: entries.length });
         }
+
+        await buildCacheService.evict().catch((error) => {
+            logger.warn('Failed to evict build cache entries', {
+                error: error instanceof Error ? error.message : String(error),
+            });
+        });
     }
 
     async cleanupDeploymentBuild(deploymentId: string): Promise<void> {
         const buildDir = getDeploymentBuildDir(deploymentId);
         try {
             await fs.access(buildDir);
+            await getBuildExecutor().releaseWorkspace?.(buildDir);
             await fs.rm(buildDir, { recursive: true, force: true });
             logger.info('Cleaned up deployment build directory', { deploymentId, buildDir });
         } catch (error) {
@@ -0,0 +1,174 @@
+import { EventEmitter } from 'events';
+import { Client } from 'pg';
+import { eq, sql } from 'drizzle-orm';
+import { db } from '../db';
+import { deployments } from '../db/schema';
+import { env } from '../config/env';
+import { logger } from '../utils/logger';
+
+const CHANNEL = 'filify_deployment_events';
+const RECONNECT_DELAY_MS = 5000;
+
+export interface DeploymentStatusEvent {
+    type: 'status';
+    deploymentId: string;
+    projectId: string;
+    status: string;
+    ipfsCid: string | null;
+    errorMessage: string | null;
+    completedAt: string | null;
+}
+
+/** Log chunks are fetched by seq on delivery; NOTIFY payloads are capped at 8 KB. */
+export interface DeploymentLogEvent {
+    type: 'log';
+    deploymentId: string;
+    seq: number;
+}
+
+export interface DeploymentProgressEvent {
+    type: 'progress';
+    deploymentId: string;
+    projectId: string;
+    status: string;
+    progress: number;
+    message?: string;
+}
+
+export type DeploymentEvent = DeploymentStatusEvent | DeploymentLogEvent | DeploymentProgressEvent;
+
+/**
+ * Fans deployment events out to SSE connections. Events go through Postgres
+ * LISTEN/NOTIFY so builds running in another process still reach every API instance.
+ */
+class DeploymentEventsService {
+    private readonly emitter = new EventEmitter();
+    private client: Client | null = null;
+    private connecting: Promise<void> | null = null;
+    private reconnectTimer?: NodeJS.Timeout;
+
+    constructor() {
+        // One listener per open SSE connection
+        this.emitter.setMaxListeners(0);
+    }
+
+    subscribe(listener: (event: DeploymentEvent) => void): () => void {
+        void this.ensureListening();
+        this.emitter.on('event', listener);
+        return () => {
+            this.emitter.off('event', listener);
+        };
+    }
+
+    async publish(event: DeploymentEvent) {
+        try {
+            await db.execute(sql`select pg_notify(${CHANNEL}, ${JSON.stringify(event)})`);
+        } catch (error) {
+            logger.warn('Failed to publish deployment event', {
+                type: event.type,
+                deploymentId: event.deploymentId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
+    }
+
+    /** Publish the current status of a deployment; call after every status change. */
+    async publishStatus(deploymentId: string) {
+        const deployment = await db.query.deployments
+            .findFirst({
+                where: eq(deployments.id, deploymentId),
+                columns: {
+                    id: true,
+                    projectId: true,
+                    status: true,
+                    ipfsCid: true,
+                    errorMessage: true,
+                    completedAt: true,
+                },
+            })
+            .catch(() => undefined);
+        if (!deployment) {
+            return;
+        }
+
+        await this.publish({
+            type: 'status',
+            deploymentId: deployment.id,
+            projectId: deployment.projectId,
+            status: deployment.status,
+            ipfsCid: deployment.ipfsCid,
+            // Error messages can hold the whole build log; clients refetch the deployment for it
+            errorMessage: deployment.errorMessage ? deployment.errorMessage.slice(0, 500) : null,
+            completedAt: deployment.completedAt ? deployment.completedAt.toISOString() : null,
+        });
+    }
+
+    private ensureListening(): Promise<void> {
+        if (this.client) {
+            return Promise.resolve();
+        }
+        if (!this.connecting) {
+            this.connecting = this.connect().finally(() => {
+                this.connecting = null;
+            });
+        }
+        return this.connecting;
+    }
+
+    private async connect() {
+        const client = new Client({
+            connectionString: env.DATABASE_URL,
+            ssl: env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
+        });
+
+        client.on('notification', (message) => {
+            if (message.channel !== CHANNEL || !message.payload) {
+                return;
+            }
+            try {
+                this.emitter.emit('event', JSON.parse(message.payload) as DeploymentEvent);
+            } catch (error) {
+                logger.warn('Ignoring malformed deployment event', {
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            }
+        });
+
+        client.on('error', (error) => {
+            logger.warn('Deployment event listener connection failed', { error: error.message });
+            this.scheduleReconnect(client);
+        });
+        client.on('end', () => this.scheduleReconnect(client));
+
+        try {
+            await client.connect();
+            await client.query(`LISTEN ${CHANNEL}`);
+            this.client = client;
+            logger.info('Listening for deployment events', { channel: CHANNEL });
+        } catch (error) {
+            logger.warn('Could not start deployment event listener', {
+                error: error instanceof Error ? error.message : String(error),
+            });
+            this.scheduleReconnect(client);
+        }
+    }
+
+    private scheduleReconnect(client: Client) {
+        if (this.client === client) {
+            this.client = null;
+        }
+        client.removeAllListeners('end');
+        void client.end().catch(() => undefined);
+
+        if (this.reconnectTimer || this.emitter.listenerCount('event') === 0) {
+            return;
+        }
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = undefined;
+            void this.ensureListening();
+        }, RECONNECT_DELAY_MS);
+        this.reconnectTimer.unref?.();
+    }
+}
+
+export const deploymentEvents = new DeploymentEventsService();
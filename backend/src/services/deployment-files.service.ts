@@ -0,0 +1,98 @@
+import { and, asc, desc, eq, lt } from 'drizzle-orm';
+import { db } from '../db';
+import { deploymentFiles, deployments } from '../db/schema';
+import type { ManifestFile } from '../utils/car-builder';
+
+/** Rows per insert; large sites have tens of thousands of files. */
+const INSERT_BATCH_SIZE = 1000;
+
+export interface ChangedFile {
+    path: string;
+    size: number;
+    previousSize: number;
+    sizeDelta: number;
+    contentType: string;
+}
+
+export interface DeploymentDiff {
+    added: ManifestFile[];
+    removed: ManifestFile[];
+    /** Files at the same path whose content (CID) differs. */
+    changed: ChangedFile[];
+    unchanged: number;
+    sizeDelta: number;
+}
+
+/** Added, removed and changed files going from `base` to `target`. */
+export function diffManifests(base: ManifestFile[], target: ManifestFile[]): DeploymentDiff {
+    const baseByPath = new Map(base.map((file) => [file.path, file]));
+    const diff: DeploymentDiff = { added: [], removed: [], changed: [], unchanged: 0, sizeDelta: 0 };
+
+    for (const file of target) {
+        const previous = baseByPath.get(file.path);
+        baseByPath.delete(file.path);
+        if (!previous) {
+            diff.added.push(file);
+            diff.sizeDelta += file.size;
+        } else if (previous.cid !== file.cid) {
+            const sizeDelta = file.size - previous.size;
+            diff.changed.push({
+                path: file.path,
+                size: file.size,
+                previousSize: previous.size,
+                sizeDelta,
+                contentType: file.contentType,
+            });
+            diff.sizeDelta += sizeDelta;
+        } else {
+            diff.unchanged += 1;
+        }
+    }
+    for (const file of baseByPath.values()) {
+        diff.removed.push(file);
+        diff.sizeDelta -= file.size;
+    }
+    return diff;
+}
+
+/** File manifests of deployments, recorded when their CAR is built. */
+class DeploymentFilesService {
+    /** Replace the deployment's manifest, so a rebuilt attempt doesn't keep stale entries. */
+    async save(deploymentId: string, files: ManifestFile[]) {
+        await db.transaction(async (tx) => {
+            await tx.delete(deploymentFiles).where(eq(deploymentFiles.deploymentId, deploymentId));
+            for (let index = 0; index < files.length; index += INSERT_BATCH_SIZE) {
+                await tx
+                    .insert(deploymentFiles)
+                    .values(files.slice(index, index + INSERT_BATCH_SIZE).map((file) => ({ deploymentId, ...file })));
+            }
+        });
+    }
+
+    async list(deploymentId: string): Promise<ManifestFile[]> {
+        return db
+            .select({
+                path: deploymentFiles.path,
+                size: deploymentFiles.size,
+                contentType: deploymentFiles.contentType,
+                cid: deploymentFiles.cid,
+            })
+            .from(deploymentFiles)
+            .where(eq(deploymentFiles.deploymentId, deploymentId))
+            .orderBy(asc(deploymentFiles.path));
+    }
+
+    /** The most recent earlier deployment of the project that has a manifest. */
+    async findPrevious(deployment: { id: string; projectId: string; createdAt: Date }) {
+        const [previous] = await db
+            .selectDistinct({ id: deployments.id, createdAt: deployments.createdAt })
+            .from(deployments)
+            .innerJoin(deploymentFiles, eq(deploymentFiles.deploymentId, deployments.id))
+            .where(and(eq(deployments.projectId, deployment.projectId), lt(deployments.createdAt, deployment.createdAt)))
+            .orderBy(desc(deployments.createdAt))
+            .limit(1);
+        return previous ?? null;
+    }
+}
+
+export const deploymentFilesService = new DeploymentFilesService();
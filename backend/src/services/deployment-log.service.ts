@@ -0,0 +1,167 @@
+import { and, asc, eq, gt, max } from 'drizzle-orm';
+import { db } from '../db';
+import { deploymentLogs } from '../db/schema';
+import { logger } from '../utils/logger';
+import { deploymentEvents } from './deployment-events.service';
+
+export type LogStage = 'setup' | 'clone' | 'install' | 'build' | 'car' | 'upload' | 'ens';
+
+const FLUSH_INTERVAL_MS = 1000;
+/** Flush early once this much output is pending, so one chunk never grows unbounded. */
+const MAX_PENDING_BYTES = 64 * 1024;
+const MASK = '********';
+
+export interface DeploymentLogChunk {
+    seq: number;
+    stage: string;
+    content: string;
+    createdAt: Date;
+}
+
+/**
+ * Buffers build output and persists it to `deployment_logs` in chunks, roughly once a
+ * second. Only complete lines are flushed before close so masked values are never split
+ * across two chunks.
+ */
+export class DeploymentLogWriter {
+    private pending = '';
+    private currentStage: LogStage = 'setup';
+    private nextSeq: number | null = null;
+    private flushChain: Promise<void> = Promise.resolve();
+    private timer?: NodeJS.Timeout;
+    private closed = false;
+    private readonly maskedValues: string[] = [];
+
+    constructor(
+        private readonly deploymentId: string,
+        maskedValues: string[] = [],
+        private readonly onStage?: (stage: LogStage) => void
+    ) {
+        this.addMaskedValues(maskedValues);
+        this.timer = setInterval(() => {
+            void this.flush();
+        }, FLUSH_INTERVAL_MS);
+        this.timer.unref?.();
+    }
+
+    get stageName() {
+        return this.currentStage;
+    }
+
+    addMaskedValues(values: string[]) {
+        for (const value of values) {
+            if (value && !this.maskedValues.includes(value)) {
+                this.maskedValues.push(value);
+            }
+        }
+        this.maskedValues.sort((a, b) => b.length - a.length);
+    }
+
+    mask(text: string) {
+        return this.maskedValues.reduce((masked, value) => masked.split(value).join(MASK), text);
+    }
+
+    /** Start a new stage; output written so far is flushed under the previous one. */
+    stage(stage: LogStage) {
+        if (stage === this.currentStage) {
+            return;
+        }
+        void this.flush(true);
+        this.currentStage = stage;
+        this.onStage?.(stage);
+    }
+
+    write(text: string) {
+        if (this.closed || !text) {
+            return;
+        }
+        this.pending += text;
+        if (this.pending.length >= MAX_PENDING_BYTES) {
+            void this.flush();
+        }
+    }
+
+    flush(includePartialLine = false): Promise<void> {
+        const stage = this.currentStage;
+        let content: string;
+        if (includePartialLine) {
+            content = this.pending;
+            this.pending = '';
+        } else {
+            const lastNewline = this.pending.lastIndexOf('\n');
+            if (lastNewline === -1) {
+                return this.flushChain;
+            }
+            content = this.pending.slice(0, lastNewline + 1);
+            this.pending = this.pending.slice(lastNewline + 1);
+        }
+
+        if (!content) {
+            return this.flushChain;
+        }
+
+        this.flushChain = this.flushChain.then(() => this.persist(stage, this.mask(content)));
+        return this.flushChain;
+    }
+
+    async close() {
+        if (this.closed) {
+            return;
+        }
+        if (this.timer) {
+            clearInterval(this.timer);
+        }
+        await this.flush(true);
+        this.closed = true;
+    }
+
+    private async persist(stage: LogStage, content: string) {
+        try {
+            if (this.nextSeq === null) {
+                const [row] = await db
+                    .select({ maxSeq: max(deploymentLogs.seq) })
+                    .from(deploymentLogs)
+                    .where(eq(deploymentLogs.deploymentId, this.deploymentId));
+                this.nextSeq = (row?.maxSeq ?? -1) + 1;
+            }
+            await db.insert(deploymentLogs).values({
+                deploymentId: this.deploymentId,
+                seq: this.nextSeq,
+                stage,
+                content,
+                createdAt: new Date(),
+            });
+            void deploymentEvents.publish({ type: 'log', deploymentId: this.deploymentId, seq: this.nextSeq });
+            this.nextSeq++;
+        } catch (error) {
+            // Live logs are best effort; the full log is still stored on the deployment
+            logger.warn('Failed to persist deployment log chunk', {
+                deploymentId: this.deploymentId,
+                stage,
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
+    }
+}
+
+class DeploymentLogService {
+    createWriter(deploymentId: string, maskedValues: string[] = [], onStage?: (stage: LogStage) => void) {
+        return new DeploymentLogWriter(deploymentId, maskedValues, onStage);
+    }
+
+    async getChunks(deploymentId: string, afterSeq = -1, limit = 500): Promise<DeploymentLogChunk[]> {
+        return db
+            .select({
+                seq: deploymentLogs.seq,
+                stage: deploymentLogs.stage,
+                content: deploymentLogs.content,
+                createdAt: deploymentLogs.createdAt,
+            })
+            .from(deploymentLogs)
+            .where(and(eq(deploymentLogs.deploymentId, deploymentId), gt(deploymentLogs.seq, afterSeq)))
+            .orderBy(asc(deploymentLogs.seq))
+            .limit(limit);
+    }
+}
+
+export const deploymentLogService = new DeploymentLogService();
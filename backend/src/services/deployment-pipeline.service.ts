@@ -0,0 +1,429 @@
+import fs from 'fs/promises';
+import { and, desc, eq, ne } from 'drizzle-orm';
+import { db } from '../db';
+import { deployments } from '../db/schema';
+import { env } from '../config/env';
+import { logger } from '../utils/logger';
+import { getDeploymentBuildDir } from '../utils/paths';
+import type { GatewayPathMode } from '../utils/gateway-paths';
+import { CarVerificationError, checkProviderPieceCid, verifyCarFile } from '../utils/car-verifier';
+import { buildService } from './build.service';
+import { filecoinUploadService } from './filecoin-upload.service';
+import { ensService } from './ens.service';
+import { deploymentFilesService } from './deployment-files.service';
+import { projectEnvService } from './project-env.service';
+import { deploymentLogService, type DeploymentLogWriter } from './deployment-log.service';
+import { deploymentEvents } from './deployment-events.service';
+import { CancellationError, deploymentQueue, type JobContext } from './deployment-queue.service';
+import { deploymentState, BUILD_STATUSES, isStatusIn } from './deployment-state.service';
+import { deploymentTiming } from './deployment-timing.service';
+
+interface BuiltArtifacts {
+    outputDir: string;
+    carRootCid: string;
+    carFilePath: string;
+}
+
+async function fileExists(filePath: string) {
+    return fs
+        .access(filePath)
+        .then(() => true)
+        .catch(() => false);
+}
+
+/**
+ * Runs one deployment job: clone and build, upload the CAR to Filecoin, then hand off
+ * to ENS signing or finish. A retried job resumes after its last completed stage.
+ */
+class DeploymentPipelineService {
+    async run({ job, signal, completeStage }: JobContext) {
+        const { deploymentId } = job;
+
+        const checkCancelled = () => {
+            if (signal.aborted) {
+                throw new CancellationError();
+            }
+        };
+
+        // Stop the build process as soon as the job is cancelled or its lease is lost
+        signal.addEventListener('abort', () => buildService.cancelBuild(deploymentId), { once: true });
+
+        const deployment = await db.query.deployments.findFirst({
+            where: eq(deployments.id, deploymentId),
+            with: { project: { with: { installation: true } } },
+        });
+
+        if (!deployment || !isStatusIn(deployment.status, BUILD_STATUSES)) {
+            logger.info('Skipping deployment job: deployment is no longer runnable', {
+                deploymentId,
+                status: deployment?.status,
+            });
+            return;
+        }
+
+        const { project } = deployment;
+        const actor = `worker:${deploymentQueue.workerId}`;
+        const timer = deploymentTiming.createTimer(deploymentId);
+        let logWriter: DeploymentLogWriter | null = null;
+        let buildFinished = false;
+
+        timer.start('setup');
+
+        try {
+            checkCancelled();
+            if (!project.installation) {
+                throw new Error('This project has no GitHub App installation linked. Please reconnect GitHub.');
+            }
+            const installationId = project.installation.installationId;
+
+            logger.info('Build pipeline starting', {
+                deploymentId,
+                projectId: project.id,
+                projectName: project.name,
+                repoUrl: project.repoUrl,
+                repoBranch: project.repoBranch || 'main',
+                gitRef: deployment.gitRef,
+                commitSha: deployment.commitSha,
+                installationId,
+                attempt: job.attempts,
+            });
+
+            // Deployments build the project's production branch unless a ref was requested;
+            // tags, commits and other branches get preview variables
+            const productionBranch = project.repoBranch || 'main';
+            const ref = deployment.gitRef ?? productionBranch;
+            const environment = ref === productionBranch || ref === project.autoDeployBranch ? 'production' : 'preview';
+            const buildEnv = await projectEnvService.resolveForBuild(project.id, ref, environment);
+            // Waiting for ENS is timed from the awaiting_signature transition instead
+            logWriter = deploymentLogService.createWriter(deploymentId, buildEnv.maskedValues, (stage) => {
+                if (stage !== 'ens') {
+                    timer.start(stage);
+                }
+            });
+
+            if (job.attempts > 1) {
+                logWriter.write(
+                    `Resuming deployment (attempt ${job.attempts})${job.lastCompletedStage ? ` after the ${job.lastCompletedStage} stage` : ''
+                    }\n`
+                );
+            }
+
+            let artifacts = await this.reuseBuild(job.lastCompletedStage, deployment);
+            const alreadyUploaded = Boolean(artifacts) && job.lastCompletedStage === 'upload';
+
+            if (!artifacts) {
+                // Update status to cloning when build actually starts
+                await deploymentState.transition(deploymentId, 'cloning', {
+                    actor,
+                    metadata: { attempt: job.attempts },
+                });
+
+                logger.info(`Starting build for deployment ${deploymentId}`);
+
+                const result = await buildService.cloneAndBuild(project.repoUrl, ref, installationId, deploymentId, {
+                    projectId: project.id,
+                    buildCommand: project.buildCommand ?? undefined,
+                    outputDir: project.outputDir ?? undefined,
+                    frontendDir: project.frontendDir ?? undefined,
+                    packageManager: project.packageManager,
+                    installCommand: project.installCommand,
+                    resources: {
+                        buildCpus: project.buildCpus,
+                        buildMemoryMb: project.buildMemoryMb,
+                        buildDiskMb: project.buildDiskMb,
+                        buildNetworkEnabled: project.buildNetworkEnabled,
+                    },
+                    env: buildEnv.variables,
+                    maskedValues: buildEnv.maskedValues,
+                    logWriter,
+                    submodules: project.gitSubmodules,
+                    lfs: project.gitLfs,
+                    nodeVersion: project.nodeVersion,
+                    generatorVersion: project.generatorVersion,
+                    gatewayPathMode: project.gatewayPathMode as GatewayPathMode,
+                    unixfs: project.unixfsSettings,
+                    commitSha: deployment.commitSha,
+                    // Manual deploys of a branch only learn their commit once it is fetched
+                    onCommitResolved: async (commit) => {
+                        if (commit.sha === deployment.commitSha) {
+                            return;
+                        }
+                        await db
+                            .update(deployments)
+                            .set({ commitSha: commit.sha, commitMessage: commit.message || null })
+                            .where(eq(deployments.id, deploymentId));
+                    },
+                    onBuildStarted: async () => {
+                        await deploymentState.transition(deploymentId, 'building', { actor });
+                    },
+                });
+
+                checkCancelled();
+
+                await deploymentFilesService.save(deploymentId, result.files);
+                await deploymentState.transition(deploymentId, 'pending_upload', {
+                    actor,
+                    set: {
+                        buildLog: result.logs,
+                        buildArtifactsPath: result.outputDir,
+                        carRootCid: result.carRootCid,
+                        carFilePath: result.carFilePath,
+                        unixfsSettings: result.unixfsSettings,
+                    },
+                    metadata: { carRootCid: result.carRootCid },
+                });
+                await completeStage('build');
+
+                logger.info(`Build completed successfully for deployment ${deploymentId}`);
+                logger.info(`Output directory: ${result.outputDir}`);
+                logger.info(`Build directory: ${getDeploymentBuildDir(deploymentId)}`);
+                logger.info('CAR artifact prepared', {
+                    deploymentId,
+                    carRootCid: result.carRootCid,
+                    carFilePath: result.carFilePath,
+                });
+                artifacts = result;
+            } else {
+                logWriter.write(`Reusing CAR from the previous attempt (root CID: ${artifacts.carRootCid})\n`);
+            }
+            buildFinished = true;
+
+            checkCancelled();
+
+            let rootCid = artifacts.carRootCid;
+            // A byte-identical build reuses the last deployment's upload
+            const unchanged = project.forceReupload
+                ? null
+                : await this.findUnchangedDeployment(project.id, deploymentId, artifacts.carRootCid);
+            if (alreadyUploaded) {
+                logWriter.write(`CAR was already uploaded to Filecoin\n`);
+            } else if (unchanged) {
+                logWriter.stage('upload');
+                logWriter.write(
+                    `Root CID is unchanged since deployment #${unchanged.id.slice(0, 8)}; reusing its upload` +
+                        `${unchanged.pieceCid ? ` (piece CID: ${unchanged.pieceCid})` : ''} instead of uploading again\n`
+                );
+                await db
+                    .update(deployments)
+                    .set({ pieceCid: unchanged.pieceCid, dataSetId: unchanged.dataSetId, providerId: unchanged.providerId })
+                    .where(eq(deployments.id, deploymentId));
+                await completeStage('upload');
+            } else {
+                // Step: Upload to Filecoin
+                await deploymentState.transition(deploymentId, 'uploading', { actor });
+
+                logWriter.stage('upload');
+                logWriter.write(`Verifying CAR...\n`);
+                let verification = await verifyCarFile(artifacts.carFilePath, artifacts.carRootCid);
+                await db.update(deployments).set({ carVerification: verification }).where(eq(deployments.id, deploymentId));
+                if (verification.error) {
+                    throw new CarVerificationError(verification.error);
+                }
+                logWriter.write(
+                    `✓ CAR verified (${verification.blockCount} blocks, DAG complete, piece CID: ${verification.pieceCid})\n`
+                );
+
+                checkCancelled();
+
+                logger.info('Starting Filecoin upload', { deploymentId, carFilePath: artifacts.carFilePath });
+                logWriter.write(`Uploading CAR to Filecoin...\n`);
+
+                const uploadResult = await filecoinUploadService.uploadCar(
+                    artifacts.carFilePath,
+                    artifacts.carRootCid,
+                    deploymentId,
+                    {
+                        signal,
+                        onProgress: (update) => {
+                            logWriter?.write(`[${update.progress}%] ${update.message ?? update.status}\n`);
+                            void deploymentEvents.publish({
+                                type: 'progress',
+                                deploymentId,
+                                projectId: project.id,
+                                status: update.status,
+                                progress: update.progress,
+                                message: update.message,
+                            });
+                        },
+                    }
+                );
+                verification = checkProviderPieceCid(verification, uploadResult.pieceCid ?? null);
+                await db
+                    .update(deployments)
+                    .set({
+                        pieceCid: uploadResult.pieceCid ?? null,
+                        dataSetId: uploadResult.dataSetId ?? null,
+                        providerId: uploadResult.providerId ?? null,
+                        carVerification: verification,
+                    })
+                    .where(eq(deployments.id, deploymentId));
+                if (verification.error) {
+                    throw new CarVerificationError(verification.error);
+                }
+                await completeStage('upload');
+                logWriter.write(`✓ Uploaded to Filecoin (piece CID: ${uploadResult.pieceCid})\n`);
+                rootCid = uploadResult.rootCid;
+
+                logger.info('Filecoin upload completed', {
+                    deploymentId,
+                    rootCid: uploadResult.rootCid,
+                    pieceCid: uploadResult.pieceCid,
+                    transactionHash: uploadResult.transactionHash,
+                });
+            }
+
+            checkCancelled();
+
+            // Check if project has ENS configured
+            const hasEns = Boolean(project.ensName && project.ensOwnerAddress);
+            // An unchanged deployment only needs a signature if the name doesn't point at it yet
+            const ensCurrent = Boolean(
+                hasEns &&
+                    unchanged &&
+                    project.ethereumRpcUrl &&
+                    (await ensService.isContentHashCurrent(project.ensName!, rootCid, project.ethereumRpcUrl))
+            );
+            const needsSignature = hasEns && !ensCurrent;
+
+            if (needsSignature) {
+                logWriter.stage('ens');
+                logWriter.write(`Waiting for ENS signature to point ${project.ensName} at ${rootCid}\n`);
+            } else if (ensCurrent) {
+                logWriter.write(`✓ ${project.ensName} already points at ${rootCid}; no ENS update needed\n`);
+            }
+            // Persist the tail of the log before the status change tells clients to stop tailing
+            await logWriter.close();
+            await timer.settled();
+
+            if (needsSignature) {
+                // ENS configured - transition to awaiting_signature
+                await deploymentState.transition(deploymentId, 'awaiting_signature', {
+                    actor,
+                    set: { ipfsCid: rootCid },
+                    metadata: { ipfsCid: rootCid },
+                });
+
+                logger.info('Deployment ready for ENS signature', {
+                    deploymentId,
+                    ipfsCid: rootCid,
+                    ensName: project.ensName,
+                });
+            } else {
+                // No ENS configured, or ENS already current - mark as success immediately
+                await deploymentState.transition(deploymentId, 'success', {
+                    actor,
+                    set: {
+                        ipfsCid: rootCid,
+                        outcome: unchanged ? 'unchanged' : null,
+                        completedAt: new Date(),
+                    },
+                    metadata: unchanged ? { ipfsCid: rootCid, unchangedSince: unchanged.id } : { ipfsCid: rootCid },
+                });
+
+                logger.info(unchanged ? 'Deployment completed (unchanged)' : 'Deployment completed (IPFS-only, no ENS)', {
+                    deploymentId,
+                    ipfsCid: rootCid,
+                    unchangedSince: unchanged?.id,
+                });
+            }
+
+            // Cleanup build directory after successful upload if enabled
+            if (env.CLEANUP_BUILDS_ON_COMPLETE) {
+                await buildService.cleanupDeploymentBuild(deploymentId).catch((cleanupError) => {
+                    logger.warn('Failed to cleanup build directory after upload', { deploymentId, error: cleanupError });
+                });
+            }
+        } catch (error) {
+            await timer.settled();
+            const currentStatus = await db.query.deployments.findFirst({
+                where: eq(deployments.id, deploymentId),
+                columns: { status: true },
+            });
+
+            if (currentStatus?.status === 'cancelled') {
+                timer.end('cancelled');
+                await logWriter?.close();
+                logger.info(`Deployment ${deploymentId} marked as cancelled.`);
+                return;
+            }
+
+            // Worker shutting down or lease lost: the job is resumed elsewhere
+            if (signal.aborted) {
+                timer.end('interrupted');
+                await logWriter?.close();
+                throw new CancellationError('Deployment job was interrupted');
+            }
+
+            logger.error(`Build/upload failed for deployment ${deploymentId}:`, error);
+
+            // Build failures already carry their output into the log; only report later ones here
+            if (buildFinished) {
+                logWriter?.write(`\n❌ Error: ${(error as Error).message}\n`);
+            }
+            await logWriter?.close();
+
+            // A concurrent cancellation leaves the deployment cancelled rather than failed
+            await deploymentState.tryTransition(deploymentId, 'failed', {
+                actor,
+                set: {
+                    errorMessage: (error as Error).message,
+                    buildLog: (error as Error).message,
+                    buildArtifactsPath: null,
+                    completedAt: new Date(),
+                },
+                metadata: { error: (error as Error).message, stage: buildFinished ? 'upload' : 'build' },
+            });
+
+            // Cleanup build directory if enabled
+            if (env.CLEANUP_BUILDS_ON_COMPLETE) {
+                await buildService.cleanupDeploymentBuild(deploymentId).catch((cleanupError) => {
+                    logger.warn('Failed to cleanup build directory after build failure', { deploymentId, error: cleanupError });
+                });
+            }
+        } finally {
+            await logWriter?.close();
+            await timer.settled();
+        }
+    }
+
+    /** The project's last successful deployment, when it deployed the same root CID. */
+    private async findUnchangedDeployment(projectId: string, deploymentId: string, rootCid: string) {
+        const [last] = await db
+            .select({
+                id: deployments.id,
+                ipfsCid: deployments.ipfsCid,
+                carRootCid: deployments.carRootCid,
+                pieceCid: deployments.pieceCid,
+                dataSetId: deployments.dataSetId,
+                providerId: deployments.providerId,
+            })
+            .from(deployments)
+            .where(
+                and(eq(deployments.projectId, projectId), eq(deployments.status, 'success'), ne(deployments.id, deploymentId))
+            )
+            .orderBy(desc(deployments.createdAt))
+            .limit(1);
+        return last && (last.ipfsCid === rootCid || last.carRootCid === rootCid) ? last : null;
+    }
+
+    /** The CAR from an earlier attempt, if that attempt got past the build stage. */
+    private async reuseBuild(
+        lastCompletedStage: string | null,
+        deployment: { carRootCid: string | null; carFilePath: string | null; buildArtifactsPath: string | null }
+    ): Promise<BuiltArtifacts | null> {
+        if (!lastCompletedStage || !deployment.carRootCid || !deployment.carFilePath) {
+            return null;
+        }
+        // Once uploaded, only the root CID is needed; otherwise the CAR itself must still be on disk
+        if (lastCompletedStage !== 'upload' && !(await fileExists(deployment.carFilePath))) {
+            return null;
+        }
+        return {
+            outputDir: deployment.buildArtifactsPath ?? '',
+            carRootCid: deployment.carRootCid,
+            carFilePath: deployment.carFilePath,
+        };
+    }
+}
+
+export const deploymentPipeline = new DeploymentPipelineService();
@@ -0,0 +1,276 @@
+import { eq } from 'drizzle-orm';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { resetTestDb } from '../../test/db';
+import { env } from '../config/env';
+import { db } from '../db';
+import { deploymentJobs, deployments, projects, users } from '../db/schema';
+import { deploymentEvents } from './deployment-events.service';
+import { deploymentQueue, type JobContext } from './deployment-queue.service';
+
+vi.mock('../db', async () => {
+    const { createTestDb } = await import('../../test/db');
+    return { ...(await import('../db/schema')), db: await createTestDb() };
+});
+
+const MINUTE_MS = 60 * 1000;
+
+let sequence = 0;
+
+/** Queue a job for a new deployment of `projectId`; `createdAt` orders jobs explicitly. */
+async function queueJob(projectId: string, values: Partial<typeof deploymentJobs.$inferInsert> = {}) {
+    sequence += 1;
+    const deploymentId = `deployment-${sequence}`;
+    await db.insert(deployments).values({ id: deploymentId, projectId, status: 'pending_build' });
+    await db.insert(deploymentJobs).values({
+        id: `job-${sequence}`,
+        deploymentId,
+        projectId,
+        createdAt: new Date(Date.now() - MINUTE_MS + sequence * 1000),
+        ...values,
+    });
+    return { id: `job-${sequence}`, deploymentId };
+}
+
+function findJob(id: string) {
+    return db.query.deploymentJobs.findFirst({ where: eq(deploymentJobs.id, id) });
+}
+
+function claim() {
+    return deploymentQueue['claim']();
+}
+
+describe('deploymentQueue', () => {
+    beforeEach(async () => {
+        await resetTestDb(db);
+        await db.insert(users).values({ walletAddress: '0xabc' });
+        for (const id of ['project-a', 'project-b']) {
+            await db.insert(projects).values({
+                id,
+                userId: '0xabc',
+                name: id,
+                repoFullName: `acme/${id}`,
+                repoUrl: `https://github.com/acme/${id}`,
+            });
+        }
+    });
+
+    describe('claim', () => {
+        it('leases the oldest queued job to this worker', async () => {
+            const { id: first } = await queueJob('project-a');
+            await queueJob('project-b');
+
+            const job = await claim();
+
+            expect(job).toMatchObject({ id: first, status: 'running', attempts: 1, lockedBy: deploymentQueue.workerId });
+            expect(job!.lockedUntil!.getTime()).toBeGreaterThan(Date.now());
+            expect(job!.heartbeatAt).not.toBeNull();
+        });
+
+        it('returns null when nothing is runnable', async () => {
+            await queueJob('project-a', { runAfter: new Date(Date.now() + MINUTE_MS) });
+            await queueJob('project-b', { status: 'completed' });
+
+            expect(await claim()).toBeNull();
+        });
+
+        it('never hands the same job to two claims', async () => {
+            await queueJob('project-a');
+            await queueJob('project-b');
+
+            const claimed = await Promise.all([claim(), claim(), claim()]);
+            const ids = claimed.filter(Boolean).map((job) => job!.id);
+
+            expect(ids).toHaveLength(2);
+            expect(new Set(ids).size).toBe(2);
+        });
+
+        it('runs one job per project at a time, in queue order', async () => {
+            const { id: running } = await queueJob('project-a', {
+                status: 'running',
+                lockedBy: 'other-worker',
+                lockedUntil: new Date(Date.now() + MINUTE_MS),
+                attempts: 1,
+            });
+            const { id: waiting } = await queueJob('project-a');
+            const { id: later } = await queueJob('project-a');
+            const { id: otherProject } = await queueJob('project-b');
+
+            expect((await claim())?.id).toBe(otherProject);
+            expect(await claim()).toBeNull();
+
+            await db.update(deploymentJobs).set({ status: 'completed' }).where(eq(deploymentJobs.id, running));
+            expect((await claim())?.id).toBe(waiting);
+            expect((await findJob(later))?.status).toBe('queued');
+        });
+
+        it('rejects a second running job for a project at the database', async () => {
+            await queueJob('project-a', { status: 'running', lockedBy: 'other-worker' });
+
+            await expect(queueJob('project-a', { status: 'running', lockedBy: 'worker-2' })).rejects.toThrow();
+            await expect(queueJob('project-b', { status: 'running', lockedBy: 'worker-2' })).resolves.toBeDefined();
+        });
+
+        it('requeues a running job whose lease expired', async () => {
+            const { id: expired } = await queueJob('project-a', {
+                status: 'running',
+                lockedBy: 'dead-worker',
+                lockedUntil: new Date(Date.now() - MINUTE_MS),
+                attempts: 1,
+                lastCompletedStage: 'build',
+            });
+
+            const job = await claim();
+
+            expect(job).toMatchObject({
+                id: expired,
+                attempts: 2,
+                lockedBy: deploymentQueue.workerId,
+                lastCompletedStage: 'build',
+            });
+        });
+
+        it('leaves an expired job that used all its attempts to be failed', async () => {
+            const { id: exhausted, deploymentId } = await queueJob('project-a', {
+                status: 'running',
+                lockedBy: 'dead-worker',
+                lockedUntil: new Date(Date.now() - MINUTE_MS),
+                attempts: 3,
+                maxAttempts: 3,
+            });
+            await db.update(deployments).set({ status: 'cloning' }).where(eq(deployments.id, deploymentId));
+
+            expect(await claim()).toBeNull();
+
+            await deploymentQueue['failExhaustedJobs']();
+            expect(await findJob(exhausted)).toMatchObject({ status: 'failed', lockedBy: null });
+            const deployment = await db.query.deployments.findFirst({ where: eq(deployments.id, deploymentId) });
+            expect(deployment).toMatchObject({
+                status: 'failed',
+                errorMessage: 'Build worker stopped responding (3 attempts)',
+            });
+        });
+    });
+
+    describe('cancel', () => {
+        it('cancels a queued job so it is never claimed', async () => {
+            const { id, deploymentId } = await queueJob('project-a');
+
+            expect(await deploymentQueue.cancel(deploymentId)).toBe('queued');
+            expect(await findJob(id)).toMatchObject({ status: 'cancelled', lockedBy: null });
+            expect(await claim()).toBeNull();
+        });
+
+        it('returns null for a job that already finished', async () => {
+            const { deploymentId } = await queueJob('project-a', { status: 'completed' });
+
+            expect(await deploymentQueue.cancel(deploymentId)).toBeNull();
+        });
+    });
+
+    describe('stop', () => {
+        afterEach(() => {
+            vi.restoreAllMocks();
+        });
+
+        it('hands running jobs back without counting the interrupted attempt', async () => {
+            vi.spyOn(deploymentEvents, 'subscribe').mockReturnValue(() => undefined);
+            const { id } = await queueJob('project-a', { attempts: 1 });
+
+            let context: JobContext | undefined;
+            const started = new Promise<void>((resolve) => {
+                deploymentQueue.start(async (jobContext) => {
+                    context = jobContext;
+                    resolve();
+                    await new Promise((done) => jobContext.signal.addEventListener('abort', done));
+                });
+            });
+            await started;
+            expect(await findJob(id)).toMatchObject({ status: 'running', attempts: 2 });
+
+            await deploymentQueue.stop();
+
+            expect(context!.signal.aborted).toBe(true);
+            expect(await findJob(id)).toMatchObject({
+                status: 'queued',
+                attempts: 1,
+                lockedBy: null,
+                lockedUntil: null,
+            });
+        });
+    });
+});
+
+describe('queue limits', () => {
+    const limits = {
+        MAX_CONCURRENT_BUILDS: env.MAX_CONCURRENT_BUILDS,
+        MAX_CONCURRENT_BUILDS_PER_USER: env.MAX_CONCURRENT_BUILDS_PER_USER,
+        BUILD_QUEUE_FAIRNESS: env.BUILD_QUEUE_FAIRNESS,
+    };
+
+    beforeEach(async () => {
+        await resetTestDb(db);
+        for (const user of ['0xabc', '0xdef']) {
+            await db.insert(users).values({ walletAddress: user });
+        }
+        for (const [id, userId] of [
+            ['project-a', '0xabc'],
+            ['project-b', '0xabc'],
+            ['project-c', '0xdef'],
+        ]) {
+            await db.insert(projects).values({
+                id,
+                userId,
+                name: id,
+                repoFullName: `acme/${id}`,
+                repoUrl: `https://github.com/acme/${id}`,
+            });
+        }
+    });
+
+    afterEach(() => {
+        Object.assign(env, limits);
+    });
+
+    it('schedules higher priority jobs first', async () => {
+        await queueJob('project-a', { userId: '0xabc', priority: 0 });
+        const { id: manual } = await queueJob('project-b', { userId: '0xabc', priority: 10 });
+
+        expect((await claim())?.id).toBe(manual);
+    });
+
+    it('stops claiming at the global build limit', async () => {
+        Object.assign(env, { MAX_CONCURRENT_BUILDS: 1, MAX_CONCURRENT_BUILDS_PER_USER: 0 });
+        await queueJob('project-a', { userId: '0xabc' });
+        await queueJob('project-c', { userId: '0xdef' });
+
+        expect(await claim()).not.toBeNull();
+        expect(await claim()).toBeNull();
+    });
+
+    it('prefers users with fewer running builds when fairness is on', async () => {
+        Object.assign(env, { MAX_CONCURRENT_BUILDS: 5, MAX_CONCURRENT_BUILDS_PER_USER: 0, BUILD_QUEUE_FAIRNESS: true });
+        await queueJob('project-a', {
+            userId: '0xabc',
+            status: 'running',
+            lockedBy: 'other-worker',
+            lockedUntil: new Date(Date.now() + MINUTE_MS),
+        });
+        await queueJob('project-b', { userId: '0xabc' });
+        const { id: otherUser } = await queueJob('project-c', { userId: '0xdef' });
+
+        expect((await claim())?.id).toBe(otherUser);
+    });
+
+    it('caps running builds per user', async () => {
+        Object.assign(env, { MAX_CONCURRENT_BUILDS: 5, MAX_CONCURRENT_BUILDS_PER_USER: 1 });
+        await queueJob('project-a', {
+            userId: '0xabc',
+            status: 'running',
+            lockedBy: 'other-worker',
+            lockedUntil: new Date(Date.now() + MINUTE_MS),
+        });
+        await queueJob('project-b', { userId: '0xabc' });
+
+        expect(await claim()).toBeNull();
+    });
+});
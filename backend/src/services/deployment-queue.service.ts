@@ -1,6 +1,25 @@
+import os from 'os';
+import { and, eq, inArray, lt, sql } from 'drizzle-orm';
+import { db } from '../db';
+import { deploymentJobs } from '../db/schema';
+import { env } from '../config/env';
+import { generateId } from '../utils/generateId';
 import { logger } from '../utils/logger';
+import { deploymentEvents } from './deployment-events.service';
+import { deploymentState, BUILD_STATUSES } from './deployment-state.service';
 
-type Task = (signal: AbortSignal) => Promise<void>;
+/** Stages recorded on a job so a retried job can skip work that already finished. */
+export type JobStage = 'build' | 'upload';
+
+export type DeploymentJob = typeof deploymentJobs.$inferSelect;
+
+export interface JobContext {
+    job: DeploymentJob;
+    signal: AbortSignal;
+    completeStage(stage: JobStage): Promise<void>;
+}
+
+type JobHandler = (context: JobContext) => Promise<void>;
 
 export class CancellationError extends Error {
     constructor(message = 'Deployment was cancelled') {
@@ -9,100 +28,447 @@ export class CancellationError extends Error {
     }
 }
 
+const STOP_TIMEOUT_MS = 10_000;
+
+/** Manual deploys are scheduled ahead of webhook deploys. */
+export const JOB_PRIORITY = {
+    manual: 10,
+    webhook: 0,
+} as const;
+
+/** Arbitrary key for the advisory lock that serializes claims across workers. */
+const CLAIM_LOCK_KEY = 7_406_001;
+/** Assumed build duration for ETAs until enough jobs have completed. */
+const DEFAULT_BUILD_DURATION_MS = 3 * 60 * 1000;
+const DURATION_SAMPLE_SIZE = 20;
+
+export interface QueuePosition {
+    /** 1 when the job is next in line. */
+    position: number;
+    estimatedStartAt: Date;
+}
+
+function isUniqueViolation(error: unknown): boolean {
+    const code = (error as { code?: string })?.code ?? (error as { cause?: { code?: string } })?.cause?.code;
+    return code === '23505';
+}
+
+/**
+ * Postgres-backed deployment queue. Jobs are leased with FOR UPDATE SKIP LOCKED and
+ * kept alive by heartbeats; a job whose lease expires is picked up again by any
+ * worker until it runs out of attempts. Jobs for one project run one at a time, in
+ * the order they were queued, and at most MAX_CONCURRENT_BUILDS run across all workers.
+ */
 class DeploymentQueue {
-    private readonly queues = new Map<string, Promise<void>>();
-    private readonly abortControllers = new Map<string, AbortController>();
+    readonly workerId = `${os.hostname()}:${process.pid}`;
+    private handler: JobHandler | null = null;
+    private concurrency = 1;
+    private pollTimer?: NodeJS.Timeout;
+    private polling = false;
+    private pollAgain = false;
+    private readonly running = new Map<string, AbortController>();
+    private readonly inFlight = new Set<Promise<void>>();
+    private unsubscribe?: () => void;
 
-    enqueue(projectId: string, task: Task): void {
-        const previous = this.queues.get(projectId) ?? Promise.resolve();
-        const hasExisting = this.queues.has(projectId);
+    async enqueue(
+        deploymentId: string,
+        projectId: string,
+        options: { userId: string; priority: number }
+    ): Promise<void> {
+        await db.insert(deploymentJobs).values({
+            id: generateId(),
+            deploymentId,
+            projectId,
+            userId: options.userId,
+            priority: options.priority,
+            maxAttempts: env.DEPLOYMENT_JOB_MAX_ATTEMPTS,
+        });
+        logger.info('Deployment job queued', { deploymentId, projectId, priority: options.priority });
+        this.wake();
+    }
 
-        if (hasExisting) {
-            logger.debug('Queueing deployment task (previous task exists)', { projectId });
-        } else {
-            logger.info('Queueing deployment task (no previous task)', { projectId });
+    /**
+     * Where a queued deployment stands: its place in scheduling order (priority, then
+     * age) and an estimated start time from recent build durations. Null once started.
+     */
+    async getQueuePosition(deploymentId: string): Promise<QueuePosition | null> {
+        const job = await db.query.deploymentJobs.findFirst({
+            where: eq(deploymentJobs.deploymentId, deploymentId),
+        });
+        if (!job || job.status !== 'queued') {
+            return null;
         }
 
-        // Create abort controller for this task
-        const abortController = new AbortController();
-        this.abortControllers.set(projectId, abortController);
+        const [ahead] = await db
+            .select({ count: sql<number>`count(*)::int` })
+            .from(deploymentJobs)
+            .where(
+                and(
+                    eq(deploymentJobs.status, 'queued'),
+                    sql`(${deploymentJobs.priority} > ${job.priority} or (${deploymentJobs.priority} = ${job.priority} and ${deploymentJobs.createdAt} < ${job.createdAt}))`
+                )
+            );
+        const running = await db.query.deploymentJobs.findMany({
+            where: and(eq(deploymentJobs.status, 'running'), sql`${deploymentJobs.lockedUntil} >= now()`),
+            columns: { projectId: true, startedAt: true },
+        });
+        const averageMs = await this.getAverageDurationMs();
 
-        const next = previous
-            .catch((error) => {
-                // Ignore CancellationError from previous task - it's expected
-                if (error instanceof CancellationError) {
-                    logger.debug('Previous deployment task was cancelled', { projectId });
-                    return;
-                }
-                logger.warn('Previous deployment task failed', {
-                    projectId,
-                    error: error instanceof Error ? error.message : String(error),
-                    stack: error instanceof Error ? error.stack : undefined,
-                });
-            })
-            .then(() => {
-                // Check if cancelled before starting
-                if (abortController.signal.aborted) {
-                    throw new CancellationError();
-                }
-                logger.debug('Starting deployment task', { projectId });
-                return task(abortController.signal);
-            })
-            .catch((error) => {
-                if (error instanceof CancellationError) {
-                    logger.info('Deployment task cancelled', { projectId });
-                    return;
-                }
-                logger.error('Deployment task failed', {
-                    projectId,
-                    error: error instanceof Error ? error.message : String(error),
-                    stack: error instanceof Error ? error.stack : undefined,
-                });
-            })
-            .finally(() => {
-                const current = this.queues.get(projectId);
-                if (current === next) {
-                    this.queues.delete(projectId);
-                    this.abortControllers.delete(projectId);
-                    logger.debug('Deployment task completed and removed from queue', { projectId });
-                }
-            });
+        const position = (ahead?.count ?? 0) + 1;
+        const slots = Math.max(env.MAX_CONCURRENT_BUILDS, 1);
+        const freeSlots = Math.max(slots - running.length, 0);
+        const waves = position <= freeSlots ? 0 : Math.ceil((position - freeSlots) / slots);
+        let startMs = Date.now() + waves * averageMs;
+
+        // The project's own running build has to finish first
+        const projectRun = running.find((run) => run.projectId === job.projectId);
+        if (projectRun?.startedAt) {
+            startMs = Math.max(startMs, projectRun.startedAt.getTime() + averageMs);
+        }
 
-        this.queues.set(projectId, next);
+        return { position, estimatedStartAt: new Date(Math.max(startMs, Date.now())) };
+    }
+
+    /** Start consuming jobs in this process. */
+    start(handler: JobHandler, options: { concurrency?: number } = {}) {
+        this.handler = handler;
+        this.concurrency = Math.max(options.concurrency ?? 1, 1);
+        this.pollTimer = setInterval(() => this.wake(), env.DEPLOYMENT_JOB_POLL_INTERVAL_MS);
+
+        // Status events arrive from every process, so new jobs and cancellations are
+        // picked up without waiting for the next poll or heartbeat
+        this.unsubscribe = deploymentEvents.subscribe((event) => {
+            if (event.type !== 'status') {
+                return;
+            }
+            if (event.status === 'pending_build') {
+                this.wake();
+            } else if (event.status === 'cancelled') {
+                this.running.get(event.deploymentId)?.abort();
+            }
+        });
+
+        logger.info('Deployment worker started', { workerId: this.workerId, concurrency: this.concurrency });
+        this.wake();
     }
 
     /**
-     * Clear the queue for a project and abort any running task.
-     * This allows new deployments to start immediately after cancellation.
+     * Stop taking jobs and hand running ones back to the queue so another worker
+     * resumes them straight away instead of waiting for their leases to expire.
      */
-    clearQueue(projectId: string): boolean {
-        const abortController = this.abortControllers.get(projectId);
-        const hadQueue = this.queues.has(projectId);
+    async stop() {
+        this.handler = null;
+        clearInterval(this.pollTimer);
+        this.unsubscribe?.();
+
+        const deploymentIds = [...this.running.keys()];
+        if (deploymentIds.length > 0) {
+            await db
+                .update(deploymentJobs)
+                .set({
+                    status: 'queued',
+                    // An interrupted attempt does not count against the job
+                    attempts: sql`greatest(${deploymentJobs.attempts} - 1, 0)`,
+                    lockedBy: null,
+                    lockedUntil: null,
+                    updatedAt: new Date(),
+                })
+                .where(and(eq(deploymentJobs.lockedBy, this.workerId), eq(deploymentJobs.status, 'running')));
+            logger.info('Released running deployment jobs', { workerId: this.workerId, deploymentIds });
+        }
 
-        if (abortController) {
-            abortController.abort();
-            logger.info('Aborted running deployment task', { projectId });
+        for (const controller of this.running.values()) {
+            controller.abort();
         }
 
-        this.queues.delete(projectId);
-        this.abortControllers.delete(projectId);
+        // Give aborted jobs a moment to kill their build processes and flush logs
+        await Promise.race([
+            Promise.allSettled([...this.inFlight]),
+            new Promise((resolve) => setTimeout(resolve, STOP_TIMEOUT_MS).unref()),
+        ]);
+    }
 
-        if (hadQueue) {
-            logger.info('Cleared deployment queue for project', { projectId });
+    /**
+     * Cancel a deployment's job. Workers abort a running job when they see the
+     * cancelled status event, or at the latest on their next heartbeat.
+     * Returns the state the job was in, or null if it had already finished.
+     */
+    async cancel(deploymentId: string): Promise<'queued' | 'running' | null> {
+        const job = await db.query.deploymentJobs.findFirst({
+            where: and(eq(deploymentJobs.deploymentId, deploymentId), inArray(deploymentJobs.status, ['queued', 'running'])),
+            columns: { id: true, status: true },
+        });
+        if (!job) {
+            return null;
         }
 
-        return hadQueue;
+        await db
+            .update(deploymentJobs)
+            .set({ status: 'cancelled', lockedBy: null, lockedUntil: null, updatedAt: new Date() })
+            .where(eq(deploymentJobs.id, job.id));
+
+        this.running.get(deploymentId)?.abort();
+        return job.status as 'queued' | 'running';
+    }
+
+    private wake() {
+        if (!this.handler) {
+            return;
+        }
+        if (this.polling) {
+            this.pollAgain = true;
+            return;
+        }
+        void this.poll();
+    }
+
+    private async poll() {
+        this.polling = true;
+        try {
+            await this.failExhaustedJobs();
+            while (this.running.size < this.concurrency) {
+                const job = await this.claim();
+                if (!job) {
+                    break;
+                }
+                const run = this.run(job);
+                this.inFlight.add(run);
+                void run.finally(() => this.inFlight.delete(run));
+            }
+        } catch (error) {
+            logger.warn('Failed to poll deployment jobs', {
+                error: error instanceof Error ? error.message : String(error),
+            });
+        } finally {
+            this.polling = false;
+        }
+
+        if (this.pollAgain) {
+            this.pollAgain = false;
+            this.wake();
+        }
     }
 
     /**
-     * Check if a project has a pending or running task in the queue.
+     * Claim the next runnable job. Claims are serialized with an advisory lock so the
+     * global and per-user limits hold across workers. Ordering is priority first, then
+     * (with fairness on) users with fewer running builds, then age.
      */
-    hasTask(projectId: string): boolean {
-        return this.queues.has(projectId);
+    private async claim(): Promise<DeploymentJob | null> {
+        const leaseSeconds = env.DEPLOYMENT_JOB_LEASE_SECONDS;
+        const maxRunning = Math.max(env.MAX_CONCURRENT_BUILDS, 1);
+        const maxPerUser = Math.max(env.MAX_CONCURRENT_BUILDS_PER_USER, 0);
+        const fairness = env.BUILD_QUEUE_FAIRNESS;
+
+        try {
+            const id = await db.transaction(async (tx) => {
+                await tx.execute(sql`select pg_advisory_xact_lock(${CLAIM_LOCK_KEY})`);
+
+                const result = await tx.execute<{ id: string }>(sql`
+                    with active as (
+                        select user_id, count(*)::int as running
+                        from deployment_jobs
+                        where status = 'running' and locked_until >= now()
+                        group by user_id
+                    )
+                    update deployment_jobs
+                    set status = 'running',
+                        locked_by = ${this.workerId},
+                        locked_until = now() + make_interval(secs => ${leaseSeconds}),
+                        heartbeat_at = now(),
+                        started_at = now(),
+                        attempts = attempts + 1,
+                        updated_at = now()
+                    where id = (
+                        select candidate.id
+                        from deployment_jobs candidate
+                        left join active on active.user_id = candidate.user_id
+                        where (
+                            (candidate.status = 'queued' and candidate.run_after <= now())
+                            or (candidate.status = 'running' and candidate.locked_until < now() and candidate.attempts < candidate.max_attempts)
+                        )
+                        and not exists (
+                            select 1 from deployment_jobs other
+                            where other.project_id = candidate.project_id
+                            and other.id <> candidate.id
+                            and (
+                                other.status = 'running'
+                                or (other.status = 'queued' and other.created_at < candidate.created_at)
+                            )
+                        )
+                        and (select coalesce(sum(running), 0) from active) < ${maxRunning}
+                        and (${maxPerUser} = 0 or coalesce(active.running, 0) < ${maxPerUser})
+                        order by
+                            candidate.priority desc,
+                            case when ${fairness} then coalesce(active.running, 0) else 0 end asc,
+                            candidate.created_at asc
+                        for update of candidate skip locked
+                        limit 1
+                    )
+                    returning id
+                `);
+                return result.rows[0]?.id ?? null;
+            });
+
+            if (!id) {
+                return null;
+            }
+            return (await db.query.deploymentJobs.findFirst({ where: eq(deploymentJobs.id, id) })) ?? null;
+        } catch (error) {
+            // Another worker claimed a job for the same project first
+            if (isUniqueViolation(error)) {
+                return null;
+            }
+            throw error;
+        }
     }
-}
 
-export const deploymentQueue = new DeploymentQueue();
+    private async getAverageDurationMs(): Promise<number> {
+        const [row] = await db.execute<{ average_ms: number | null }>(sql`
+            select avg(extract(epoch from (completed_at - started_at)) * 1000)::float as average_ms
+            from (
+                select completed_at, started_at
+                from deployment_jobs
+                where status = 'completed' and started_at is not null and completed_at is not null
+                order by completed_at desc
+                limit ${DURATION_SAMPLE_SIZE}
+            ) recent
+        `).then((result) => result.rows);
+        return row?.average_ms ?? DEFAULT_BUILD_DURATION_MS;
+    }
 
+    private async run(job: DeploymentJob) {
+        const controller = new AbortController();
+        this.running.set(job.deploymentId, controller);
 
+        logger.info('Deployment job started', {
+            jobId: job.id,
+            deploymentId: job.deploymentId,
+            attempt: job.attempts,
+            resumeAfter: job.lastCompletedStage,
+        });
+
+        const heartbeat = setInterval(() => {
+            void this.heartbeat(job, controller);
+        }, (env.DEPLOYMENT_JOB_LEASE_SECONDS * 1000) / 3);
+
+        try {
+            await this.handler!({
+                job,
+                signal: controller.signal,
+                completeStage: (stage) => this.completeStage(job, stage),
+            });
+            await this.finish(job, controller.signal.aborted ? 'cancelled' : 'completed');
+        } catch (error) {
+            if (error instanceof CancellationError || controller.signal.aborted) {
+                await this.finish(job, 'cancelled');
+            } else {
+                logger.error('Deployment job failed', {
+                    jobId: job.id,
+                    deploymentId: job.deploymentId,
+                    error: error instanceof Error ? error.message : String(error),
+                    stack: error instanceof Error ? error.stack : undefined,
+                });
+                await this.finish(job, 'failed', error instanceof Error ? error.message : String(error));
+            }
+        } finally {
+            clearInterval(heartbeat);
+            this.running.delete(job.deploymentId);
+            this.wake();
+        }
+    }
 
+    private async heartbeat(job: DeploymentJob, controller: AbortController) {
+        try {
+            const renewed = await db
+                .update(deploymentJobs)
+                .set({
+                    lockedUntil: sql`now() + make_interval(secs => ${env.DEPLOYMENT_JOB_LEASE_SECONDS})`,
+                    heartbeatAt: new Date(),
+                })
+                .where(
+                    and(
+                        eq(deploymentJobs.id, job.id),
+                        eq(deploymentJobs.status, 'running'),
+                        eq(deploymentJobs.lockedBy, this.workerId)
+                    )
+                )
+                .returning({ id: deploymentJobs.id });
+
+            // Cancelled, or the lease expired and another worker took over
+            if (renewed.length === 0 && !controller.signal.aborted) {
+                logger.warn('Deployment job lease lost; aborting', { jobId: job.id, deploymentId: job.deploymentId });
+                controller.abort();
+            }
+        } catch (error) {
+            logger.warn('Failed to renew deployment job lease', {
+                jobId: job.id,
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
+    }
+
+    private async completeStage(job: DeploymentJob, stage: JobStage) {
+        await db
+            .update(deploymentJobs)
+            .set({ lastCompletedStage: stage, updatedAt: new Date() })
+            .where(and(eq(deploymentJobs.id, job.id), eq(deploymentJobs.lockedBy, this.workerId)));
+    }
+
+    private async finish(job: DeploymentJob, status: 'completed' | 'failed' | 'cancelled', lastError?: string) {
+        await db
+            .update(deploymentJobs)
+            .set({
+                status,
+                lastError: lastError ?? null,
+                lockedBy: null,
+                lockedUntil: null,
+                completedAt: new Date(),
+                updatedAt: new Date(),
+            })
+            .where(and(eq(deploymentJobs.id, job.id), eq(deploymentJobs.lockedBy, this.workerId)))
+            .catch((error) => {
+                logger.warn('Failed to record deployment job result', {
+                    jobId: job.id,
+                    status,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            });
+    }
+
+    /** Jobs whose worker died on every attempt are given up on, failing their deployment. */
+    private async failExhaustedJobs() {
+        const exhausted = await db
+            .update(deploymentJobs)
+            .set({
+                status: 'failed',
+                lastError: 'Build worker stopped responding',
+                lockedBy: null,
+                lockedUntil: null,
+                updatedAt: new Date(),
+            })
+            .where(
+                and(
+                    eq(deploymentJobs.status, 'running'),
+                    lt(deploymentJobs.lockedUntil, sql`now()`),
+                    sql`${deploymentJobs.attempts} >= ${deploymentJobs.maxAttempts}`
+                )
+            )
+            .returning({ deploymentId: deploymentJobs.deploymentId, attempts: deploymentJobs.attempts });
+
+        for (const job of exhausted) {
+            await deploymentState.tryTransition(job.deploymentId, 'failed', {
+                actor: 'system',
+                from: BUILD_STATUSES,
+                set: {
+                    errorMessage: `Build worker stopped responding (${job.attempts} attempts)`,
+                    completedAt: new Date(),
+                },
+                metadata: { attempts: job.attempts },
+            });
+            logger.warn('Deployment job exhausted its attempts', job);
+        }
+    }
+}
+
+export const deploymentQueue = new DeploymentQueue();
@@ -0,0 +1,178 @@
+import { eq } from 'drizzle-orm';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { resetTestDb } from '../../test/db';
+import { db } from '../db';
+import { deployments, projects, users } from '../db/schema';
+import {
+    DEPLOYMENT_STATUSES,
+    InvalidTransitionError,
+    canTransition,
+    deploymentState,
+    type DeploymentStatus,
+} from './deployment-state.service';
+
+vi.mock('../db', async () => {
+    const { createTestDb } = await import('../../test/db');
+    return { ...(await import('../db/schema')), db: await createTestDb() };
+});
+
+const TERMINAL: DeploymentStatus[] = ['success', 'failed', 'cancelled'];
+
+/** Status paths from a new deployment to each terminal status. */
+const PATHS: Record<string, DeploymentStatus[]> = {
+    success: ['cloning', 'pending_upload', 'uploading', 'success'],
+    failed: ['cloning', 'failed'],
+    cancelled: ['cancelled'],
+};
+
+let sequence = 0;
+
+async function createDeployment() {
+    sequence += 1;
+    const id = `deployment-${sequence}`;
+    await deploymentState.create({ id, projectId: 'project-1' }, 'user:0xabc');
+    return id;
+}
+
+function findDeployment(id: string) {
+    return db.query.deployments.findFirst({ where: eq(deployments.id, id) });
+}
+
+async function statusOf(id: string) {
+    return (await findDeployment(id))?.status;
+}
+
+async function moveThrough(id: string, statuses: DeploymentStatus[]) {
+    for (const status of statuses) {
+        await deploymentState.transition(id, status, { actor: 'system' });
+    }
+}
+
+describe('canTransition', () => {
+    it('allows the build path and rejects skipping it', () => {
+        expect(canTransition('pending_build', 'cloning')).toBe(true);
+        expect(canTransition('cloning', 'pending_upload')).toBe(true);
+        expect(canTransition('pending_build', 'success')).toBe(false);
+        expect(canTransition('awaiting_confirmation', 'uploading')).toBe(false);
+    });
+
+    it('rejects unknown statuses', () => {
+        expect(canTransition('queued', 'cloning')).toBe(false);
+    });
+
+    it.each(TERMINAL)('allows nothing out of %s', (terminal) => {
+        for (const to of DEPLOYMENT_STATUSES) {
+            expect(canTransition(terminal, to)).toBe(false);
+        }
+    });
+});
+
+describe('deploymentState', () => {
+    beforeEach(async () => {
+        await resetTestDb(db);
+        await db.insert(users).values({ walletAddress: '0xabc' });
+        await db.insert(projects).values({
+            id: 'project-1',
+            userId: '0xabc',
+            name: 'site',
+            repoFullName: 'acme/site',
+            repoUrl: 'https://github.com/acme/site',
+        });
+    });
+
+    it('records every transition on the timeline', async () => {
+        const id = await createDeployment();
+        await deploymentState.transition(id, 'cloning', { actor: 'worker:1', metadata: { attempt: 1 } });
+        await deploymentState.transition(id, 'failed', { actor: 'worker:1', set: { errorMessage: 'Build failed' } });
+
+        const deployment = await findDeployment(id);
+        expect(deployment).toMatchObject({ status: 'failed', errorMessage: 'Build failed' });
+
+        const timeline = await deploymentState.getTimeline(id);
+        expect(timeline.map((event) => [event.fromStatus, event.toStatus, event.actor])).toEqual([
+            [null, 'pending_build', 'user:0xabc'],
+            ['pending_build', 'cloning', 'worker:1'],
+            ['cloning', 'failed', 'worker:1'],
+        ]);
+        expect(timeline[1].metadata).toEqual({ attempt: 1 });
+    });
+
+    it('rejects illegal transitions without changing the deployment', async () => {
+        const id = await createDeployment();
+
+        await expect(deploymentState.transition(id, 'success', { actor: 'system' })).rejects.toBeInstanceOf(
+            InvalidTransitionError
+        );
+        await expect(
+            deploymentState.transition(id, 'awaiting_confirmation', { actor: 'system', set: { ensTxHash: '0x1' } })
+        ).rejects.toThrow('Deployment cannot move from pending_build to awaiting_confirmation');
+
+        expect(await statusOf(id)).toBe('pending_build');
+        const deployment = await findDeployment(id);
+        expect(deployment?.ensTxHash).toBeNull();
+        expect(await deploymentState.getTimeline(id)).toHaveLength(1);
+    });
+
+    it('only transitions from the given statuses when `from` is set', async () => {
+        const id = await createDeployment();
+        await deploymentState.transition(id, 'cloning', { actor: 'system' });
+
+        await expect(
+            deploymentState.transition(id, 'failed', { actor: 'system', from: ['pending_upload', 'uploading'] })
+        ).rejects.toBeInstanceOf(InvalidTransitionError);
+        expect(await statusOf(id)).toBe('cloning');
+    });
+
+    it('rejects transitions of a deployment that does not exist', async () => {
+        await expect(deploymentState.transition('missing', 'cloning', { actor: 'system' })).rejects.toThrow(
+            'Deployment missing not found'
+        );
+    });
+
+    it.each(TERMINAL)('locks a deployment once it is %s', async (terminal) => {
+        const id = await createDeployment();
+        await moveThrough(id, PATHS[terminal]);
+        expect(await statusOf(id)).toBe(terminal);
+
+        for (const to of DEPLOYMENT_STATUSES) {
+            await expect(deploymentState.transition(id, to, { actor: 'system' })).rejects.toBeInstanceOf(
+                InvalidTransitionError
+            );
+            expect(await deploymentState.tryTransition(id, to, { actor: 'system' })).toBeNull();
+        }
+        expect(await statusOf(id)).toBe(terminal);
+    });
+
+    it('gives up in tryTransition when a concurrent cancel wins', async () => {
+        const id = await createDeployment();
+        await moveThrough(id, ['cloning', 'pending_upload', 'uploading']);
+
+        // The cancel takes the row lock first; the worker's failure then finds a cancelled deployment
+        const [cancelled, failed] = await Promise.all([
+            deploymentState.transition(id, 'cancelled', { actor: 'user:0xabc' }),
+            deploymentState.tryTransition(id, 'failed', {
+                actor: 'worker:1',
+                set: { errorMessage: 'Upload failed' },
+            }),
+        ]);
+
+        expect(cancelled.status).toBe('cancelled');
+        expect(failed).toBeNull();
+        const deployment = await findDeployment(id);
+        expect(deployment).toMatchObject({ status: 'cancelled', errorMessage: null });
+        const timeline = await deploymentState.getTimeline(id);
+        expect(timeline.at(-1)).toMatchObject({ fromStatus: 'uploading', toStatus: 'cancelled' });
+        expect(timeline.some((event) => event.toStatus === 'failed')).toBe(false);
+    });
+
+    it('rethrows errors other than invalid transitions from tryTransition', async () => {
+        const id = await createDeployment();
+        await expect(
+            deploymentState.tryTransition(id, 'cloning', {
+                actor: 'system',
+                set: { projectId: 'no-such-project' },
+            })
+        ).rejects.toThrow();
+        expect(await statusOf(id)).toBe('pending_build');
+    });
+});
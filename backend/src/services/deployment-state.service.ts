@@ -0,0 +1,211 @@
+import { asc, eq } from 'drizzle-orm';
+import { db } from '../db';
+import { deployments, deploymentEvents as deploymentEventsTable } from '../db/schema';
+import type { DeploymentStatus } from '../types';
+import { deploymentEvents } from './deployment-events.service';
+import { deploymentTiming, type TimingStage } from './deployment-timing.service';
+import { classifyDeploymentError, metrics } from './metrics.service';
+
+export type { DeploymentStatus };
+
+type DeploymentRow = typeof deployments.$inferSelect;
+type DeploymentValues = Partial<Omit<typeof deployments.$inferInsert, 'id' | 'status'>>;
+
+/** Statuses a deployment may move to from each status. Terminal statuses have none. */
+const TRANSITIONS: Record<DeploymentStatus, readonly DeploymentStatus[]> = {
+    pending_build: ['cloning', 'failed', 'cancelled'],
+    // A build interrupted by a worker restart starts again from cloning
+    cloning: ['building', 'pending_upload', 'cloning', 'failed', 'cancelled'],
+    building: ['pending_upload', 'cloning', 'failed', 'cancelled'],
+    // An unchanged root CID skips the upload and, when ENS is current, the signature
+    pending_upload: ['uploading', 'awaiting_signature', 'success', 'cloning', 'failed', 'cancelled'],
+    uploading: ['awaiting_signature', 'success', 'uploading', 'cloning', 'failed', 'cancelled'],
+    // Re-preparing ENS with another CID stays in awaiting_signature
+    awaiting_signature: ['awaiting_signature', 'awaiting_confirmation', 'success', 'failed', 'cancelled'],
+    awaiting_confirmation: ['awaiting_confirmation', 'awaiting_signature', 'success', 'failed', 'cancelled'],
+    success: [],
+    failed: [],
+    cancelled: [],
+};
+
+/** Statuses spent waiting outside the build worker, timed as stages of their own. */
+const WAITING_STAGES: Partial<Record<DeploymentStatus, TimingStage>> = {
+    pending_build: 'queued',
+    awaiting_signature: 'ens_signature',
+    awaiting_confirmation: 'ens_confirmation',
+};
+
+const TERMINAL_STATUSES = ['success', 'failed', 'cancelled'] as const;
+
+export const DEPLOYMENT_STATUSES = Object.keys(TRANSITIONS) as DeploymentStatus[];
+
+/** Work in progress on a worker: building or uploading. */
+export const BUILD_STATUSES: readonly DeploymentStatus[] = [
+    'pending_build',
+    'cloning',
+    'building',
+    'pending_upload',
+    'uploading',
+];
+
+/** Not finished yet; a project can only have one active deployment. */
+export const ACTIVE_STATUSES: readonly DeploymentStatus[] = [
+    ...BUILD_STATUSES,
+    'awaiting_signature',
+    'awaiting_confirmation',
+];
+
+/** Built, with the CAR waiting for or in the Filecoin upload. */
+export const UPLOAD_STATUSES: readonly DeploymentStatus[] = ['pending_upload', 'uploading'];
+
+/** Statuses an ENS transaction can be prepared from; a successful deployment keeps its status. */
+export const ENS_PREPARE_STATUSES: readonly DeploymentStatus[] = [...UPLOAD_STATUSES, 'awaiting_signature', 'success'];
+
+/** Statuses an ENS transaction can be confirmed from; a successful deployment keeps its status. */
+export const ENS_CONFIRM_STATUSES: readonly DeploymentStatus[] = ['awaiting_signature', 'awaiting_confirmation', 'success'];
+
+export function isDeploymentStatus(value: string): value is DeploymentStatus {
+    return value in TRANSITIONS;
+}
+
+export function isActiveStatus(status: string) {
+    return isStatusIn(status, ACTIVE_STATUSES);
+}
+
+export function isStatusIn(status: string, statuses: readonly DeploymentStatus[]) {
+    return (statuses as readonly string[]).includes(status);
+}
+
+export function canTransition(from: string, to: DeploymentStatus) {
+    return isDeploymentStatus(from) && TRANSITIONS[from].includes(to);
+}
+
+export class InvalidTransitionError extends Error {
+    constructor(
+        readonly deploymentId: string,
+        readonly from: string | null,
+        readonly to: DeploymentStatus
+    ) {
+        super(from ? `Deployment cannot move from ${from} to ${to}` : `Deployment ${deploymentId} not found`);
+        this.name = 'InvalidTransitionError';
+    }
+}
+
+interface TransitionOptions {
+    /** Who caused the transition: `user:<wallet>`, `worker:<id>`, `webhook:<delivery>` or `system`. */
+    actor: string;
+    /** Other deployment columns to update along with the status. */
+    set?: DeploymentValues;
+    /** Recorded on the event, e.g. an error message or transaction hash. */
+    metadata?: Record<string, unknown>;
+    /** Only transition from these statuses, on top of what the state machine allows. */
+    from?: readonly DeploymentStatus[];
+}
+
+/**
+ * The only place deployment statuses change. Every transition is validated against
+ * TRANSITIONS under a row lock, recorded in `deployment_events` and published to
+ * event stream subscribers. Waiting and terminal statuses also start or end stage timings.
+ */
+class DeploymentStateService {
+    async create(values: Omit<typeof deployments.$inferInsert, 'status'>, actor: string, metadata?: Record<string, unknown>) {
+        const [created] = await db.transaction(async (tx) => {
+            const rows = await tx
+                .insert(deployments)
+                .values({ ...values, status: 'pending_build' })
+                .returning();
+            await tx.insert(deploymentEventsTable).values({
+                deploymentId: values.id,
+                fromStatus: null,
+                toStatus: 'pending_build',
+                actor,
+                metadata: metadata ?? null,
+            });
+            return rows;
+        });
+        await deploymentTiming.startStage(values.id, 'queued', created.createdAt);
+        void deploymentEvents.publishStatus(values.id);
+        return created;
+    }
+
+    /** Move a deployment to `to`; throws InvalidTransitionError when that is not allowed. */
+    async transition(deploymentId: string, to: DeploymentStatus, options: TransitionOptions): Promise<DeploymentRow> {
+        const { from, updated } = await db.transaction(async (tx) => {
+            const [current] = await tx
+                .select({ status: deployments.status })
+                .from(deployments)
+                .where(eq(deployments.id, deploymentId))
+                .for('update');
+
+            if (
+                !current ||
+                !canTransition(current.status, to) ||
+                (options.from && !(options.from as readonly string[]).includes(current.status))
+            ) {
+                throw new InvalidTransitionError(deploymentId, current?.status ?? null, to);
+            }
+
+            const [row] = await tx
+                .update(deployments)
+                .set({ ...options.set, status: to })
+                .where(eq(deployments.id, deploymentId))
+                .returning();
+            await tx.insert(deploymentEventsTable).values({
+                deploymentId,
+                fromStatus: current.status,
+                toStatus: to,
+                actor: options.actor,
+                metadata: options.metadata ?? null,
+            });
+            return { from: current.status, updated: row };
+        });
+
+        await this.recordTiming(deploymentId, from, to, options);
+        void deploymentEvents.publishStatus(deploymentId);
+        return updated;
+    }
+
+    /** Like transition, but returns null instead of throwing when the move is not allowed. */
+    async tryTransition(deploymentId: string, to: DeploymentStatus, options: TransitionOptions) {
+        try {
+            return await this.transition(deploymentId, to, options);
+        } catch (error) {
+            if (error instanceof InvalidTransitionError) {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    private async recordTiming(deploymentId: string, from: string, to: DeploymentStatus, options: TransitionOptions) {
+        const waitingStage = WAITING_STAGES[to];
+        if (waitingStage && from !== to) {
+            await deploymentTiming.startStage(deploymentId, waitingStage);
+        } else if ((TERMINAL_STATUSES as readonly string[]).includes(to)) {
+            const stage = await deploymentTiming.endStage(deploymentId, to as (typeof TERMINAL_STATUSES)[number]);
+            if (to === 'failed') {
+                metrics.deploymentFailures.inc({
+                    stage: stage ?? 'unknown',
+                    error_class: classifyDeploymentError(options.set?.errorMessage),
+                });
+            }
+        }
+    }
+
+    async getTimeline(deploymentId: string) {
+        return db
+            .select({
+                id: deploymentEventsTable.id,
+                fromStatus: deploymentEventsTable.fromStatus,
+                toStatus: deploymentEventsTable.toStatus,
+                actor: deploymentEventsTable.actor,
+                metadata: deploymentEventsTable.metadata,
+                createdAt: deploymentEventsTable.createdAt,
+            })
+            .from(deploymentEventsTable)
+            .where(eq(deploymentEventsTable.deploymentId, deploymentId))
+            .orderBy(asc(deploymentEventsTable.createdAt), asc(deploymentEventsTable.id));
+    }
+}
+
+export const deploymentState = new DeploymentStateService();
@@ -0,0 +1,184 @@
+import { and, asc, desc, eq, inArray, isNull, sql } from 'drizzle-orm';
+import { db } from '../db';
+import { deployments, deploymentStageTimings } from '../db/schema';
+import { logger } from '../utils/logger';
+import type { LogStage } from './deployment-log.service';
+import { metrics } from './metrics.service';
+
+/** Build stages follow the log stages; `queued` and the ENS waits happen outside the worker. */
+export type TimingStage = 'queued' | Exclude<LogStage, 'ens'> | 'ens_signature' | 'ens_confirmation';
+
+export const TIMING_STAGES: readonly TimingStage[] = [
+    'queued',
+    'setup',
+    'clone',
+    'install',
+    'build',
+    'car',
+    'upload',
+    'ens_signature',
+    'ens_confirmation',
+];
+
+export type StageOutcome = 'success' | 'failed' | 'cancelled' | 'interrupted';
+
+/** How many recent deployments of a project the p50/p95 durations are computed over. */
+const STATS_SAMPLE_SIZE = 50;
+
+export interface StageTiming {
+    stage: string;
+    startedAt: Date;
+    endedAt: Date | null;
+    durationMs: number | null;
+    outcome: string | null;
+}
+
+export interface StageStats {
+    stage: string;
+    count: number;
+    p50Ms: number;
+    p95Ms: number;
+}
+
+/**
+ * Times the stages of one pipeline run. Stage changes come from synchronous callers
+ * (the log writer), so writes are chained to keep them in order.
+ */
+export class StageTimer {
+    private chain: Promise<void> = Promise.resolve();
+
+    constructor(private readonly deploymentId: string) {}
+
+    start(stage: TimingStage) {
+        this.chain = this.chain.then(() => deploymentTiming.startStage(this.deploymentId, stage));
+    }
+
+    end(outcome: StageOutcome) {
+        this.chain = this.chain.then(async () => {
+            await deploymentTiming.endStage(this.deploymentId, outcome);
+        });
+    }
+
+    settled() {
+        return this.chain;
+    }
+}
+
+/**
+ * Records when each deployment stage started and ended in `deployment_stage_timings`.
+ * A deployment has at most one open stage; starting the next one ends it. Timings are
+ * best effort and never fail the deployment.
+ */
+class DeploymentTimingService {
+    createTimer(deploymentId: string) {
+        return new StageTimer(deploymentId);
+    }
+
+    async startStage(deploymentId: string, stage: TimingStage, startedAt = new Date()) {
+        try {
+            await this.closeOpenStage(deploymentId, 'success', startedAt);
+            await db.insert(deploymentStageTimings).values({ deploymentId, stage, startedAt });
+        } catch (error) {
+            this.logFailure(deploymentId, stage, error);
+        }
+    }
+
+    /** Ends the open stage, if any, and returns its name. */
+    async endStage(deploymentId: string, outcome: StageOutcome, endedAt = new Date()) {
+        try {
+            return await this.closeOpenStage(deploymentId, outcome, endedAt);
+        } catch (error) {
+            this.logFailure(deploymentId, null, error);
+            return null;
+        }
+    }
+
+    async getStages(deploymentId: string): Promise<StageTiming[]> {
+        const rows = await db
+            .select({
+                stage: deploymentStageTimings.stage,
+                startedAt: deploymentStageTimings.startedAt,
+                endedAt: deploymentStageTimings.endedAt,
+                outcome: deploymentStageTimings.outcome,
+            })
+            .from(deploymentStageTimings)
+            .where(eq(deploymentStageTimings.deploymentId, deploymentId))
+            .orderBy(asc(deploymentStageTimings.startedAt), asc(deploymentStageTimings.id));
+
+        return rows.map((row) => ({
+            ...row,
+            durationMs: row.endedAt ? row.endedAt.getTime() - row.startedAt.getTime() : null,
+        }));
+    }
+
+    /** p50/p95 of successful stage durations over the project's recent deployments. */
+    async getProjectStats(projectId: string): Promise<{ sampleSize: number; stages: StageStats[] }> {
+        const recent = await db
+            .select({ id: deployments.id })
+            .from(deployments)
+            .where(eq(deployments.projectId, projectId))
+            .orderBy(desc(deployments.createdAt))
+            .limit(STATS_SAMPLE_SIZE);
+
+        if (recent.length === 0) {
+            return { sampleSize: 0, stages: [] };
+        }
+
+        const durationMs = sql`extract(epoch from (${deploymentStageTimings.endedAt} - ${deploymentStageTimings.startedAt})) * 1000`;
+        const rows = await db
+            .select({
+                stage: deploymentStageTimings.stage,
+                count: sql<number>`count(*)::int`,
+                p50Ms: sql<number>`percentile_cont(0.5) within group (order by ${durationMs})`,
+                p95Ms: sql<number>`percentile_cont(0.95) within group (order by ${durationMs})`,
+            })
+            .from(deploymentStageTimings)
+            .where(
+                and(
+                    inArray(
+                        deploymentStageTimings.deploymentId,
+                        recent.map((deployment) => deployment.id)
+                    ),
+                    eq(deploymentStageTimings.outcome, 'success')
+                )
+            )
+            .groupBy(deploymentStageTimings.stage);
+
+        const stages = rows
+            .map((row) => ({
+                stage: row.stage,
+                count: Number(row.count),
+                p50Ms: Math.round(Number(row.p50Ms)),
+                p95Ms: Math.round(Number(row.p95Ms)),
+            }))
+            .sort(
+                (a, b) =>
+                    TIMING_STAGES.indexOf(a.stage as TimingStage) - TIMING_STAGES.indexOf(b.stage as TimingStage)
+            );
+
+        return { sampleSize: recent.length, stages };
+    }
+
+    private async closeOpenStage(deploymentId: string, outcome: StageOutcome, endedAt: Date) {
+        const closed = await db
+            .update(deploymentStageTimings)
+            .set({ endedAt, outcome })
+            .where(and(eq(deploymentStageTimings.deploymentId, deploymentId), isNull(deploymentStageTimings.endedAt)))
+            .returning({ stage: deploymentStageTimings.stage, startedAt: deploymentStageTimings.startedAt });
+
+        for (const { stage, startedAt } of closed) {
+            metrics.stageDuration.observe({ stage, outcome }, (endedAt.getTime() - startedAt.getTime()) / 1000);
+        }
+        return closed[0]?.stage ?? null;
+    }
+
+    private logFailure(deploymentId: string, stage: string | null, error: unknown) {
+        logger.warn('Failed to record deployment stage timing', {
+            deploymentId,
+            stage,
+            error: error instanceof Error ? error.message : String(error),
+        });
+    }
+}
+
+export const deploymentTiming = new DeploymentTimingService();
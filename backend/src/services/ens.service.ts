@@ -145,12 +145,14 @@ class ENSService {
         txHash: string;
         expectedCid: string;
         rpcUrl: string;
+        /** Give up waiting for the receipt after this long; waits indefinitely when unset. */
+        timeoutMs?: number;
     }): Promise<ENSConfirmationResult> {
-        const { ensName, txHash, expectedCid, rpcUrl } = params;
+        const { ensName, txHash, expectedCid, rpcUrl, timeoutMs } = params;
         try {
             logger.info(`Waiting for ENS transaction ${txHash}`, { ensName });
             const provider = new ethers.JsonRpcProvider(rpcUrl);
-            const receipt = await provider.waitForTransaction(txHash);
+            const receipt = await provider.waitForTransaction(txHash, 1, timeoutMs);
 
             if (!receipt) {
                 throw new Error('Transaction receipt not found');
@@ -183,6 +185,11 @@ class ENSService {
         }
     }
 
+    /** Whether the name's contenthash already points at the CID, so no update is needed. */
+    async isContentHashCurrent(ensName: string, ipfsCid: string, rpcUrl: string): Promise<boolean> {
+        return this.verifyContentHash(ensName, await this.normalizeIpfsCid(ipfsCid), rpcUrl);
+    }
+
     async verifyContentHash(ensName: string, expectedCid: string, rpcUrl: string): Promise<boolean> {
         logger.debug('Verifying ENS contenthash', { ensName, expectedCid });
         try {
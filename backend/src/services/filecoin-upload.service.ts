@@ -2,6 +2,7 @@ import fs from 'fs/promises';
 import { env } from '../config/env';
 import { logger } from '../utils/logger';
 import { loadFilecoinPinModules } from '../utils/esm-loader';
+import { metrics } from './metrics.service';
 
 const UPLOAD_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
 
@@ -126,7 +127,8 @@ class FilecoinUploadService {
     ): Promise<FilecoinUploadResult> {
         const { onProgress, signal, timeoutMs = UPLOAD_TIMEOUT_MS } = options;
 
-        const uploadPromise = this.executeUpload(carFilePath, rootCidString, deploymentId, onProgress, signal);
+        const attempt: { providerId?: number } = {};
+        const uploadPromise = this.executeUpload(carFilePath, rootCidString, deploymentId, attempt, onProgress, signal);
 
         const timeoutPromise = new Promise<never>((_, reject) => {
             const timer = setTimeout(() => {
@@ -136,13 +138,19 @@ class FilecoinUploadService {
             signal?.addEventListener('abort', () => clearTimeout(timer));
         });
 
-        return Promise.race([uploadPromise, timeoutPromise]);
+        return Promise.race([uploadPromise, timeoutPromise]).catch((error) => {
+            if (attempt.providerId != null && !signal?.aborted) {
+                metrics.storageProviderFailures.inc({ provider_id: String(attempt.providerId) });
+            }
+            throw error;
+        });
     }
 
     private async executeUpload(
         carFilePath: string,
         rootCidString: string,
         deploymentId: string,
+        attempt: { providerId?: number },
         onProgress?: ProgressCallback,
         signal?: AbortSignal
     ): Promise<FilecoinUploadResult> {
@@ -203,6 +211,7 @@ class FilecoinUploadService {
             checkAborted();
 
             const { storage: storageContext, providerInfo, dataSetId, withCDN } = await createStorageContext(synapse);
+            attempt.providerId = providerInfo.id;
             logger.info('Storage context created', {
                 deploymentId,
                 providerId: providerInfo.id,
@@ -284,6 +293,7 @@ class FilecoinUploadService {
                 deploymentId,
                 ...result,
             });
+            metrics.uploadBytes.inc(carBytes.length);
 
             return result;
         } catch (error) {
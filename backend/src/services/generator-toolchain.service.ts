@@ -0,0 +1,68 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { constants as fsConstants } from 'fs';
+import semver from 'semver';
+import { env } from '../config/env';
+import { getToolchainsRoot } from '../utils/paths';
+
+/** Generators shipped as a single binary, provisioned like the Node.js toolchains. */
+export type BinaryGeneratorId = 'hugo' | 'zola';
+
+export interface GeneratorToolchain {
+    version: string;
+    /** Directory holding the binary; prepended to the build PATH. */
+    binDir: string;
+}
+
+/**
+ * Hugo and Zola versions available to builds, one directory per version under
+ * GENERATOR_TOOLCHAINS_DIR (e.g. `hugo/0.125.4/hugo`). When none is installed the
+ * binary on the build PATH is used.
+ */
+class GeneratorToolchainService {
+    get root() {
+        return env.GENERATOR_TOOLCHAINS_DIR ?? getToolchainsRoot();
+    }
+
+    async listInstalled(generator: BinaryGeneratorId): Promise<GeneratorToolchain[]> {
+        const generatorDir = path.join(this.root, generator);
+        const entries = await fs.readdir(generatorDir, { withFileTypes: true }).catch(() => []);
+        const toolchains: GeneratorToolchain[] = [];
+        for (const entry of entries) {
+            const version = entry.name.match(/(\d+\.\d+\.\d+)/)?.[1];
+            if (!version || !(entry.isDirectory() || entry.isSymbolicLink())) {
+                continue;
+            }
+            const binDir = path.join(generatorDir, entry.name);
+            const executable = await fs
+                .access(path.join(binDir, generator), fsConstants.X_OK)
+                .then(() => true)
+                .catch(() => false);
+            if (executable) {
+                toolchains.push({ version, binDir });
+            }
+        }
+        return toolchains;
+    }
+
+    /**
+     * The highest installed version matching the request (any version when none is
+     * requested), or null to fall back to the PATH. Throws when a requested version
+     * is not installed.
+     */
+    async resolve(generator: BinaryGeneratorId, name: string, requested: string | null) {
+        const installed = await this.listInstalled(generator);
+        const range = requested ? semver.validRange(requested.replace(/^v/, '')) : '*';
+        const version = range ? semver.maxSatisfying(installed.map((toolchain) => toolchain.version), range) : null;
+        if (version) {
+            return installed.find((toolchain) => toolchain.version === version)!;
+        }
+        if (!requested) {
+            return null;
+        }
+        const available = installed.map((toolchain) => toolchain.version).join(', ') || 'none';
+        throw new Error(`${name} ${requested} is not available on the build server (available: ${available})`);
+    }
+}
+
+export const generatorToolchainService = new GeneratorToolchainService();
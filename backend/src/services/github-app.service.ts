@@ -2,6 +2,7 @@ import { Octokit } from '@octokit/rest';
 import { createAppAuth } from '@octokit/auth-app';
 import { env } from '../config/env';
 import { logger } from '../utils/logger';
+import type { WorkspaceReader } from '../utils/workspace';
 
 interface InstallationToken {
   token: string;
@@ -111,6 +112,68 @@ class GitHubAppService {
     }));
   }
 
+  /** Resolve a branch, tag or (abbreviated) SHA to a commit; null when the ref does not exist. */
+  async resolveCommit(installationId: number, owner: string, repo: string, ref: string) {
+    const token = await this.getInstallationToken(installationId);
+    const octokit = this.getOctokitForInstallation(token);
+
+    try {
+      const { data } = await octokit.repos.getCommit({ owner, repo, ref });
+      return {
+        sha: data.sha,
+        message: data.commit.message,
+      };
+    } catch (error) {
+      const status = (error as { status?: number }).status;
+      if (status === 404 || status === 422) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Read-only view of a repository at a ref, for inspecting its layout without cloning.
+   * The tree is listed once; file contents are fetched on demand.
+   */
+  async getRepositoryReader(installationId: number, owner: string, repo: string, ref: string): Promise<WorkspaceReader> {
+    const token = await this.getInstallationToken(installationId);
+    const octokit = this.getOctokitForInstallation(token);
+
+    const { data: tree } = await octokit.git.getTree({ owner, repo, tree_sha: ref, recursive: 'true' });
+    if (tree.truncated) {
+      logger.warn('Repository tree listing truncated', { owner, repo, ref });
+    }
+    const files = new Set<string>();
+    const directories = new Map<string, string[]>();
+    for (const entry of tree.tree) {
+      if (!entry.path) {
+        continue;
+      }
+      if (entry.type === 'blob') {
+        files.add(entry.path);
+      } else if (entry.type === 'tree') {
+        const slash = entry.path.lastIndexOf('/');
+        const parent = slash === -1 ? '' : entry.path.slice(0, slash);
+        directories.set(parent, [...(directories.get(parent) ?? []), entry.path.slice(slash + 1)]);
+      }
+    }
+
+    return {
+      readFile: async (path) => {
+        if (!files.has(path)) {
+          return null;
+        }
+        const { data } = await octokit.repos.getContent({ owner, repo, path, ref });
+        if (Array.isArray(data) || data.type !== 'file' || !('content' in data)) {
+          return null;
+        }
+        return Buffer.from(data.content, 'base64').toString('utf-8');
+      },
+      listDirectories: async (dir) => directories.get(dir) ?? [],
+    };
+  }
+
   async checkRepoAccess(installationId: number, repoFullName: string): Promise<boolean> {
     const repos = await this.listInstallationRepos(installationId);
     return repos.some((r) => r.fullName === repoFullName);
@@ -0,0 +1,148 @@
+import { count, eq } from 'drizzle-orm';
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import { db } from '../db';
+import { deploymentJobs } from '../db/schema';
+import { getDirectorySizeBytes } from '../utils/disk-usage';
+import { getBuildCacheRoot, getBuildsRoot } from '../utils/paths';
+
+/** `du` over the builds directory is slow on large trees; scrapes reuse the last result for a while. */
+const DISK_USAGE_CACHE_MS = 60 * 1000;
+
+const STAGE_DURATION_BUCKETS = [1, 5, 10, 30, 60, 120, 300, 600, 1200, 1800, 3600];
+
+/** Ordered most to least specific; the first pattern found in the failure reason wins. */
+const ERROR_CLASSES: Array<[RegExp, string]> = [
+    [/exceeded the disk limit|ENOSPC|no space left/i, 'disk_limit'],
+    [/out of memory|ENOMEM|SIGKILL/i, 'out_of_memory'],
+    [/timed out/i, 'timeout'],
+    [/Server restarted|Build worker stopped responding/, 'worker_lost'],
+    [/Node\.js .* is not available|Unsupported Node\.js version/, 'toolchain'],
+    [/to be deployed as a static site/, 'framework'],
+    [/ENS confirmation failed/, 'ens'],
+    [/Upload blocked|Filecoin upload|storage provider/i, 'upload'],
+    [/Command exited with code|Command terminated by/, 'command_failed'],
+    [/GitHub App installation|clone|git /i, 'git'],
+];
+
+export function classifyDeploymentError(message: string | null | undefined) {
+    // Build failures carry the whole build log; the reason is its last line
+    const reason = message?.trim().split('\n').pop();
+    if (!reason) {
+        return 'unknown';
+    }
+    return ERROR_CLASSES.find(([pattern]) => pattern.test(reason))?.[1] ?? 'other';
+}
+
+/**
+ * Prometheus metrics for the deployment pipeline. Counters and histograms are recorded
+ * by whichever process does the work; the API and the build worker primary each serve
+ * their own `/metrics`. Database and disk gauges are only registered by the API so
+ * they are not reported twice.
+ */
+class MetricsService {
+    readonly registry = new Registry();
+
+    readonly stageDuration = new Histogram({
+        name: 'filify_deployment_stage_duration_seconds',
+        help: 'Duration of deployment stages (queued, clone, install, build, car, upload, ens_signature, ens_confirmation)',
+        labelNames: ['stage', 'outcome'] as const,
+        buckets: STAGE_DURATION_BUCKETS,
+        registers: [this.registry],
+    });
+
+    readonly deploymentFailures = new Counter({
+        name: 'filify_deployment_failures_total',
+        help: 'Failed deployments by the stage they failed in and error class',
+        labelNames: ['stage', 'error_class'] as const,
+        registers: [this.registry],
+    });
+
+    readonly uploadBytes = new Counter({
+        name: 'filify_filecoin_upload_bytes_total',
+        help: 'Bytes of CAR data uploaded to Filecoin storage providers',
+        registers: [this.registry],
+    });
+
+    readonly storageProviderFailures = new Counter({
+        name: 'filify_storage_provider_failures_total',
+        help: 'Failed Filecoin uploads by storage provider',
+        labelNames: ['provider_id'] as const,
+        registers: [this.registry],
+    });
+
+    readonly webhookOutcomes = new Counter({
+        name: 'filify_github_webhooks_total',
+        help: 'GitHub webhook deliveries by outcome',
+        labelNames: ['outcome'] as const,
+        registers: [this.registry],
+    });
+
+    private systemGaugesRegistered = false;
+    private diskUsage: { measuredAt: number; values: Record<string, number> } | null = null;
+
+    constructor() {
+        collectDefaultMetrics({ register: this.registry });
+    }
+
+    /** Queue depth, active builds and disk usage, read from shared state on each scrape. */
+    registerSystemGauges() {
+        if (this.systemGaugesRegistered) {
+            return;
+        }
+        this.systemGaugesRegistered = true;
+
+        const countJobs = async (status: string) => {
+            const [row] = await db
+                .select({ value: count() })
+                .from(deploymentJobs)
+                .where(eq(deploymentJobs.status, status));
+            return row?.value ?? 0;
+        };
+
+        new Gauge({
+            name: 'filify_deployment_queue_depth',
+            help: 'Deployment jobs waiting for a build slot',
+            registers: [this.registry],
+            async collect() {
+                this.set(await countJobs('queued'));
+            },
+        });
+
+        new Gauge({
+            name: 'filify_active_builds',
+            help: 'Deployment jobs currently running on a build worker',
+            registers: [this.registry],
+            async collect() {
+                this.set(await countJobs('running'));
+            },
+        });
+
+        const measureDiskUsage = () => this.measureDiskUsage();
+        new Gauge({
+            name: 'filify_build_disk_usage_bytes',
+            help: 'Disk used by build directories and the build cache',
+            labelNames: ['dir'] as const,
+            registers: [this.registry],
+            async collect() {
+                const usage = await measureDiskUsage();
+                for (const [dir, bytes] of Object.entries(usage)) {
+                    this.set({ dir }, bytes);
+                }
+            },
+        });
+    }
+
+    private async measureDiskUsage() {
+        if (this.diskUsage && Date.now() - this.diskUsage.measuredAt < DISK_USAGE_CACHE_MS) {
+            return this.diskUsage.values;
+        }
+        const [builds, buildCache] = await Promise.all([
+            getDirectorySizeBytes(getBuildsRoot()),
+            getDirectorySizeBytes(getBuildCacheRoot()),
+        ]);
+        this.diskUsage = { measuredAt: Date.now(), values: { builds, build_cache: buildCache } };
+        return this.diskUsage.values;
+    }
+}
+
+export const metrics = new MetricsService();
@@ -0,0 +1,98 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { constants as fsConstants } from 'fs';
+import { env } from '../config/env';
+import { logger } from '../utils/logger';
+import { getNodeToolchainsRoot } from '../utils/paths';
+import { parseNodeVersionSpec, selectNodeVersion, type NodeVersionRequest } from '../utils/node-version';
+
+export interface NodeToolchain {
+    version: string;
+    /** Directory holding `node`, `npm` and `corepack`; prepended to the build PATH. */
+    binDir: string;
+    source: 'toolchain' | 'host';
+}
+
+const SOURCE_LABELS: Record<NodeVersionRequest['source'], string> = {
+    project: 'project setting',
+    '.nvmrc': '.nvmrc',
+    '.node-version': '.node-version',
+    engines: 'package.json engines.node',
+};
+
+export function describeNodeVersionRequest(request: NodeVersionRequest) {
+    return `"${request.spec}" from ${SOURCE_LABELS[request.source]}`;
+}
+
+/**
+ * Node.js versions available to builds. Versions are unpacked Node.js release archives
+ * in NODE_TOOLCHAINS_DIR, one directory per version (e.g. `v20.11.1/bin/node`); nothing
+ * is downloaded at build time. The backend's own Node.js counts as one more version for
+ * executors that run on the host filesystem.
+ */
+class NodeToolchainService {
+    get root() {
+        return env.NODE_TOOLCHAINS_DIR ?? getNodeToolchainsRoot();
+    }
+
+    async listInstalled(): Promise<NodeToolchain[]> {
+        const entries = await fs.readdir(this.root, { withFileTypes: true }).catch(() => []);
+        const toolchains: NodeToolchain[] = [];
+        for (const entry of entries) {
+            const version = entry.name.match(/(\d+\.\d+\.\d+)/)?.[1];
+            if (!version || !(entry.isDirectory() || entry.isSymbolicLink())) {
+                continue;
+            }
+            const binDir = path.join(this.root, entry.name, 'bin');
+            const executable = await fs
+                .access(path.join(binDir, 'node'), fsConstants.X_OK)
+                .then(() => true)
+                .catch(() => false);
+            if (executable) {
+                toolchains.push({ version, binDir, source: 'toolchain' });
+            } else {
+                logger.warn('Ignoring Node.js toolchain without an executable bin/node', { dir: entry.name });
+            }
+        }
+        return toolchains;
+    }
+
+    getHostToolchain(): NodeToolchain {
+        return { version: process.versions.node, binDir: path.dirname(process.execPath), source: 'host' };
+    }
+
+    /**
+     * Pick the highest available version matching the request. Throws with the list of
+     * available versions when none matches.
+     */
+    async resolve(request: NodeVersionRequest, options: { includeHost: boolean }): Promise<NodeToolchain> {
+        const parsed = parseNodeVersionSpec(request.spec);
+        if (!parsed) {
+            throw new Error(`Unsupported Node.js version ${describeNodeVersionRequest(request)}`);
+        }
+
+        const available = await this.listInstalled();
+        if (options.includeHost) {
+            available.push(this.getHostToolchain());
+        }
+
+        const version = selectNodeVersion(
+            parsed,
+            available.map((toolchain) => toolchain.version)
+        );
+        if (!version) {
+            const installed = [...new Set(available.map((toolchain) => toolchain.version))].join(', ') || 'none';
+            throw new Error(
+                `Node.js ${describeNodeVersionRequest(request)} is not available on the build server (available: ${installed})`
+            );
+        }
+
+        // Prefer the toolchain copy over the host's Node.js when both have the version
+        return (
+            available.find((toolchain) => toolchain.version === version && toolchain.source === 'toolchain') ??
+            available.find((toolchain) => toolchain.version === version)!
+        );
+    }
+}
+
+export const nodeToolchainService = new NodeToolchainService();
@@ -0,0 +1,118 @@
+import { and, asc, eq } from 'drizzle-orm';
+import { db } from '../db';
+import { projectEnvVars } from '../db/schema';
+import { encryptionService } from './encryption.service';
+import { logger } from '../utils/logger';
+
+export type EnvVarTarget = 'all' | 'production' | 'preview';
+export type BuildEnvironment = Exclude<EnvVarTarget, 'all'>;
+
+/** Variables the build sandbox sets itself; user values would break isolation or caching. */
+export const RESERVED_ENV_KEYS = new Set([
+    'PATH',
+    'HOME',
+    'CI',
+    'COREPACK_HOME',
+    'COREPACK_ENABLE_DOWNLOAD_PROMPT',
+    'npm_config_cache',
+    'npm_config_store_dir',
+    'YARN_CACHE_FOLDER',
+    'YARN_GLOBAL_FOLDER',
+    'BUN_INSTALL_CACHE_DIR',
+]);
+
+/** Values shorter than this are not masked; masking "1" or "on" would shred the log. */
+const MIN_MASKED_VALUE_LENGTH = 4;
+
+type ProjectEnvVarRow = typeof projectEnvVars.$inferSelect;
+
+export interface ProjectEnvVarView {
+    id: string;
+    key: string;
+    /** Null for secrets: their values are write-only. */
+    value: string | null;
+    isSecret: boolean;
+    target: EnvVarTarget;
+    branch: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface ResolvedBuildEnv {
+    variables: Record<string, string>;
+    /** Values to scrub from build output. */
+    maskedValues: string[];
+}
+
+class ProjectEnvService {
+    toView(row: ProjectEnvVarRow): ProjectEnvVarView {
+        return {
+            id: row.id,
+            key: row.key,
+            value: row.isSecret ? null : encryptionService.decrypt(row.valueEncrypted),
+            isSecret: row.isSecret,
+            target: row.target as EnvVarTarget,
+            branch: row.branch,
+            createdAt: row.createdAt,
+            updatedAt: row.updatedAt,
+        };
+    }
+
+    async list(projectId: string): Promise<ProjectEnvVarView[]> {
+        const rows = await db.query.projectEnvVars.findMany({
+            where: eq(projectEnvVars.projectId, projectId),
+            orderBy: [asc(projectEnvVars.key), asc(projectEnvVars.createdAt)],
+        });
+        return rows.map((row) => this.toView(row));
+    }
+
+    async findConflict(projectId: string, key: string, target: EnvVarTarget, branch: string | null, excludeId?: string) {
+        const rows = await db.query.projectEnvVars.findMany({
+            where: and(eq(projectEnvVars.projectId, projectId), eq(projectEnvVars.key, key), eq(projectEnvVars.target, target)),
+        });
+        return rows.find((row) => row.branch === branch && row.id !== excludeId) ?? null;
+    }
+
+    /**
+     * Resolve the variables for one build. When a key is defined more than once the most
+     * specific definition wins: branch, then environment, then "all".
+     */
+    async resolveForBuild(projectId: string, branch: string, environment: BuildEnvironment): Promise<ResolvedBuildEnv> {
+        const rows = await db.query.projectEnvVars.findMany({
+            where: eq(projectEnvVars.projectId, projectId),
+        });
+
+        const specificity = (row: ProjectEnvVarRow) => (row.branch ? 2 : 0) + (row.target === 'all' ? 0 : 1);
+        const selected = new Map<string, ProjectEnvVarRow>();
+        for (const row of rows) {
+            if (row.branch && row.branch !== branch) {
+                continue;
+            }
+            if (row.target !== 'all' && row.target !== environment) {
+                continue;
+            }
+            const current = selected.get(row.key);
+            if (!current || specificity(row) > specificity(current)) {
+                selected.set(row.key, row);
+            }
+        }
+
+        const variables: Record<string, string> = {};
+        const maskedValues: string[] = [];
+        for (const [key, row] of selected) {
+            if (RESERVED_ENV_KEYS.has(key)) {
+                logger.warn('Skipping reserved build environment variable', { projectId, key });
+                continue;
+            }
+            const value = encryptionService.decrypt(row.valueEncrypted);
+            variables[key] = value;
+            if (value.length >= MIN_MASKED_VALUE_LENGTH) {
+                maskedValues.push(value);
+            }
+        }
+
+        return { variables, maskedValues };
+    }
+}
+
+export const projectEnvService = new ProjectEnvService();
@@ -2,38 +2,49 @@ import { db } from '../db';
 import { deployments } from '../db/schema';
 import { inArray, eq } from 'drizzle-orm';
 import { logger } from '../utils/logger';
+import { env } from '../config/env';
 import { buildService } from './build.service';
+import { ensService } from './ens.service';
+import { deploymentState, BUILD_STATUSES } from './deployment-state.service';
 
-const STALE_STATUSES = [
-    'pending_build',
-    'cloning',
-    'building',
-    'pending_upload',
-    'uploading',
-];
+const RESUMABLE_JOB_STATUSES = ['queued', 'running'];
 
+/** Receipts for transactions sent before a restart should be mined by now; don't wait forever. */
+const ENS_RECHECK_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Fail in-flight deployments that have no job left to resume them, e.g. ones queued
+ * before deployment jobs were persisted. Deployments with a queued or running job are
+ * left for a worker to pick up.
+ */
 export async function cancelStaleDeployments(): Promise<number> {
     try {
         const staleDeployments = await db.query.deployments.findMany({
-            where: inArray(deployments.status, STALE_STATUSES),
+            where: inArray(deployments.status, [...BUILD_STATUSES]),
+            with: { job: { columns: { status: true } } },
         });
+        const orphaned = staleDeployments.filter(
+            (deployment) => !deployment.job || !RESUMABLE_JOB_STATUSES.includes(deployment.job.status)
+        );
 
-        if (staleDeployments.length === 0) {
-            logger.info('No stale deployments found on startup');
+        if (orphaned.length === 0) {
+            logger.info('No stale deployments found on startup', {
+                resumable: staleDeployments.length,
+            });
             return 0;
         }
 
-        logger.info(`Found ${staleDeployments.length} stale deployment(s) from previous server session`);
+        logger.info(`Found ${orphaned.length} stale deployment(s) from previous server session`);
 
-        for (const deployment of staleDeployments) {
-            await db
-                .update(deployments)
-                .set({
-                    status: 'failed',
+        for (const deployment of orphaned) {
+            await deploymentState.tryTransition(deployment.id, 'failed', {
+                actor: 'system',
+                from: BUILD_STATUSES,
+                set: {
                     errorMessage: 'Server restarted while deployment was in progress',
                     completedAt: new Date(),
-                })
-                .where(eq(deployments.id, deployment.id));
+                },
+            });
 
             await buildService.cleanupDeploymentBuild(deployment.id).catch(() => {});
 
@@ -43,7 +54,7 @@ export async function cancelStaleDeployments(): Promise<number> {
             });
         }
 
-        return staleDeployments.length;
+        return orphaned.length;
     } catch (error) {
         logger.error('Failed to cancel stale deployments on startup', {
             error: error instanceof Error ? error.message : String(error),
@@ -51,3 +62,90 @@ export async function cancelStaleDeployments(): Promise<number> {
         return 0;
     }
 }
+
+/**
+ * Finish ENS confirmations interrupted by a restart. The transaction was already sent,
+ * so its receipt decides the outcome; without a tx hash the user is asked to sign again.
+ */
+export async function recheckEnsConfirmations(): Promise<number> {
+    try {
+        const pending = await db.query.deployments.findMany({
+            where: eq(deployments.status, 'awaiting_confirmation'),
+            with: { project: true },
+        });
+
+        if (pending.length > 0) {
+            logger.info(`Re-checking ${pending.length} ENS confirmation(s) from previous server session`);
+        }
+
+        await Promise.all(
+            pending.map(async (deployment) => {
+                const { project } = deployment;
+                if (!deployment.ensTxHash || !deployment.ipfsCid || !project.ensName || !project.ethereumRpcUrl) {
+                    await deploymentState.tryTransition(deployment.id, 'awaiting_signature', {
+                        actor: 'system',
+                        from: ['awaiting_confirmation'],
+                    });
+                    logger.info('ENS confirmation has no transaction to check; awaiting signature again', {
+                        deploymentId: deployment.id,
+                    });
+                    return;
+                }
+
+                try {
+                    const result = await ensService.waitForTransaction({
+                        ensName: project.ensName,
+                        txHash: deployment.ensTxHash,
+                        expectedCid: deployment.ipfsCid,
+                        rpcUrl: project.ethereumRpcUrl,
+                        timeoutMs: ENS_RECHECK_TIMEOUT_MS,
+                    });
+
+                    await deploymentState.tryTransition(deployment.id, 'success', {
+                        actor: 'system',
+                        from: ['awaiting_confirmation'],
+                        set: {
+                            buildArtifactsPath: null,
+                            completedAt: new Date(),
+                        },
+                        metadata: { txHash: result.txHash, blockNumber: result.blockNumber, verified: result.verified },
+                    });
+
+                    logger.info('Recovered ENS confirmation', {
+                        deploymentId: deployment.id,
+                        txHash: result.txHash,
+                        verified: result.verified,
+                    });
+                } catch (error) {
+                    const message = error instanceof Error ? error.message : String(error);
+                    await deploymentState.tryTransition(deployment.id, 'failed', {
+                        actor: 'system',
+                        from: ['awaiting_confirmation'],
+                        set: {
+                            errorMessage: `ENS confirmation failed: ${message}`,
+                            buildArtifactsPath: null,
+                            completedAt: new Date(),
+                        },
+                        metadata: { txHash: deployment.ensTxHash, error: message },
+                    });
+
+                    logger.warn('ENS confirmation failed after restart', {
+                        deploymentId: deployment.id,
+                        error: message,
+                    });
+                }
+
+                if (env.CLEANUP_BUILDS_ON_COMPLETE) {
+                    await buildService.cleanupDeploymentBuild(deployment.id).catch(() => {});
+                }
+            })
+        );
+
+        return pending.length;
+    } catch (error) {
+        logger.error('Failed to re-check ENS confirmations on startup', {
+            error: error instanceof Error ? error.message : String(error),
+        });
+        return 0;
+    }
+}
@@ -1,10 +1,13 @@
 import path from 'path';
 import fs from 'fs/promises';
-import { createReadStream, createWriteStream } from 'fs';
+import { createReadStream, createWriteStream, type Dirent, type WriteStream } from 'fs';
 import { once } from 'events';
 import type { CID } from 'multiformats/cid';
 import { logger } from './logger';
 import { dynamicImport } from './dynamic-import';
+import { getContentType } from './content-type';
+import { IGNORE_FILENAME, type IgnoreMatcher } from './ignore-rules';
+import { DEFAULT_UNIXFS_SETTINGS, MAX_CHUNK_SIZE, type UnixfsSettings } from './unixfs-settings';
 
 const IGNORED_ENTRIES = new Set([
   '.git',
@@ -13,18 +16,52 @@ const IGNORED_ENTRIES = new Set([
   '.gitmodules',
   'node_modules',
   '__MACOSX',
+  '.filify',
+  IGNORE_FILENAME,
 ]);
 
+/** Git LFS pointer files are small text files starting with this line. */
+const LFS_POINTER_PREFIX = 'version https://git-lfs.github.com/spec/';
+const LFS_POINTER_MAX_BYTES = 1024;
+
 interface DirectorySummary {
   totalFiles: number;
   totalDirectories: number;
   sampleEntries: string[];
+  /** Files that are still Git LFS pointers rather than their content. */
+  lfsPointerFiles: string[];
+  /** Files and directories excluded by the project's ignore file. */
+  ignoredEntries: string[];
+}
+
+interface CarWriteStats {
+  blockCount: number;
+  /** Total size of the blocks, without the CAR framing. */
+  blockBytes: number;
+  carBytes: number;
+}
+
+/** One file of the deployment, as recorded in its manifest. */
+export interface ManifestFile {
+  /** Path inside the deployment, with forward slashes. */
+  path: string;
+  size: number;
+  contentType: string;
+  /** UnixFS CID of the file within the CAR. */
+  cid: string;
+}
+
+interface CarBuildOptions {
+  unixfs?: UnixfsSettings;
+  ignore?: IgnoreMatcher | null;
 }
 
 interface CarBuildResult {
   carPath: string;
   rootCid: string;
   summary: DirectorySummary;
+  stats: CarWriteStats;
+  files: ManifestFile[];
 }
 
 function isAsyncIterable<T>(input: unknown): input is AsyncIterable<T> {
@@ -61,51 +98,129 @@ async function collectBytes(data: Uint8Array | AsyncIterable<Uint8Array> | Itera
   return buffer;
 }
 
-class MemoryBlockstore {
-  private readonly blocks = new Map<string, Uint8Array>();
+/** Codes for the placeholder root written before the real one is known. */
+const DAG_PB_CODE = 0x70;
+const SHA2_256_CODE = 0x12;
+
+/**
+ * Blockstore for the importer that appends each block to the CAR file as it is
+ * produced, so memory stays bounded however large the site is. Only CIDs are kept, to
+ * skip duplicate blocks. The header is written with a placeholder root of the same
+ * length, which is patched once the importer has produced the real root.
+ */
+class CarFileBlockstore {
+  private readonly seen = new Set<string>();
+  private blockCount = 0;
+  private blockBytes = 0;
+
+  private constructor(
+    private readonly destination: string,
+    private readonly writer: any,
+    private readonly output: WriteStream,
+    private readonly flushed: Promise<void>
+  ) {
+    // Failures surface through put() and finish()
+    flushed.catch(() => undefined);
+  }
 
-  async put(cid: CID, bytes: Uint8Array | AsyncIterable<Uint8Array> | Iterable<Uint8Array>) {
-    const normalized = await collectBytes(bytes);
-    this.blocks.set(cid.toString(), normalized);
+  static async create(destination: string) {
+    const { CarWriter } = await dynamicImport('@ipld/car/writer');
+    const { CID } = await dynamicImport('multiformats/cid');
+    const Digest = await dynamicImport('multiformats/hashes/digest');
+    const placeholderRoot = CID.createV1(DAG_PB_CODE, Digest.create(SHA2_256_CODE, new Uint8Array(32)));
+
+    await fs.mkdir(path.dirname(destination), { recursive: true });
+    const output = createWriteStream(destination);
+    const { writer, out } = await CarWriter.create([placeholderRoot]);
+    const flushed = (async () => {
+      for await (const chunk of out) {
+        if (!output.write(chunk)) {
+          await once(output, 'drain');
+        }
+      }
+      output.end();
+      await once(output, 'finish');
+    })();
+    return new CarFileBlockstore(destination, writer, output, flushed);
   }
 
-  async get(cid: CID) {
-    const block = this.blocks.get(cid.toString());
-    if (!block) {
-      throw new Error(`Missing block for CID ${cid.toString()}`);
+  async put(cid: CID, bytes: Uint8Array | AsyncIterable<Uint8Array> | Iterable<Uint8Array>) {
+    const key = cid.toString();
+    if (this.seen.has(key)) {
+      return cid;
     }
-    return block;
+    this.seen.add(key);
+    const block = await collectBytes(bytes);
+    this.blockCount++;
+    this.blockBytes += block.byteLength;
+    // writer.put resolves once the block is written, or never if the file stream failed
+    await Promise.race([this.writer.put({ cid, bytes: block }), this.flushed]);
+    return cid;
   }
 
-  async *entries() {
-    const { CID } = await dynamicImport('multiformats/cid');
-    for (const [key, bytes] of this.blocks.entries()) {
-      yield { cid: CID.parse(key), bytes };
+  /** Flush the remaining blocks and write the real root into the header. */
+  async finish(rootCid: CID): Promise<CarWriteStats> {
+    await this.writer.close();
+    await this.flushed;
+    const { CarWriter } = await dynamicImport('@ipld/car/writer');
+    const handle = await fs.open(this.destination, 'r+');
+    try {
+      await CarWriter.updateRootsInFile(handle, [rootCid]);
+    } finally {
+      await handle.close();
     }
+    const { size } = await fs.stat(this.destination);
+    return { blockCount: this.blockCount, blockBytes: this.blockBytes, carBytes: size };
   }
 
-  async has(cid: CID) {
-    return this.blocks.has(cid.toString());
+  /** Close the file after a failed import; the partial CAR is left for the build dir cleanup. */
+  abort() {
+    this.output.destroy();
   }
+}
 
-  clear() {
-    this.blocks.clear();
+async function isLfsPointer(filePath: string) {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const { size } = await handle.stat();
+    if (size > LFS_POINTER_MAX_BYTES) {
+      return false;
+    }
+    const buffer = Buffer.alloc(LFS_POINTER_PREFIX.length);
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+    return buffer.toString('utf-8', 0, bytesRead) === LFS_POINTER_PREFIX;
+  } finally {
+    await handle.close();
   }
 }
 
-async function summarizeDirectory(rootDir: string): Promise<DirectorySummary> {
+/** Path of `entry` inside the output, with forward slashes. */
+function toRelativePath(relativePrefix: string, name: string) {
+  return relativePrefix ? `${relativePrefix}/${name}` : name;
+}
+
+function isExcluded(entry: Dirent, relativePath: string, ignore?: IgnoreMatcher | null) {
+  return IGNORED_ENTRIES.has(entry.name) || Boolean(ignore?.ignores(relativePath, entry.isDirectory()));
+}
+
+async function summarizeDirectory(rootDir: string, ignore?: IgnoreMatcher | null): Promise<DirectorySummary> {
   let totalFiles = 0;
   let totalDirectories = 0;
   const sampleEntries: string[] = [];
+  const lfsPointerFiles: string[] = [];
+  const ignoredEntries: string[] = [];
 
   async function walk(currentDir: string, relativePrefix: string) {
     const entries = await fs.readdir(currentDir, { withFileTypes: true });
     for (const entry of entries) {
-      if (IGNORED_ENTRIES.has(entry.name)) {
+      const relativePath = toRelativePath(relativePrefix, entry.name);
+      if (isExcluded(entry, relativePath, ignore)) {
+        if (!IGNORED_ENTRIES.has(entry.name)) {
+          ignoredEntries.push(entry.isDirectory() ? `${relativePath}/` : relativePath);
+        }
         continue;
       }
 
-      const relativePath = relativePrefix === '.' ? entry.name : path.join(relativePrefix, entry.name);
       const fullPath = path.join(currentDir, entry.name);
       if (entry.isDirectory()) {
         totalDirectories++;
@@ -121,74 +236,83 @@ async function summarizeDirectory(rootDir: string): Promise<DirectorySummary> {
         if (sampleEntries.length < 25) {
           sampleEntries.push(relativePath);
         }
+        if (await isLfsPointer(fullPath)) {
+          lfsPointerFiles.push(relativePath);
+        }
       }
     }
   }
 
-  await walk(rootDir, '.');
+  await walk(rootDir, '');
 
   return {
     totalFiles,
     totalDirectories,
     sampleEntries,
+    lfsPointerFiles,
+    ignoredEntries,
   };
 }
 
+/** Files to import; their sizes are recorded in `sizes` by path as they are read. */
 async function* iterateFiles(
   currentDir: string,
-  baseDir: string
+  relativePrefix: string,
+  sizes: Map<string, number>,
+  ignore?: IgnoreMatcher | null
 ): AsyncGenerator<{ path: string; content: NodeJS.ReadableStream }> {
   const entries = await fs.readdir(currentDir, { withFileTypes: true });
 
   for (const entry of entries) {
-    if (IGNORED_ENTRIES.has(entry.name)) {
+    const relativePath = toRelativePath(relativePrefix, entry.name);
+    if (isExcluded(entry, relativePath, ignore)) {
       continue;
     }
 
     const fullPath = path.join(currentDir, entry.name);
     if (entry.isDirectory()) {
-      yield* iterateFiles(fullPath, baseDir);
+      yield* iterateFiles(fullPath, relativePath, sizes, ignore);
       continue;
     }
 
     if (entry.isFile()) {
-      const relativePath = path.relative(baseDir, fullPath).split(path.sep).join('/');
+      sizes.set(relativePath, (await fs.stat(fullPath)).size);
       yield {
-        path: relativePath.length === 0 ? entry.name : relativePath,
+        path: relativePath,
         content: createReadStream(fullPath),
       };
     }
   }
 }
 
-async function writeCarFile(blockstore: MemoryBlockstore, rootCid: CID, destination: string) {
-  const { CarWriter } = await dynamicImport('@ipld/car/writer');
-  await fs.mkdir(path.dirname(destination), { recursive: true });
-  const output = createWriteStream(destination);
-  const { writer, out } = await CarWriter.create([rootCid]);
-
-  const writerStream = (async () => {
-    for await (const chunk of out) {
-      if (!output.write(chunk)) {
-        await once(output, 'drain');
-      }
-    }
-    output.end();
-  })();
-
-  for await (const { cid, bytes } of blockstore.entries()) {
-    await writer.put({ cid, bytes });
-  }
-  await writer.close();
-  await writerStream;
+/** Importer options that produce the CIDs described by `settings`. */
+async function toImporterOptions(settings: UnixfsSettings) {
+  const { fixedSize, rabin } = await dynamicImport('ipfs-unixfs-importer/chunker');
+  const chunker =
+    settings.chunker === 'rabin'
+      ? rabin({
+        avgChunkSize: settings.chunkSize,
+        minChunkSize: Math.floor(settings.chunkSize / 3),
+        maxChunkSize: Math.min(Math.floor(settings.chunkSize * 1.5), MAX_CHUNK_SIZE),
+      })
+      : fixedSize({ chunkSize: settings.chunkSize });
+  return {
+    cidVersion: settings.cidVersion,
+    rawLeaves: settings.rawLeaves,
+    chunker,
+    shardSplitThresholdBytes: settings.shardSplitThresholdBytes,
+    wrapWithDirectory: true,
+  };
 }
 
 export async function buildCarFromDirectory(
   sourceDir: string,
   deploymentId: string,
-  carFilePath: string
+  carFilePath: string,
+  options: CarBuildOptions = {}
 ): Promise<CarBuildResult> {
-  const summary = await summarizeDirectory(sourceDir);
+  const settings = options.unixfs ?? DEFAULT_UNIXFS_SETTINGS;
+  const summary = await summarizeDirectory(sourceDir, options.ignore);
 
   if (summary.totalFiles === 0) {
     throw new Error(`No files available in ${sourceDir} to include in CAR`);
@@ -200,36 +324,55 @@ export async function buildCarFromDirectory(
     totalFiles: summary.totalFiles,
     totalDirectories: summary.totalDirectories,
     sampleEntries: summary.sampleEntries,
+    ignoredEntries: summary.ignoredEntries.length,
   });
 
-  const blockstore = new MemoryBlockstore();
-  let rootCid: CID | null = null;
-
-  const { importer } = await dynamicImport('ipfs-unixfs-importer');
-  for await (const entry of importer(iterateFiles(sourceDir, sourceDir), blockstore as any, {
-    cidVersion: 1,
-    wrapWithDirectory: true,
-    rawLeaves: true,
-  })) {
-    rootCid = entry.cid;
+  if (summary.lfsPointerFiles.length > 0) {
+    logger.warn('Output contains Git LFS pointer files', {
+      deploymentId,
+      count: summary.lfsPointerFiles.length,
+      sample: summary.lfsPointerFiles.slice(0, 10),
+    });
   }
 
-  if (!rootCid) {
-    throw new Error('Failed to determine CAR root CID');
-  }
+  const blockstore = await CarFileBlockstore.create(carFilePath);
+  let rootCid: CID | null = null;
+  let stats: CarWriteStats;
+  const sizes = new Map<string, number>();
+  const files: ManifestFile[] = [];
+  try {
+    const { importer } = await dynamicImport('ipfs-unixfs-importer');
+    const importerOptions = await toImporterOptions(settings);
+    for await (const entry of importer(iterateFiles(sourceDir, '', sizes, options.ignore), blockstore, importerOptions)) {
+      // Directories, including the wrapping root, are yielded too
+      const size = sizes.get(entry.path);
+      if (size !== undefined) {
+        files.push({ path: entry.path, size, contentType: getContentType(entry.path), cid: entry.cid.toString() });
+      }
+      rootCid = entry.cid;
+    }
 
-  await writeCarFile(blockstore, rootCid, carFilePath);
-  blockstore.clear();
+    if (!rootCid) {
+      throw new Error('Failed to determine CAR root CID');
+    }
+    stats = await blockstore.finish(rootCid);
+  } catch (error) {
+    blockstore.abort();
+    throw error;
+  }
 
   logger.info('CAR file generated successfully', {
     deploymentId,
     carFilePath,
     rootCid: rootCid.toString(),
+    ...stats,
   });
 
   return {
     carPath: carFilePath,
     rootCid: rootCid.toString(),
     summary,
+    stats,
+    files,
   };
 }
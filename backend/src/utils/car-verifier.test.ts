@@ -0,0 +1,154 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { CarWriter } from '@ipld/car/writer';
+import * as dagPb from '@ipld/dag-pb';
+import { CID } from 'multiformats/cid';
+import * as raw from 'multiformats/codecs/raw';
+import { sha256 } from 'multiformats/hashes/sha2';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { checkProviderPieceCid, verifyCarFile } from './car-verifier';
+
+// The runtime `import()` wrapper has no module loader under vitest; load through vitest instead
+vi.mock('./dynamic-import', () => ({ dynamicImport: (specifier: string) => import(specifier) }));
+
+interface Block {
+  cid: CID;
+  bytes: Uint8Array;
+}
+
+async function rawBlock(text: string): Promise<Block> {
+  const bytes = raw.encode(new TextEncoder().encode(text));
+  return { cid: CID.create(1, raw.code, await sha256.digest(bytes)), bytes };
+}
+
+async function directoryBlock(children: Array<[string, Block]>): Promise<Block> {
+  const bytes = dagPb.encode(
+    dagPb.prepare({
+      Data: new Uint8Array([0x08, 0x01]),
+      Links: children.map(([name, child]) => ({ Name: name, Hash: child.cid, Tsize: child.bytes.byteLength })),
+    })
+  );
+  return { cid: CID.create(1, dagPb.code, await sha256.digest(bytes)), bytes };
+}
+
+describe('verifyCarFile', () => {
+  let dir: string;
+  let index: Block;
+  let style: Block;
+  let root: Block;
+
+  async function writeCar(name: string, roots: CID[], blocks: Block[]) {
+    const { writer, out } = CarWriter.create(roots);
+    const chunks: Uint8Array[] = [];
+    const collected = (async () => {
+      for await (const chunk of out) {
+        chunks.push(chunk);
+      }
+    })();
+    for (const block of blocks) {
+      await writer.put(block);
+    }
+    await writer.close();
+    await collected;
+    const carPath = path.join(dir, name);
+    await fs.writeFile(carPath, Buffer.concat(chunks));
+    return carPath;
+  }
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'car-verifier-'));
+    index = await rawBlock('<h1>Hello</h1>');
+    style = await rawBlock('h1 { color: red; }');
+    root = await directoryBlock([
+      ['index.html', index],
+      ['style.css', style],
+    ]);
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('passes a complete CAR and computes its piece CID', async () => {
+    const carPath = await writeCar('valid.car', [root.cid], [root, index, style]);
+    const result = await verifyCarFile(carPath, root.cid.toString());
+
+    expect(result.error).toBeNull();
+    expect(result.status).toBe('passed');
+    expect(result.blockCount).toBe(3);
+    expect(result.reachableBlocks).toBe(3);
+    expect(result.carBytes).toBe((await fs.stat(carPath)).size);
+    expect(result.pieceCid).toMatch(/^bafkzcib/);
+  });
+
+  it('fails when the header names a different root', async () => {
+    const carPath = await writeCar('wrong-root.car', [index.cid], [root, index, style]);
+    const result = await verifyCarFile(carPath, root.cid.toString());
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toContain(`expected ${root.cid}`);
+  });
+
+  it('fails when a block does not hash to its CID', async () => {
+    const corrupted = { cid: style.cid, bytes: new TextEncoder().encode('h1 { color: blue; }') };
+    const carPath = await writeCar('corrupted.car', [root.cid], [root, index, corrupted]);
+    const result = await verifyCarFile(carPath, root.cid.toString());
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toBe(`block ${style.cid} does not match its CID`);
+    expect(result.pieceCid).toBeNull();
+  });
+
+  it('fails when a linked block is missing', async () => {
+    const carPath = await writeCar('missing.car', [root.cid], [root, index]);
+    const result = await verifyCarFile(carPath, root.cid.toString());
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toBe(`DAG is incomplete: block ${style.cid} is linked but not in the CAR`);
+    expect(result.blockCount).toBe(2);
+  });
+
+  it('fails when the CAR is truncated', async () => {
+    const validPath = await writeCar('complete.car', [root.cid], [root, index, style]);
+    const bytes = await fs.readFile(validPath);
+    const carPath = path.join(dir, 'truncated.car');
+    await fs.writeFile(carPath, bytes.subarray(0, bytes.byteLength - 5));
+    const result = await verifyCarFile(carPath, root.cid.toString());
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toMatch(/^CAR is truncated or malformed/);
+  });
+});
+
+describe('checkProviderPieceCid', () => {
+  const verification = {
+    status: 'passed' as const,
+    rootCid: 'bafyroot',
+    blockCount: 3,
+    reachableBlocks: 3,
+    carBytes: 512,
+    pieceCid: 'bafkzcibpiece',
+    providerPieceCid: null,
+    error: null,
+    verifiedAt: new Date(0).toISOString(),
+  };
+
+  it('passes when the provider reports the same piece CID', () => {
+    const result = checkProviderPieceCid(verification, 'bafkzcibpiece');
+    expect(result.status).toBe('passed');
+    expect(result.providerPieceCid).toBe('bafkzcibpiece');
+  });
+
+  it('fails when the provider reports a different piece CID', () => {
+    const result = checkProviderPieceCid(verification, 'bafkzcibother');
+    expect(result.status).toBe('failed');
+    expect(result.error).toContain('bafkzcibother');
+  });
+
+  it('fails when the provider reports no piece CID', () => {
+    const result = checkProviderPieceCid(verification, null);
+    expect(result.status).toBe('failed');
+    expect(result.error).toBe('storage provider did not report a piece CID');
+  });
+});
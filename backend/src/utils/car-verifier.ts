@@ -0,0 +1,165 @@
+import fs from 'fs/promises';
+import { createReadStream } from 'fs';
+import { Readable } from 'stream';
+import type { CID } from 'multiformats/cid';
+import { dynamicImport } from './dynamic-import';
+
+const DAG_PB_CODE = 0x70;
+const RAW_CODE = 0x55;
+const IDENTITY_CODE = 0x00;
+const SHA2_256_CODE = 0x12;
+const SHA2_512_CODE = 0x13;
+
+/** Result of re-reading a deployment's CAR, stored on the deployment. */
+export interface CarVerification {
+  status: 'passed' | 'failed';
+  rootCid: string;
+  blockCount: number;
+  /** Blocks linked from the root, including the root itself. */
+  reachableBlocks: number;
+  carBytes: number;
+  /** Piece CID computed from the CAR file. */
+  pieceCid: string | null;
+  /** Piece CID the storage provider reported for the upload; null until uploaded. */
+  providerPieceCid: string | null;
+  error: string | null;
+  verifiedAt: string;
+}
+
+export class CarVerificationError extends Error {
+  constructor(message: string) {
+    super(`CAR verification failed: ${message}`);
+    this.name = 'CarVerificationError';
+  }
+}
+
+async function loadHashers() {
+  const { sha256, sha512 } = await dynamicImport('multiformats/hashes/sha2');
+  return new Map<number, { digest(bytes: Uint8Array): Promise<{ bytes: Uint8Array }> | { bytes: Uint8Array } }>([
+    [SHA2_256_CODE, sha256],
+    [SHA2_512_CODE, sha512],
+  ]);
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array) {
+  return a.byteLength === b.byteLength && a.every((byte, index) => byte === b[index]);
+}
+
+/** Walk the DAG from the root; returns the number of blocks reached, or the first missing link. */
+function walkDag(rootCid: string, links: Map<string, string[]>) {
+  const visited = new Set<string>([rootCid]);
+  const queue = [rootCid];
+  while (queue.length > 0) {
+    const cid = queue.pop()!;
+    const children = links.get(cid);
+    if (!children) {
+      return { reachable: visited.size, missing: cid };
+    }
+    for (const child of children) {
+      if (!visited.has(child)) {
+        visited.add(child);
+        queue.push(child);
+      }
+    }
+  }
+  return { reachable: visited.size, missing: null };
+}
+
+/**
+ * Re-read a CAR file in one pass: the header must name `expectedRootCid`, every block
+ * must hash to its CID, and every block linked from the root must be present. The
+ * Filecoin piece CID is computed from the same bytes. Content problems are reported in
+ * the result rather than thrown.
+ */
+export async function verifyCarFile(carPath: string, expectedRootCid: string): Promise<CarVerification> {
+  const { CarBlockIterator } = await dynamicImport('@ipld/car/iterator');
+  const dagPb = await dynamicImport('@ipld/dag-pb');
+  const { createPieceCIDStream } = await dynamicImport('@filoz/synapse-core/piece');
+  const hashers = await loadHashers();
+
+  const { size: carBytes } = await fs.stat(carPath);
+  const result: CarVerification = {
+    status: 'passed',
+    rootCid: expectedRootCid,
+    blockCount: 0,
+    reachableBlocks: 0,
+    carBytes,
+    pieceCid: null,
+    providerPieceCid: null,
+    error: null,
+    verifiedAt: new Date().toISOString(),
+  };
+  const fail = (error: string) => ({ ...result, status: 'failed' as const, error });
+
+  // Blocks by CID with the CIDs they link to; identity CIDs carry their data inline
+  const links = new Map<string, string[]>();
+  const piece = createPieceCIDStream();
+  const file = createReadStream(carPath);
+  try {
+    const source = (Readable.toWeb(file) as any).pipeThrough(piece.stream);
+    const iterator = await CarBlockIterator.fromIterable(source);
+    const roots: CID[] = await iterator.getRoots();
+    if (roots.length !== 1 || roots[0].toString() !== expectedRootCid) {
+      return fail(`header names root ${roots.map(String).join(', ') || '(none)'}, expected ${expectedRootCid}`);
+    }
+
+    for await (const { cid, bytes } of iterator as AsyncIterable<{ cid: CID; bytes: Uint8Array }>) {
+      result.blockCount++;
+      const hasher = hashers.get(cid.multihash.code);
+      if (!hasher) {
+        return fail(`block ${cid} uses unsupported hash function 0x${cid.multihash.code.toString(16)}`);
+      }
+      const digest = await hasher.digest(bytes);
+      if (!bytesEqual(digest.bytes, cid.multihash.bytes)) {
+        return fail(`block ${cid} does not match its CID`);
+      }
+
+      if (cid.code === DAG_PB_CODE) {
+        const node = dagPb.decode(bytes);
+        links.set(
+          cid.toString(),
+          node.Links.filter((link: { Hash: CID }) => link.Hash.multihash.code !== IDENTITY_CODE).map((link: { Hash: CID }) =>
+            link.Hash.toString()
+          )
+        );
+      } else if (cid.code === RAW_CODE) {
+        links.set(cid.toString(), []);
+      } else {
+        return fail(`block ${cid} uses unsupported codec 0x${cid.code.toString(16)}`);
+      }
+    }
+  } catch (error) {
+    return fail(`CAR is truncated or malformed: ${(error as Error).message}`);
+  } finally {
+    // Stop reading when a check fails part way through
+    file.destroy();
+  }
+
+  const dag = walkDag(expectedRootCid, links);
+  result.reachableBlocks = dag.reachable;
+  if (dag.missing) {
+    return fail(`DAG is incomplete: block ${dag.missing} is linked but not in the CAR`);
+  }
+
+  result.pieceCid = piece.getPieceCID()?.toString() ?? null;
+  if (!result.pieceCid) {
+    return fail('piece CID could not be computed');
+  }
+  return result;
+}
+
+/** Compare the provider's piece CID with the one computed before upload. */
+export function checkProviderPieceCid(verification: CarVerification, providerPieceCid: string | null): CarVerification {
+  const checked = { ...verification, providerPieceCid, verifiedAt: new Date().toISOString() };
+  if (!providerPieceCid) {
+    return { ...checked, status: 'failed', error: 'storage provider did not report a piece CID' };
+  }
+  if (providerPieceCid !== verification.pieceCid) {
+    return {
+      ...checked,
+      status: 'failed',
+      error: `storage provider reported piece CID ${providerPieceCid}, but the CAR's piece CID is ${verification.pieceCid}`,
+    };
+  }
+  return checked;
+}
@@ -0,0 +1,70 @@
+import { execFile } from 'child_process';
+import path from 'path';
+import fs from 'fs/promises';
+import { promisify } from 'util';
+import { logger } from './logger';
+
+const execFileAsync = promisify(execFile);
+
+async function run(file: string, args: string[]) {
+    try {
+        await execFileAsync(file, args);
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            throw new Error(`${file} is not installed; the build sandbox needs it to enforce the disk limit`);
+        }
+        throw error;
+    }
+}
+
+export function getQuotaImagePath(dir: string): string {
+    return `${dir}.img`;
+}
+
+/**
+ * Turn `dir` into a size-capped filesystem: an ext4 image of `sizeMb`, mounted over it
+ * with fuse2fs. Writes past the size fail with ENOSPC instead of filling the host disk.
+ * The image is sparse, so it only takes up the space in use. Needs fuse2fs (e2fsprogs)
+ * and fusermount, not root; `allowOther` lets a root container daemon in.
+ */
+export async function mountQuotaDir(dir: string, sizeMb: number, options: { allowOther?: boolean } = {}) {
+    await unmountQuotaDir(dir);
+    await fs.rm(dir, { recursive: true, force: true });
+    await fs.mkdir(dir, { recursive: true });
+
+    const image = getQuotaImagePath(dir);
+    const handle = await fs.open(image, 'w');
+    try {
+        await handle.truncate(sizeMb * 1024 * 1024);
+    } finally {
+        await handle.close();
+    }
+
+    // The image is thrown away after the build: no journal, and no blocks reserved for root
+    const owner = process.getuid && process.getgid ? ['-E', `root_owner=${process.getuid()}:${process.getgid()}`] : [];
+    await run('mkfs.ext4', ['-q', '-F', '-m', '0', '-O', '^has_journal', ...owner, image]);
+    await run('fuse2fs', [image, dir, ...(options.allowOther ? ['-o', 'allow_other'] : [])]);
+    await fs.rm(path.join(dir, 'lost+found'), { recursive: true, force: true });
+}
+
+/** Unmount a directory set up by mountQuotaDir and delete its image; the directory itself stays. */
+export async function unmountQuotaDir(dir: string) {
+    const image = getQuotaImagePath(dir);
+    const hasImage = await fs
+        .access(image)
+        .then(() => true)
+        .catch(() => false);
+    if (!hasImage) {
+        return;
+    }
+    try {
+        // Lazy, so a process still holding a file open does not keep the image around
+        await run('fusermount', ['-u', '-z', dir]);
+    } catch (error) {
+        logger.debug('Quota dir was not mounted', {
+            dir,
+            error: error instanceof Error ? error.message : String(error),
+        });
+    }
+    await fs.rm(image, { force: true });
+}
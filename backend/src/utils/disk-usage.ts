@@ -0,0 +1,19 @@
+import { execFile } from 'child_process';
+
+/**
+ * Size of a directory tree in bytes, as reported by `du`. Returns 0 when the
+ * directory does not exist or cannot be read. Other filesystems mounted inside it
+ * are skipped, so a size-capped build dir is counted once, as its image.
+ */
+export function getDirectorySizeBytes(dir: string): Promise<number> {
+    return new Promise((resolve) => {
+        execFile('du', ['-skx', dir], { timeout: 60 * 1000 }, (error, stdout) => {
+            if (error && !stdout) {
+                resolve(0);
+                return;
+            }
+            const kilobytes = parseInt(String(stdout).split(/\s+/)[0] ?? '', 10);
+            resolve(Number.isFinite(kilobytes) ? kilobytes * 1024 : 0);
+        });
+    });
+}
@@ -0,0 +1,285 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { getExecCommand, getRunScriptCommand, type PackageManagerInfo } from './package-manager';
+import { parseJsonObject } from './workspace';
+import { STATIC_GENERATORS } from './static-generators';
+import { prepareNextExport } from './nextjs-export';
+import type { RelativeBaseSettings } from './gateway-paths';
+
+export interface FrameworkContext {
+    workingDir: string;
+    packageJson: Record<string, any>;
+}
+
+export interface FrameworkPreparation {
+    /** Lines for the build log describing what was checked or changed. */
+    notes: string[];
+    /** Output directory read from the project's own config, when it moves the default. */
+    outputDir?: string;
+}
+
+export interface FrameworkDefinition {
+    id: string;
+    name: string;
+    /** Any of these in dependencies or devDependencies identifies the framework. */
+    dependencies: string[];
+    /** package.json script preferred for the build when present. */
+    script: string;
+    /** CLI invocation used when the project has no such script, e.g. `nuxi generate`. */
+    command: string;
+    /** Static output directory, relative to the app directory. */
+    outputDir: string;
+    /** Make the project produce a static site; throws when it cannot be deployed as one. */
+    prepare?: (context: FrameworkContext) => Promise<FrameworkPreparation>;
+    /** Accept only the framework's output dir, never a guessed one such as `public`. */
+    strictOutputDir?: boolean;
+    /** How to build with relative asset URLs, for gateway path mode `base-path`. */
+    relativeBase?: RelativeBaseSettings;
+}
+
+export interface FrameworkSummary {
+    id: string;
+    name: string;
+    /** Built with Node.js, with a static site generator, or deployed as-is. */
+    kind: 'node' | 'generator' | 'static';
+    /** Null for plain static sites, which are deployed without a build. */
+    buildCommand: string | null;
+    outputDir: string | null;
+}
+
+const ASTRO_CONFIG_FILES = ['astro.config.mjs', 'astro.config.js', 'astro.config.ts', 'astro.config.mts', 'astro.config.cjs'];
+const SVELTE_CONFIG_FILES = ['svelte.config.js', 'svelte.config.mjs', 'svelte.config.ts'];
+const VITE_CONFIG_FILES = ['vite.config.ts', 'vite.config.js', 'vite.config.mts', 'vite.config.mjs'];
+const ELEVENTY_CONFIG_FILES = ['eleventy.config.js', 'eleventy.config.mjs', 'eleventy.config.cjs', '.eleventy.js'];
+
+/** First of the given config files in the app directory, with its contents. */
+async function readConfigFile(workingDir: string, candidates: string[]) {
+    for (const file of candidates) {
+        const contents = await fs.readFile(path.join(workingDir, file), 'utf-8').catch(() => null);
+        if (contents !== null) {
+            return { file, contents };
+        }
+    }
+    return null;
+}
+
+function hasDependency(packageJson: Record<string, any>, name: string) {
+    return typeof packageJson.dependencies?.[name] === 'string' || typeof packageJson.devDependencies?.[name] === 'string';
+}
+
+async function prepareAstro({ workingDir }: FrameworkContext): Promise<FrameworkPreparation> {
+    const config = await readConfigFile(workingDir, ASTRO_CONFIG_FILES);
+    if (config && /output\s*:\s*['"](server|hybrid)['"]/.test(config.contents)) {
+        return {
+            notes: [`⚠️  ${config.file} sets server output; only prerendered pages end up in the deployment`],
+            outputDir: 'dist/client',
+        };
+    }
+    return { notes: [] };
+}
+
+async function prepareSvelteKit({ workingDir, packageJson }: FrameworkContext): Promise<FrameworkPreparation> {
+    const config = await readConfigFile(workingDir, SVELTE_CONFIG_FILES);
+    if (config?.contents.includes('@sveltejs/adapter-static')) {
+        const pages = config.contents.match(/pages\s*:\s*['"]([^'"]+)['"]/)?.[1];
+        return { notes: [`✓ ${config.file} uses @sveltejs/adapter-static`], outputDir: pages };
+    }
+    if (!config && hasDependency(packageJson, '@sveltejs/adapter-static')) {
+        await fs.writeFile(
+            path.join(workingDir, 'svelte.config.js'),
+            `import adapter from '@sveltejs/adapter-static';\n\n/** @type {import('@sveltejs/kit').Config} */\nconst config = {\n  kit: {\n    adapter: adapter({ fallback: 'index.html' }),\n  },\n};\n\nexport default config;\n`
+        );
+        return { notes: [`✓ Created svelte.config.js with @sveltejs/adapter-static`] };
+    }
+    throw new Error(
+        'SvelteKit projects must use @sveltejs/adapter-static to be deployed as a static site ' +
+            '(add it to devDependencies and to svelte.config.js)'
+    );
+}
+
+async function prepareRemix({ workingDir }: FrameworkContext): Promise<FrameworkPreparation> {
+    const config = await readConfigFile(workingDir, VITE_CONFIG_FILES);
+    if (!config || !/ssr\s*:\s*false/.test(config.contents)) {
+        throw new Error('Remix projects must enable SPA mode (`remix({ ssr: false })` in vite.config) to be deployed as a static site');
+    }
+    return { notes: [`✓ ${config.file} enables Remix SPA mode`] };
+}
+
+async function prepareAngular({ workingDir }: FrameworkContext): Promise<FrameworkPreparation> {
+    const angularJson = parseJsonObject(await fs.readFile(path.join(workingDir, 'angular.json'), 'utf-8').catch(() => null));
+    const projects: Record<string, any> = angularJson?.projects ?? {};
+    const name =
+        (typeof angularJson?.defaultProject === 'string' && projects[angularJson.defaultProject] ? angularJson.defaultProject : null) ??
+        Object.keys(projects).find((key) => projects[key]?.projectType === 'application');
+    const build = name ? projects[name]?.architect?.build : null;
+    if (!name || !build) {
+        return { notes: [] };
+    }
+
+    // The application builder (Angular 17+) writes the browser bundle to a subdirectory
+    const applicationBuilder = /:application$/.test(build.builder ?? '');
+    const outputPath = build.options?.outputPath;
+    let outputDir: string;
+    if (outputPath && typeof outputPath === 'object') {
+        outputDir = path.posix.join(outputPath.base, outputPath.browser ?? 'browser');
+    } else {
+        const base = typeof outputPath === 'string' ? outputPath : `dist/${name}`;
+        outputDir = applicationBuilder ? path.posix.join(base, 'browser') : base;
+    }
+    const notes = [`Angular project: ${name}`];
+    if (build.options?.ssr) {
+        notes.push(`⚠️  Server-side rendering is enabled; only the browser build is deployed`);
+    }
+    return { notes, outputDir };
+}
+
+async function prepareEleventy({ workingDir }: FrameworkContext): Promise<FrameworkPreparation> {
+    const config = await readConfigFile(workingDir, ELEVENTY_CONFIG_FILES);
+    const output = config?.contents.match(/output\s*:\s*['"]([^'"]+)['"]/)?.[1];
+    return { notes: [], outputDir: output };
+}
+
+/**
+ * Frameworks recognised from package.json, most specific first: meta-frameworks built
+ * on Vite come before Vite itself.
+ */
+export const FRAMEWORKS: FrameworkDefinition[] = [
+    {
+        id: 'nextjs',
+        name: 'Next.js',
+        dependencies: ['next'],
+        script: 'build',
+        command: 'next build',
+        outputDir: 'out',
+        prepare: prepareNextExport,
+        strictOutputDir: true,
+    },
+    {
+        id: 'nuxt',
+        name: 'Nuxt',
+        dependencies: ['nuxt'],
+        script: 'generate',
+        command: 'nuxi generate',
+        outputDir: '.output/public',
+    },
+    {
+        id: 'remix',
+        name: 'Remix (SPA mode)',
+        dependencies: ['@remix-run/dev'],
+        script: 'build',
+        command: 'remix vite:build',
+        outputDir: 'build/client',
+        prepare: prepareRemix,
+    },
+    {
+        id: 'sveltekit',
+        name: 'SvelteKit',
+        dependencies: ['@sveltejs/kit'],
+        script: 'build',
+        command: 'vite build',
+        outputDir: 'build',
+        prepare: prepareSvelteKit,
+        // kit.paths.relative is on by default
+        relativeBase: {},
+    },
+    {
+        id: 'astro',
+        name: 'Astro',
+        dependencies: ['astro'],
+        script: 'build',
+        command: 'astro build',
+        outputDir: 'dist',
+        prepare: prepareAstro,
+    },
+    {
+        id: 'gatsby',
+        name: 'Gatsby',
+        dependencies: ['gatsby'],
+        script: 'build',
+        command: 'gatsby build',
+        outputDir: 'public',
+    },
+    {
+        id: 'docusaurus',
+        name: 'Docusaurus',
+        dependencies: ['@docusaurus/core'],
+        script: 'build',
+        command: 'docusaurus build',
+        outputDir: 'build',
+    },
+    {
+        id: 'angular',
+        name: 'Angular',
+        dependencies: ['@angular/cli', '@angular-devkit/build-angular', '@angular/build'],
+        script: 'build',
+        command: 'ng build',
+        outputDir: 'dist',
+        prepare: prepareAngular,
+        relativeBase: { args: ['--base-href', './'] },
+    },
+    {
+        id: 'vue-cli',
+        name: 'Vue CLI',
+        dependencies: ['@vue/cli-service'],
+        script: 'build',
+        command: 'vue-cli-service build',
+        outputDir: 'dist',
+    },
+    {
+        id: 'eleventy',
+        name: 'Eleventy',
+        dependencies: ['@11ty/eleventy'],
+        script: 'build',
+        command: 'eleventy',
+        outputDir: '_site',
+        prepare: prepareEleventy,
+    },
+    {
+        id: 'vite',
+        name: 'Vite',
+        dependencies: ['vite'],
+        script: 'build',
+        command: 'vite build',
+        outputDir: 'dist',
+        relativeBase: { args: ['--base', './'] },
+    },
+];
+
+export function detectFramework(packageJson: Record<string, any>): FrameworkDefinition | null {
+    return FRAMEWORKS.find((framework) => framework.dependencies.some((name) => hasDependency(packageJson, name))) ?? null;
+}
+
+/** The project's own script when it has one, otherwise the framework CLI, with `extraArgs` appended. */
+export function getFrameworkBuildCommand(
+    framework: FrameworkDefinition,
+    packageJson: Record<string, any>,
+    packageManager: PackageManagerInfo,
+    extraArgs: string[] = []
+) {
+    if (typeof packageJson.scripts?.[framework.script] === 'string') {
+        return getRunScriptCommand(packageManager, framework.script, extraArgs);
+    }
+    const [bin, ...args] = framework.command.split(' ');
+    return [getExecCommand(packageManager, bin), ...args, ...extraArgs].join(' ');
+}
+
+/** Frameworks offered when creating a project, static site generators and plain static sites. */
+export function listFrameworks(): FrameworkSummary[] {
+    return [
+        ...FRAMEWORKS.map(({ id, name, command, outputDir }) => ({
+            id,
+            name,
+            kind: 'node' as const,
+            buildCommand: command,
+            outputDir,
+        })),
+        ...STATIC_GENERATORS.map(({ id, name, command, outputDir }) => ({
+            id,
+            name,
+            kind: 'generator' as const,
+            buildCommand: command,
+            outputDir,
+        })),
+        { id: 'html', name: 'HTML', kind: 'static', buildCommand: null, outputDir: null },
+    ];
+}
@@ -0,0 +1,180 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { checkGatewayPaths, isRootAbsolute, toRelativePath } from './gateway-paths';
+
+describe('isRootAbsolute', () => {
+    it.each([
+        ['/assets/app.js', true],
+        ['/', true],
+        ['/about/', true],
+        ['//cdn.example.com/app.js', false],
+        ['/ipfs/bafyroot/app.js', false],
+        ['/ipns/example.eth/app.js', false],
+        ['/ipfsfiles/app.js', true],
+        ['./assets/app.js', false],
+        ['assets/app.js', false],
+        ['https://example.com/app.js', false],
+        ['#top', false],
+    ])('%s is %s', (value, expected) => {
+        expect(isRootAbsolute(value)).toBe(expected);
+    });
+});
+
+describe('toRelativePath', () => {
+    it.each([
+        ['index.html', '/assets/app.js', './assets/app.js'],
+        ['blog/index.html', '/assets/app.js', '../assets/app.js'],
+        ['blog/2024/post.html', '/assets/app.js', '../../assets/app.js'],
+        ['blog/index.html', '/blog/cover.png', './cover.png'],
+        ['index.html', '/', './'],
+        ['blog/index.html', '/', '../'],
+        ['index.html', '/about/', './about/'],
+        ['blog/index.html', '/about/', '../about/'],
+        ['index.html', '/search?q=ipfs', './search?q=ipfs'],
+        ['docs/index.html', '/guide.html#install', '../guide.html#install'],
+        ['index.html', '/?page=2', './?page=2'],
+        ['assets/css/site.css', '/fonts/inter.woff2?v=3#iefix', '../../fonts/inter.woff2?v=3#iefix'],
+    ])('%s -> %s', (file, value, expected) => {
+        expect(toRelativePath(file, value)).toBe(expected);
+    });
+});
+
+describe('checkGatewayPaths', () => {
+    let outputDir: string;
+
+    beforeEach(async () => {
+        outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gateway-paths-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(outputDir, { recursive: true, force: true });
+    });
+
+    async function writeFiles(files: Record<string, string>) {
+        for (const [file, contents] of Object.entries(files)) {
+            await fs.mkdir(path.dirname(path.join(outputDir, file)), { recursive: true });
+            await fs.writeFile(path.join(outputDir, file), contents);
+        }
+    }
+
+    function readFile(file: string) {
+        return fs.readFile(path.join(outputDir, file), 'utf-8');
+    }
+
+    it('reports root-absolute HTML references without changing files', async () => {
+        const html = [
+            '<link rel="stylesheet" href="/assets/site.css">',
+            "<script src='/assets/app.js'></script>",
+            '<a href="//cdn.example.com/lib.js">cdn</a>',
+            '<img src="/ipfs/bafyroot/logo.png">',
+            '<a href="./about.html">about</a>',
+        ].join('\n');
+        await writeFiles({ 'index.html': html });
+
+        const report = await checkGatewayPaths(outputDir, { rewrite: false });
+
+        expect(report).toEqual({
+            filesScanned: 1,
+            rewrittenFiles: 0,
+            references: [
+                { file: 'index.html', path: '/assets/site.css', rewritable: true },
+                { file: 'index.html', path: '/assets/app.js', rewritable: true },
+            ],
+        });
+        expect(await readFile('index.html')).toBe(html);
+    });
+
+    it('rewrites HTML references relative to each nested page', async () => {
+        await writeFiles({
+            'index.html': '<a href="/blog/">Blog</a><img src="/img/logo.png?v=2">',
+            'blog/index.html': '<a href="/">Home</a><a href="/blog/post.html#comments">Post</a>',
+            'blog/2024/post.html': '<form action="/search"></form><video poster="/img/poster.jpg"></video>',
+        });
+
+        const report = await checkGatewayPaths(outputDir, { rewrite: true });
+
+        expect(report.rewrittenFiles).toBe(3);
+        expect(await readFile('index.html')).toBe('<a href="./blog/">Blog</a><img src="./img/logo.png?v=2">');
+        expect(await readFile('blog/index.html')).toBe('<a href="../">Home</a><a href="./post.html#comments">Post</a>');
+        expect(await readFile('blog/2024/post.html')).toBe(
+            '<form action="../../search"></form><video poster="../../img/poster.jpg"></video>'
+        );
+    });
+
+    it('rewrites every srcset candidate and keeps its descriptor', async () => {
+        await writeFiles({
+            'blog/index.html': '<img srcset="/img/a.png 1x, /img/a@2x.png 2x,/img/a-wide.png 800w">',
+        });
+
+        const report = await checkGatewayPaths(outputDir, { rewrite: true });
+
+        expect(report.references.map((reference) => reference.path)).toEqual([
+            '/img/a.png',
+            '/img/a@2x.png',
+            '/img/a-wide.png',
+        ]);
+        expect(await readFile('blog/index.html')).toBe(
+            '<img srcset="../img/a.png 1x, ../img/a@2x.png 2x, ../img/a-wide.png 800w">'
+        );
+    });
+
+    it('keeps a single space between srcset candidates it leaves alone', async () => {
+        await writeFiles({
+            'index.html': '<img srcset="https://cdn.example.com/a.png 1x,  /img/a@2x.png 2x, ./img/a@3x.png 3x">',
+        });
+
+        await checkGatewayPaths(outputDir, { rewrite: true });
+
+        expect(await readFile('index.html')).toBe(
+            '<img srcset="https://cdn.example.com/a.png 1x, ./img/a@2x.png 2x, ./img/a@3x.png 3x">'
+        );
+    });
+
+    it('rewrites CSS url() and @import in stylesheets and inline styles', async () => {
+        await writeFiles({
+            'assets/css/site.css': [
+                '@import "/assets/css/reset.css";',
+                "body { background: url('/img/bg.png'); }",
+                '@font-face { src: url(/fonts/inter.woff2?v=3#iefix); }',
+                'h1 { background: url(data:image/png;base64,AAAA); }',
+                'h2 { background: url(//cdn.example.com/bg.png); }',
+            ].join('\n'),
+            'about/index.html': '<div style="background: url(/img/hero.jpg)"></div>',
+        });
+
+        const report = await checkGatewayPaths(outputDir, { rewrite: true });
+
+        expect(report.references).toHaveLength(4);
+        expect(await readFile('assets/css/site.css')).toBe(
+            [
+                '@import "./reset.css";',
+                "body { background: url('../../img/bg.png'); }",
+                '@font-face { src: url(../../fonts/inter.woff2?v=3#iefix); }',
+                'h1 { background: url(data:image/png;base64,AAAA); }',
+                'h2 { background: url(//cdn.example.com/bg.png); }',
+            ].join('\n')
+        );
+        expect(await readFile('about/index.html')).toBe('<div style="background: url(../img/hero.jpg)"></div>');
+    });
+
+    it('only reports script strings that name a file in the output', async () => {
+        const script = 'fetch("/data/posts.json"); import("/assets/chunk.js"); const route = "/missing.json";';
+        await writeFiles({
+            'assets/app.js': script,
+            'assets/chunk.js': '',
+            'data/posts.json': '[]',
+        });
+
+        const report = await checkGatewayPaths(outputDir, { rewrite: true });
+
+        expect(report.references).toEqual([
+            { file: 'assets/app.js', path: '/data/posts.json', rewritable: false },
+            { file: 'assets/app.js', path: '/assets/chunk.js', rewritable: false },
+        ]);
+        expect(report.filesScanned).toBe(2);
+        expect(report.rewrittenFiles).toBe(0);
+        expect(await readFile('assets/app.js')).toBe(script);
+    });
+});
@@ -0,0 +1,165 @@
+import path from 'path';
+import fs from 'fs/promises';
+
+export const GATEWAY_PATH_MODES = ['report', 'rewrite', 'base-path'] as const;
+/**
+ * How root-absolute paths in the build output are handled: only reported, rewritten
+ * to relative paths, or avoided up front by building with a relative base path.
+ */
+export type GatewayPathMode = (typeof GATEWAY_PATH_MODES)[number];
+
+/** Build settings that make a framework or generator emit relative asset URLs. */
+export interface RelativeBaseSettings {
+    /** Appended to the build command, e.g. `--base ./`. */
+    args?: string[];
+    env?: Record<string, string>;
+}
+
+export interface RootPathReference {
+    /** File relative to the output dir, with forward slashes. */
+    file: string;
+    path: string;
+    /** HTML and CSS references can be rewritten; script strings are only reported. */
+    rewritable: boolean;
+}
+
+export interface GatewayPathReport {
+    filesScanned: number;
+    references: RootPathReference[];
+    rewrittenFiles: number;
+}
+
+const HTML_EXTENSIONS = new Set(['.html', '.htm']);
+const CSS_EXTENSIONS = new Set(['.css']);
+const SCRIPT_EXTENSIONS = new Set(['.js', '.mjs']);
+const MAX_SCANNED_FILE_BYTES = 10 * 1024 * 1024;
+
+const HTML_ATTRIBUTE = /(\s(?:src|href|action|poster|data|srcset)\s*=\s*)(["'])([^"']*)\2/gi;
+const CSS_URL = /(url\(\s*)(["']?)([^"')\s]+)\2(\s*\))/gi;
+const CSS_IMPORT = /(@import\s+)(["'])([^"']+)\2/gi;
+const SCRIPT_STRING = /(["'`])(\/[A-Za-z0-9_\-./]+\.[A-Za-z0-9]{1,8})\1/g;
+
+/** A path resolved against the host root, which on a gateway is outside the site. */
+export function isRootAbsolute(value: string) {
+    return value.startsWith('/') && !value.startsWith('//') && !/^\/ip[fn]s\//.test(value);
+}
+
+/** `value` rewritten relative to the directory of `file`, keeping query and fragment. */
+export function toRelativePath(file: string, value: string) {
+    const suffixStart = value.search(/[?#]/);
+    const pathname = suffixStart === -1 ? value : value.slice(0, suffixStart);
+    const suffix = suffixStart === -1 ? '' : value.slice(suffixStart);
+    let relative = path.posix.relative(path.posix.dirname(file), pathname.slice(1)) || '.';
+    if (pathname.endsWith('/') && !relative.endsWith('/')) {
+        relative += '/';
+    }
+    if (!relative.startsWith('.')) {
+        relative = `./${relative}`;
+    }
+    return `${relative}${suffix}`;
+}
+
+async function listFiles(outputDir: string) {
+    const files: string[] = [];
+    const walk = async (relativeDir: string): Promise<void> => {
+        const entries = await fs.readdir(path.join(outputDir, relativeDir), { withFileTypes: true });
+        for (const entry of entries) {
+            const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+            if (entry.isDirectory()) {
+                await walk(relativePath);
+            } else if (entry.isFile()) {
+                files.push(relativePath);
+            }
+        }
+    };
+    await walk('');
+    return files;
+}
+
+function replaceHtml(file: string, contents: string, found: RootPathReference[], rewrite: boolean) {
+    const html = contents.replace(HTML_ATTRIBUTE, (match, prefix: string, quote: string, value: string) => {
+        const isSrcset = /srcset/i.test(prefix);
+        const candidates = isSrcset ? value.split(',') : [value];
+        let changed = false;
+        const next = candidates.map((raw) => {
+            // srcset candidates are `url [descriptor]`; trimmed so they re-join evenly
+            const candidate = raw.trim();
+            const [url, ...descriptor] = isSrcset ? candidate.split(/\s+/) : [candidate];
+            if (!url || !isRootAbsolute(url)) {
+                return candidate;
+            }
+            found.push({ file, path: url, rewritable: true });
+            if (!rewrite) {
+                return candidate;
+            }
+            changed = true;
+            return [toRelativePath(file, url), ...descriptor].join(' ');
+        });
+        return changed ? `${prefix}${quote}${next.join(isSrcset ? ', ' : '')}${quote}` : match;
+    });
+    // Inline <style> blocks and style attributes use CSS url()
+    return replaceCss(file, html, found, rewrite);
+}
+
+function replaceCss(file: string, contents: string, found: RootPathReference[], rewrite: boolean) {
+    const replaceWith = (match: string, prefix: string, quote: string, value: string, rest = '') => {
+        if (!isRootAbsolute(value)) {
+            return match;
+        }
+        found.push({ file, path: value, rewritable: true });
+        return rewrite ? `${prefix}${quote}${toRelativePath(file, value)}${quote}${rest}` : match;
+    };
+    return contents
+        .replace(CSS_URL, (match, prefix, quote, value, suffix) => replaceWith(match, prefix, quote, value, suffix))
+        .replace(CSS_IMPORT, (match, prefix, quote, value) => replaceWith(match, prefix, quote, value));
+}
+
+/**
+ * Find root-absolute references (`/assets/app.js`) in the HTML, CSS and JavaScript of
+ * a build output. They break when the site is served from `/ipfs/<cid>/` on a gateway.
+ * With `rewrite`, HTML and CSS references are made relative in place; JavaScript
+ * strings resolve against the page URL rather than the script, so they are only
+ * reported, and only when they name a file in the output.
+ */
+export async function checkGatewayPaths(outputDir: string, options: { rewrite: boolean }): Promise<GatewayPathReport> {
+    const files = await listFiles(outputDir);
+    const outputFiles = new Set(files);
+    const report: GatewayPathReport = { filesScanned: 0, references: [], rewrittenFiles: 0 };
+
+    for (const file of files) {
+        const extension = path.extname(file).toLowerCase();
+        const isHtml = HTML_EXTENSIONS.has(extension);
+        const isCss = CSS_EXTENSIONS.has(extension);
+        if (!isHtml && !isCss && !SCRIPT_EXTENSIONS.has(extension)) {
+            continue;
+        }
+        const filePath = path.join(outputDir, file);
+        const stats = await fs.stat(filePath);
+        if (stats.size > MAX_SCANNED_FILE_BYTES) {
+            continue;
+        }
+        report.filesScanned += 1;
+        const contents = await fs.readFile(filePath, 'utf-8');
+
+        if (!isHtml && !isCss) {
+            for (const match of contents.matchAll(SCRIPT_STRING)) {
+                if (outputFiles.has(match[2].slice(1))) {
+                    report.references.push({ file, path: match[2], rewritable: false });
+                }
+            }
+            continue;
+        }
+
+        const found: RootPathReference[] = [];
+        const updated = isHtml
+            ? replaceHtml(file, contents, found, options.rewrite)
+            : replaceCss(file, contents, found, options.rewrite);
+        report.references.push(...found);
+        if (options.rewrite && updated !== contents) {
+            await fs.writeFile(filePath, updated);
+            report.rewrittenFiles += 1;
+        }
+    }
+
+    return report;
+}
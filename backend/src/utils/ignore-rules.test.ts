@@ -0,0 +1,101 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { describe, expect, it } from 'vitest';
+import { IGNORE_FILENAME, parseIgnoreRules, readIgnoreFile } from './ignore-rules';
+
+function matcher(...lines: string[]) {
+    return parseIgnoreRules(lines.join('\n'), IGNORE_FILENAME);
+}
+
+describe('parseIgnoreRules', () => {
+    it('skips comments and blank lines', () => {
+        const rules = matcher('# source maps', '', '*.map', '   ');
+        expect(rules.patterns).toEqual(['*.map']);
+    });
+
+    it('matches unanchored patterns at any depth', () => {
+        const rules = matcher('*.map');
+        expect(rules.ignores('app.js.map', false)).toBe(true);
+        expect(rules.ignores('assets/js/app.js.map', false)).toBe(true);
+        expect(rules.ignores('app.js', false)).toBe(false);
+    });
+
+    it('anchors patterns with a leading or inner slash', () => {
+        const rules = matcher('/notes.txt', 'docs/*.md');
+        expect(rules.ignores('notes.txt', false)).toBe(true);
+        expect(rules.ignores('sub/notes.txt', false)).toBe(false);
+        expect(rules.ignores('docs/readme.md', false)).toBe(true);
+        expect(rules.ignores('docs/api/readme.md', false)).toBe(false);
+        expect(rules.ignores('site/docs/readme.md', false)).toBe(false);
+    });
+
+    it('only matches directories with a trailing slash', () => {
+        const rules = matcher('drafts/');
+        expect(rules.ignores('drafts', true)).toBe(true);
+        expect(rules.ignores('blog/drafts', true)).toBe(true);
+        expect(rules.ignores('drafts', false)).toBe(false);
+    });
+
+    it('matches across directories with **', () => {
+        const rules = matcher('**/fixtures/**', 'assets/**/*.psd');
+        expect(rules.ignores('fixtures/a.json', false)).toBe(true);
+        expect(rules.ignores('test/fixtures/deep/a.json', false)).toBe(true);
+        expect(rules.ignores('assets/logo.psd', false)).toBe(true);
+        expect(rules.ignores('assets/img/raw/logo.psd', false)).toBe(true);
+    });
+
+    it('re-includes files with a negated pattern', () => {
+        const rules = matcher('*.txt', '!robots.txt');
+        expect(rules.ignores('notes.txt', false)).toBe(true);
+        expect(rules.ignores('robots.txt', false)).toBe(false);
+        expect(rules.ignores('sub/robots.txt', false)).toBe(false);
+    });
+
+    it('lets the last matching rule decide', () => {
+        const rules = matcher('!keep.log', '*.log');
+        expect(rules.ignores('keep.log', false)).toBe(true);
+
+        const reincluded = matcher('*.log', '!keep.log', 'logs/*.log');
+        expect(reincluded.ignores('keep.log', false)).toBe(false);
+        expect(reincluded.ignores('logs/keep.log', false)).toBe(true);
+    });
+
+    it('treats escaped ! and # as literal characters', () => {
+        const rules = matcher('\\!important.txt', '\\#hash.txt');
+        expect(rules.patterns).toEqual(['\\!important.txt', '\\#hash.txt']);
+        expect(rules.ignores('!important.txt', false)).toBe(true);
+        expect(rules.ignores('important.txt', false)).toBe(false);
+        expect(rules.ignores('#hash.txt', false)).toBe(true);
+    });
+
+    it('supports ? and character classes', () => {
+        const rules = matcher('file?.js', 'v[0-9].css', 'draft[!s].md');
+        expect(rules.ignores('file1.js', false)).toBe(true);
+        expect(rules.ignores('file10.js', false)).toBe(false);
+        expect(rules.ignores('v2.css', false)).toBe(true);
+        expect(rules.ignores('vx.css', false)).toBe(false);
+        expect(rules.ignores('draft1.md', false)).toBe(true);
+        expect(rules.ignores('drafts.md', false)).toBe(false);
+    });
+});
+
+describe('readIgnoreFile', () => {
+    it('reads the first directory that has an ignore file', async () => {
+        const root = await fs.mkdtemp(path.join(os.tmpdir(), 'ignore-rules-'));
+        try {
+            const appDir = path.join(root, 'app');
+            const outputDir = path.join(root, 'dist');
+            await fs.mkdir(appDir);
+            await fs.mkdir(outputDir);
+            await fs.writeFile(path.join(outputDir, IGNORE_FILENAME), '*.map\n');
+
+            expect(await readIgnoreFile([appDir])).toBeNull();
+            const rules = await readIgnoreFile([appDir, outputDir]);
+            expect(rules?.source).toBe(path.join(outputDir, IGNORE_FILENAME));
+            expect(rules?.ignores('app.js.map', false)).toBe(true);
+        } finally {
+            await fs.rm(root, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,137 @@
+import path from 'path';
+import fs from 'fs/promises';
+
+/** Excludes files from the deployment, in gitignore syntax. */
+export const IGNORE_FILENAME = '.filifyignore';
+
+interface IgnoreRule {
+    pattern: string;
+    regex: RegExp;
+    negated: boolean;
+    directoryOnly: boolean;
+}
+
+export interface IgnoreMatcher {
+    /** File the rules were read from. */
+    source: string;
+    patterns: string[];
+    /** Whether `relativePath` (forward slashes, relative to the output dir) is excluded. */
+    ignores(relativePath: string, isDirectory: boolean): boolean;
+}
+
+function escapeRegExp(value: string) {
+    return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+function globToRegExp(glob: string) {
+    let source = '';
+    for (let index = 0; index < glob.length; index++) {
+        const char = glob[index];
+        if (char === '*') {
+            const atSegmentStart = index === 0 || glob[index - 1] === '/';
+            if (glob[index + 1] === '*' && atSegmentStart) {
+                // `**/` matches any number of directories, a trailing `**` everything inside
+                if (glob[index + 2] === '/') {
+                    source += '(?:.*/)?';
+                    index += 2;
+                    continue;
+                }
+                if (index + 2 === glob.length) {
+                    source += '.*';
+                    index += 1;
+                    continue;
+                }
+            }
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '[') {
+            // `]` right after the opening bracket (or `[!`) is part of the class
+            const start = glob[index + 1] === '!' ? index + 2 : index + 1;
+            const end = glob.indexOf(']', start + 1);
+            if (end === -1) {
+                source += '\\[';
+                continue;
+            }
+            const negated = glob[index + 1] === '!';
+            const members = glob
+                .slice(start, end)
+                .replace(/[\\\]]/g, '\\$&')
+                .replace(/^\^/, '\\^');
+            source += `[${negated ? '^' : ''}${members}]`;
+            index = end;
+        } else if (char === '\\' && index + 1 < glob.length) {
+            source += escapeRegExp(glob[++index]);
+        } else {
+            source += escapeRegExp(char);
+        }
+    }
+    return source;
+}
+
+function parseRule(line: string): IgnoreRule | null {
+    // Trailing spaces are dropped unless escaped
+    let pattern = line.replace(/(?<!\\)\s+$/, '');
+    if (!pattern || pattern.startsWith('#')) {
+        return null;
+    }
+    const original = pattern;
+    const negated = pattern.startsWith('!');
+    if (negated) {
+        pattern = pattern.slice(1);
+    } else if (pattern.startsWith('\\!') || pattern.startsWith('\\#')) {
+        pattern = pattern.slice(1);
+    }
+    const directoryOnly = pattern.endsWith('/');
+    if (directoryOnly) {
+        pattern = pattern.slice(0, -1);
+    }
+    if (!pattern) {
+        return null;
+    }
+    // A slash at the start or in the middle anchors the pattern to the output dir
+    const anchored = pattern.includes('/');
+    if (pattern.startsWith('/')) {
+        pattern = pattern.slice(1);
+    }
+    const regex = new RegExp(`^${anchored ? '' : '(?:.*/)?'}${globToRegExp(pattern)}$`);
+    return { pattern: original, regex, negated, directoryOnly };
+}
+
+/**
+ * Compile gitignore-style rules. The last matching rule decides, `!` re-includes, and a
+ * trailing `/` only matches directories. As in git, a file inside an excluded directory
+ * can't be re-included, because the directory is never walked.
+ */
+export function parseIgnoreRules(contents: string, source: string): IgnoreMatcher {
+    const rules = contents
+        .split(/\r?\n/)
+        .map(parseRule)
+        .filter((rule): rule is IgnoreRule => rule !== null);
+
+    return {
+        source,
+        patterns: rules.map((rule) => rule.pattern),
+        ignores(relativePath, isDirectory) {
+            let ignored = false;
+            for (const rule of rules) {
+                if ((!rule.directoryOnly || isDirectory) && rule.regex.test(relativePath)) {
+                    ignored = !rule.negated;
+                }
+            }
+            return ignored;
+        },
+    };
+}
+
+/** Rules from the first of `dirs` that has an ignore file, or null when none does. */
+export async function readIgnoreFile(dirs: string[]): Promise<IgnoreMatcher | null> {
+    for (const dir of dirs) {
+        const filePath = path.join(dir, IGNORE_FILENAME);
+        const contents = await fs.readFile(filePath, 'utf-8').catch(() => null);
+        if (contents !== null) {
+            return parseIgnoreRules(contents, filePath);
+        }
+    }
+    return null;
+}
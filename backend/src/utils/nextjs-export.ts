@@ -0,0 +1,195 @@
+import path from 'path';
+import fs from 'fs/promises';
+import type { FrameworkContext, FrameworkPreparation } from './frameworks';
+
+export interface NextExportIssue {
+    /** File relative to the app directory. */
+    file: string;
+    feature: string;
+}
+
+const CONFIG_FILES = ['next.config.js', 'next.config.mjs', 'next.config.ts'];
+const SOURCE_EXTENSIONS = new Set(['.js', '.jsx', '.ts', '.tsx', '.mjs', '.cjs', '.mts', '.cts']);
+const SKIPPED_DIRECTORIES = new Set(['node_modules', '.git', '.next', 'out', 'public', '.filify']);
+const MAX_SCANNED_FILES = 5000;
+const ORIGINAL_CONFIG_BASENAME = 'next.config.filify-original';
+
+const MUTATING_HANDLER = /export\s+(?:async\s+)?(?:function|const)\s+(POST|PUT|PATCH|DELETE)\b/;
+const USE_SERVER = /^\s*['"]use server['"]/m;
+const FORCE_DYNAMIC = /export\s+const\s+dynamic\s*=\s*['"]force-dynamic['"]/;
+const NEXT_HEADERS = /from\s+['"]next\/headers['"]/;
+const SERVER_SIDE_PROPS = /export\s+(?:async\s+)?(?:function|const)\s+getServerSideProps\b/;
+
+/** Source files of the app, relative to the app dir with forward slashes. */
+async function listSourceFiles(workingDir: string) {
+    const files: string[] = [];
+    const walk = async (relativeDir: string): Promise<void> => {
+        const entries = await fs.readdir(path.join(workingDir, relativeDir), { withFileTypes: true }).catch(() => []);
+        for (const entry of entries) {
+            if (files.length >= MAX_SCANNED_FILES) {
+                return;
+            }
+            const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+            if (entry.isDirectory() && !SKIPPED_DIRECTORIES.has(entry.name)) {
+                await walk(relativePath);
+            } else if (entry.isFile() && SOURCE_EXTENSIONS.has(path.extname(entry.name))) {
+                files.push(relativePath);
+            }
+        }
+    };
+    await walk('');
+    return files;
+}
+
+/**
+ * Features of the app that `output: 'export'` cannot serve: API routes, mutating route
+ * handlers, middleware, Server Actions, request-time rendering and i18n routing.
+ */
+export async function findNextExportIssues(workingDir: string, configContents: string | null): Promise<NextExportIssue[]> {
+    const issues: NextExportIssue[] = [];
+    for (const file of await listSourceFiles(workingDir)) {
+        const inPages = /^(src\/)?pages\//.test(file);
+        const inApp = /^(src\/)?app\//.test(file);
+        const name = path.posix.basename(file, path.posix.extname(file));
+
+        if (/^(src\/)?middleware$/.test(file.replace(/\.[^.]+$/, ''))) {
+            issues.push({ file, feature: 'middleware' });
+            continue;
+        }
+        if (inPages && /^(src\/)?pages\/api\//.test(file)) {
+            issues.push({ file, feature: 'API route' });
+            continue;
+        }
+
+        const contents = await fs.readFile(path.join(workingDir, file), 'utf-8').catch(() => '');
+        if (inApp && name === 'route') {
+            const method = contents.match(MUTATING_HANDLER)?.[1];
+            if (method) {
+                issues.push({ file, feature: `route handler for ${method}` });
+            }
+        }
+        if (USE_SERVER.test(contents)) {
+            issues.push({ file, feature: 'Server Actions' });
+        }
+        if (inPages && SERVER_SIDE_PROPS.test(contents)) {
+            issues.push({ file, feature: 'getServerSideProps' });
+        }
+        if (inApp && FORCE_DYNAMIC.test(contents)) {
+            issues.push({ file, feature: "dynamic = 'force-dynamic'" });
+        }
+        if (inApp && NEXT_HEADERS.test(contents)) {
+            issues.push({ file, feature: 'cookies()/headers() from next/headers' });
+        }
+    }
+
+    if (configContents && /\bi18n\s*:/.test(configContents)) {
+        issues.push({ file: 'next.config', feature: 'i18n routing' });
+    }
+    return issues;
+}
+
+async function readConfig(workingDir: string) {
+    for (const file of CONFIG_FILES) {
+        const contents = await fs.readFile(path.join(workingDir, file), 'utf-8').catch(() => null);
+        if (contents !== null) {
+            return { file, contents };
+        }
+    }
+    return null;
+}
+
+function overrideSource(originalImport: string, esm: boolean) {
+    const body = [
+        `  const resolved = (typeof original === 'function' ? await original(phase, context) : await original) ?? {};`,
+        `  const images = resolved.images ?? {};`,
+        `  const customLoader = Boolean(images.loaderFile) || (images.loader && images.loader !== 'default');`,
+        `  return {`,
+        `    ...resolved,`,
+        `    output: 'export',`,
+        `    ...(resolved.output === 'export' ? {} : { trailingSlash: resolved.trailingSlash ?? true }),`,
+        `    images: customLoader ? images : { ...images, unoptimized: true },`,
+        `  };`,
+    ].join('\n');
+    const header = '// Generated by Filify: wraps the project config with the static export settings\n';
+    return esm
+        ? `${header}import original from '${originalImport}';\n\nexport default async function nextConfig(phase, context) {\n${body}\n}\n`
+        : `${header}const original = require('${originalImport}');\n\nmodule.exports = async function nextConfig(phase, context) {\n${body}\n};\n`;
+}
+
+/**
+ * Prepare a Next.js app for static export. Without a config, one with the export
+ * settings is written. An existing config is checked and, when it does not already
+ * export, wrapped so `output: 'export'` and unoptimized images apply on top of it.
+ * Throws with every incompatible feature found.
+ */
+export async function prepareNextExport({ workingDir, packageJson }: FrameworkContext): Promise<FrameworkPreparation> {
+    const config = await readConfig(workingDir);
+    const issues = await findNextExportIssues(workingDir, config?.contents ?? null);
+    if (issues.length > 0) {
+        throw new Error(
+            `Next.js features that do not work with static export:\n${issues
+                .map((issue) => `  - ${issue.file}: ${issue.feature}`)
+                .join('\n')}\nRemove them or move them to a separate backend to deploy this app as a static site`
+        );
+    }
+
+    // With output: 'export', a custom distDir is where the export is written
+    const outputDir = config?.contents.match(/distDir\s*:\s*['"]([^'"]+)['"]/)?.[1] ?? 'out';
+
+    if (!config) {
+        await fs.writeFile(
+            path.join(workingDir, 'next.config.js'),
+            `/** @type {import('next').NextConfig} */\nconst nextConfig = {\n  output: 'export',\n  trailingSlash: true,\n  images: {\n    unoptimized: true,\n  },\n}\n\nmodule.exports = nextConfig\n`
+        );
+        return {
+            notes: [
+                `⚠️  No next.config.js found. Creating one with static export configuration...`,
+                `✓ Created next.config.js with static export settings`,
+            ],
+            outputDir,
+        };
+    }
+
+    const notes: string[] = [];
+    for (const option of ['rewrites', 'redirects', 'headers']) {
+        if (new RegExp(`\\b${option}\\s*[:(]`).test(config.contents)) {
+            notes.push(`⚠️  ${config.file} defines ${option}, which static export ignores`);
+        }
+    }
+
+    const exportsAlready = /output\s*:\s*['"]export['"]/.test(config.contents);
+    const imagesReady = /unoptimized\s*:\s*true/.test(config.contents) || /\bloader(File)?\s*:/.test(config.contents);
+    if (exportsAlready && imagesReady) {
+        notes.push(`✓ ${config.file} is configured for static export`);
+        return { notes, outputDir };
+    }
+
+    const extension = path.extname(config.file);
+    const esm = extension === '.mjs' || extension === '.ts' || packageJson.type === 'module';
+    const originalFile = `${ORIGINAL_CONFIG_BASENAME}${extension}`;
+    await fs.rename(path.join(workingDir, config.file), path.join(workingDir, originalFile));
+    await fs.writeFile(
+        path.join(workingDir, config.file),
+        overrideSource(`./${extension === '.ts' ? ORIGINAL_CONFIG_BASENAME : originalFile}`, esm)
+    );
+    notes.push(
+        exportsAlready
+            ? `✓ Wrapped ${config.file} to disable image optimization, which static export cannot do`
+            : `✓ Wrapped ${config.file} with static export settings (output: 'export', unoptimized images)`
+    );
+    return { notes, outputDir };
+}
+
+/** A `next build` server output (.next) rather than a static export. */
+export async function isNextServerBuild(dir: string) {
+    if (path.basename(dir) === '.next') {
+        return true;
+    }
+    const markers = ['BUILD_ID', 'required-server-files.json', 'routes-manifest.json'];
+    for (const marker of markers) {
+        if (await fs.access(path.join(dir, marker)).then(() => true, () => false)) {
+            return true;
+        }
+    }
+    return false;
+}
@@ -0,0 +1,96 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { findNodeVersionRequest, parseNodeVersionSpec, selectNodeVersion } from './node-version';
+
+const INSTALLED = ['16.20.2', '18.19.0', '18.20.4', '20.11.1', '20.18.0', '21.7.3', '22.11.0', '23.3.0'];
+
+function select(spec: string) {
+    const request = parseNodeVersionSpec(spec);
+    return request && selectNodeVersion(request, INSTALLED);
+}
+
+describe('parseNodeVersionSpec', () => {
+    it('maps LTS codenames to their major version', () => {
+        expect(parseNodeVersionSpec('lts/iron')).toEqual({ range: '20.x', ltsOnly: false });
+        expect(parseNodeVersionSpec('LTS/Hydrogen')).toEqual({ range: '18.x', ltsOnly: false });
+        expect(parseNodeVersionSpec('lts/unknown')).toBeNull();
+    });
+
+    it('restricts lts/* to even majors', () => {
+        expect(parseNodeVersionSpec('lts/*')).toEqual({ range: '*', ltsOnly: true });
+        expect(select('lts/*')).toBe('22.11.0');
+    });
+
+    it('treats node and latest as any version', () => {
+        expect(select('node')).toBe('23.3.0');
+        expect(select('latest')).toBe('23.3.0');
+    });
+
+    it('strips the v prefix from versions and ranges', () => {
+        expect(select('v18.19.0')).toBe('18.19.0');
+        expect(select('v20')).toBe('20.18.0');
+        expect(select('>=v18 <v21')).toBe('20.18.0');
+        expect(select('^v18.0.0 || ~v22.11')).toBe('22.11.0');
+    });
+
+    it('rejects specs that are not versions', () => {
+        expect(parseNodeVersionSpec('')).toBeNull();
+        expect(parseNodeVersionSpec('   ')).toBeNull();
+        expect(parseNodeVersionSpec('system')).toBeNull();
+    });
+});
+
+describe('selectNodeVersion', () => {
+    it('picks the highest matching version', () => {
+        expect(selectNodeVersion({ range: '18.x', ltsOnly: false }, INSTALLED)).toBe('18.20.4');
+    });
+
+    it('returns null when nothing installed matches', () => {
+        expect(selectNodeVersion({ range: '14.x', ltsOnly: false }, INSTALLED)).toBeNull();
+        expect(selectNodeVersion({ range: '21.x', ltsOnly: true }, INSTALLED)).toBeNull();
+    });
+});
+
+describe('findNodeVersionRequest', () => {
+    let rootDir: string;
+    let appDir: string;
+
+    beforeEach(async () => {
+        rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'node-version-'));
+        appDir = path.join(rootDir, 'apps', 'web');
+        await fs.mkdir(appDir, { recursive: true });
+    });
+
+    afterEach(async () => {
+        await fs.rm(rootDir, { recursive: true, force: true });
+    });
+
+    it('prefers the project setting', async () => {
+        await fs.writeFile(path.join(appDir, '.nvmrc'), '18\n');
+        expect(await findNodeVersionRequest(appDir, rootDir, null, ' 20 ')).toEqual({ spec: '20', source: 'project' });
+    });
+
+    it('skips comments and blank lines in .nvmrc', async () => {
+        await fs.writeFile(path.join(appDir, '.nvmrc'), '# pinned for CI\n\nlts/iron # current LTS\n');
+        expect(await findNodeVersionRequest(appDir, rootDir, null)).toEqual({ spec: 'lts/iron', source: '.nvmrc' });
+    });
+
+    it('looks for version files up to the repository root', async () => {
+        await fs.writeFile(path.join(rootDir, '.node-version'), 'v18.19.0\n');
+        expect(await findNodeVersionRequest(appDir, rootDir, null)).toEqual({ spec: 'v18.19.0', source: '.node-version' });
+    });
+
+    it('ignores a version file that only has comments', async () => {
+        await fs.writeFile(path.join(appDir, '.nvmrc'), '# no version yet\n');
+        await fs.writeFile(path.join(rootDir, '.nvmrc'), '22\n');
+        expect(await findNodeVersionRequest(appDir, rootDir, null)).toEqual({ spec: '22', source: '.nvmrc' });
+    });
+
+    it('falls back to engines.node', async () => {
+        const packageJson = { engines: { node: '>=20' } };
+        expect(await findNodeVersionRequest(appDir, rootDir, packageJson)).toEqual({ spec: '>=20', source: 'engines' });
+        expect(await findNodeVersionRequest(appDir, rootDir, {})).toBeNull();
+    });
+});
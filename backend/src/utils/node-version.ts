@@ -0,0 +1,111 @@
+import path from 'path';
+import fs from 'fs/promises';
+import semver from 'semver';
+
+export type NodeVersionSource = 'project' | '.nvmrc' | '.node-version' | 'engines';
+
+export interface NodeVersionRequest {
+    /** The version as written, e.g. `20`, `v18.19.0`, `lts/iron` or `>=18 <21`. */
+    spec: string;
+    source: NodeVersionSource;
+}
+
+/** nvm LTS codenames by major version. */
+const LTS_CODENAMES: Record<string, number> = {
+    argon: 4,
+    boron: 6,
+    carbon: 8,
+    dubnium: 10,
+    erbium: 12,
+    fermium: 14,
+    gallium: 16,
+    hydrogen: 18,
+    iron: 20,
+    jod: 22,
+    krypton: 24,
+};
+
+const VERSION_FILES: Array<Extract<NodeVersionSource, '.nvmrc' | '.node-version'>> = ['.nvmrc', '.node-version'];
+
+export interface NodeVersionRange {
+    /** semver range to match installed versions against. */
+    range: string;
+    /** `lts/*`: only even (LTS) majors qualify. */
+    ltsOnly: boolean;
+}
+
+/**
+ * Translate a version spec into a semver range. Accepts what nvm and `engines` accept:
+ * versions with or without `v`, partial versions, ranges, `lts/*`, `lts/<codename>`
+ * and `node`/`latest`. Returns null when the spec is not understood.
+ */
+export function parseNodeVersionSpec(spec: string): NodeVersionRange | null {
+    const value = spec.trim().toLowerCase();
+    if (!value) {
+        return null;
+    }
+    if (['node', 'latest', 'stable', 'current'].includes(value)) {
+        return { range: '*', ltsOnly: false };
+    }
+    if (value === 'lts/*' || value === 'lts') {
+        return { range: '*', ltsOnly: true };
+    }
+    if (value.startsWith('lts/')) {
+        const major = LTS_CODENAMES[value.slice('lts/'.length)];
+        return major ? { range: `${major}.x`, ltsOnly: false } : null;
+    }
+    const range = semver.validRange(value.replace(/(^|[\s=<>^~])v(?=\d)/g, '$1'));
+    return range ? { range, ltsOnly: false } : null;
+}
+
+/** The highest of the given versions that satisfies the request, or null. */
+export function selectNodeVersion(request: NodeVersionRange, versions: string[]): string | null {
+    const candidates = request.ltsOnly ? versions.filter((version) => semver.major(version) % 2 === 0) : versions;
+    return semver.maxSatisfying(candidates, request.range);
+}
+
+async function readVersionFile(filePath: string) {
+    const contents = await fs.readFile(filePath, 'utf-8').catch(() => null);
+    // First non-comment line; .nvmrc allows trailing comments
+    const line = contents
+        ?.split(/\r?\n/)
+        .map((entry) => entry.replace(/#.*$/, '').trim())
+        .find(Boolean);
+    return line ?? null;
+}
+
+/**
+ * Find the Node.js version a build asks for. Order: project setting, then `.nvmrc` and
+ * `.node-version` from the working dir up to the repo root, then `engines.node`.
+ */
+export async function findNodeVersionRequest(
+    workingDir: string,
+    rootDir: string,
+    packageJson: Record<string, any> | null,
+    projectSetting?: string | null
+): Promise<NodeVersionRequest | null> {
+    if (projectSetting?.trim()) {
+        return { spec: projectSetting.trim(), source: 'project' };
+    }
+
+    const root = path.resolve(rootDir);
+    let current = path.resolve(workingDir);
+    while (current.startsWith(root)) {
+        for (const file of VERSION_FILES) {
+            const spec = await readVersionFile(path.join(current, file));
+            if (spec) {
+                return { spec, source: file };
+            }
+        }
+        if (current === root) {
+            break;
+        }
+        current = path.dirname(current);
+    }
+
+    const engines = packageJson?.engines?.node;
+    if (typeof engines === 'string' && engines.trim()) {
+        return { spec: engines.trim(), source: 'engines' };
+    }
+    return null;
+}
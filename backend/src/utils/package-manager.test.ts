@@ -0,0 +1,231 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+    detectPackageManager,
+    getExecCommand,
+    getRunScriptCommand,
+    parsePackageManagerField,
+    type PackageManagerInfo,
+} from './package-manager';
+
+const YARN_BERRY_LOCKFILE = '__metadata:\n  version: 8\n  cacheKey: 10\n';
+const YARN_CLASSIC_LOCKFILE = '# THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.\n# yarn lockfile v1\n';
+
+describe('parsePackageManagerField', () => {
+    it.each([
+        ['pnpm@9.1.0', { name: 'pnpm', version: '9.1.0' }],
+        ['pnpm@9.1.0+sha512.abc123', { name: 'pnpm', version: '9.1.0' }],
+        ['yarn@4.5.0', { name: 'yarn', version: '4.5.0' }],
+        ['  npm@10.8.2 ', { name: 'npm', version: '10.8.2' }],
+        ['bun', { name: 'bun', version: null }],
+        ['deno@2.0.0', null],
+        ['', null],
+        [42, null],
+        [undefined, null],
+    ])('parses %j', (value, expected) => {
+        expect(parsePackageManagerField(value)).toEqual(expected);
+    });
+});
+
+describe('detectPackageManager', () => {
+    let rootDir: string;
+
+    beforeEach(async () => {
+        rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'package-manager-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(rootDir, { recursive: true, force: true });
+    });
+
+    async function writeFiles(files: Record<string, string>) {
+        for (const [file, contents] of Object.entries(files)) {
+            await fs.mkdir(path.dirname(path.join(rootDir, file)), { recursive: true });
+            await fs.writeFile(path.join(rootDir, file), contents);
+        }
+    }
+
+    it.each<{
+        name: string;
+        files: Record<string, string>;
+        packageJson?: Record<string, any>;
+        overrides?: { packageManager?: string | null; installCommand?: string | null };
+        workingDir?: string;
+        expected: Partial<PackageManagerInfo> & { installDir?: string };
+    }>([
+        {
+            name: 'npm without a lockfile',
+            files: {},
+            expected: { name: 'npm', source: 'default', lockfile: null, installCommand: 'npm install --include=dev' },
+        },
+        {
+            name: 'npm from package-lock.json',
+            files: { 'package-lock.json': '{}' },
+            expected: { name: 'npm', source: 'lockfile', lockfile: 'package-lock.json', installCommand: 'npm ci --include=dev' },
+        },
+        {
+            name: 'npm from npm-shrinkwrap.json',
+            files: { 'npm-shrinkwrap.json': '{}' },
+            expected: { name: 'npm', lockfile: 'npm-shrinkwrap.json', installCommand: 'npm ci --include=dev' },
+        },
+        {
+            name: 'pnpm from pnpm-lock.yaml',
+            files: { 'pnpm-lock.yaml': "lockfileVersion: '9.0'\n" },
+            expected: {
+                name: 'pnpm',
+                source: 'lockfile',
+                lockfile: 'pnpm-lock.yaml',
+                installCommand: 'corepack pnpm install --frozen-lockfile --prod=false',
+            },
+        },
+        {
+            name: 'bun from bun.lockb',
+            files: { 'bun.lockb': '' },
+            expected: { name: 'bun', lockfile: 'bun.lockb', corepack: false, installCommand: 'bun install --frozen-lockfile' },
+        },
+        {
+            name: 'bun from the text bun.lock',
+            files: { 'bun.lock': '{}' },
+            expected: { name: 'bun', lockfile: 'bun.lock', installCommand: 'bun install --frozen-lockfile' },
+        },
+        {
+            name: 'pnpm before npm when both lockfiles exist',
+            files: { 'package-lock.json': '{}', 'pnpm-lock.yaml': '' },
+            expected: { name: 'pnpm', lockfile: 'pnpm-lock.yaml' },
+        },
+        {
+            name: 'yarn classic from a v1 lockfile',
+            files: { 'yarn.lock': YARN_CLASSIC_LOCKFILE },
+            expected: {
+                name: 'yarn',
+                yarnBerry: false,
+                installCommand: 'corepack yarn install --frozen-lockfile --production=false',
+            },
+        },
+        {
+            name: 'yarn berry from a lockfile with __metadata',
+            files: { 'yarn.lock': YARN_BERRY_LOCKFILE },
+            expected: { name: 'yarn', yarnBerry: true, installCommand: 'corepack yarn install --immutable' },
+        },
+        {
+            name: 'yarn berry from the packageManager version',
+            files: { 'yarn.lock': YARN_CLASSIC_LOCKFILE },
+            packageJson: { packageManager: 'yarn@4.5.0' },
+            expected: { name: 'yarn', version: '4.5.0', source: 'packageManager', yarnBerry: true },
+        },
+        {
+            name: 'yarn classic from the packageManager version',
+            files: {},
+            packageJson: { packageManager: 'yarn@1.22.22' },
+            expected: {
+                name: 'yarn',
+                yarnBerry: false,
+                lockfile: null,
+                installCommand: 'corepack yarn install --production=false',
+            },
+        },
+        {
+            name: 'the packageManager field over a lockfile of another manager',
+            files: { 'package-lock.json': '{}' },
+            packageJson: { packageManager: 'pnpm@9.1.0+sha512.abc' },
+            expected: {
+                name: 'pnpm',
+                version: '9.1.0',
+                source: 'packageManager',
+                lockfile: null,
+                installCommand: 'corepack pnpm install --prod=false',
+            },
+        },
+        {
+            name: 'the project override over the packageManager field',
+            files: { 'bun.lockb': '' },
+            packageJson: { packageManager: 'pnpm@9.1.0' },
+            overrides: { packageManager: 'bun' },
+            expected: { name: 'bun', version: null, source: 'project', lockfile: 'bun.lockb' },
+        },
+        {
+            name: 'an unknown override falls back to detection',
+            files: { 'pnpm-lock.yaml': '' },
+            overrides: { packageManager: 'deno' },
+            expected: { name: 'pnpm', source: 'lockfile' },
+        },
+        {
+            name: 'a custom install command',
+            files: { 'package-lock.json': '{}' },
+            overrides: { installCommand: '  npm install --legacy-peer-deps ' },
+            expected: { name: 'npm', installCommand: 'npm install --legacy-peer-deps' },
+        },
+        {
+            name: 'the nearest lockfile above a monorepo package',
+            files: { 'pnpm-lock.yaml': '', 'apps/web/package.json': '{}' },
+            workingDir: 'apps/web',
+            expected: { name: 'pnpm', lockfile: 'pnpm-lock.yaml', installDir: '.' },
+        },
+        {
+            name: 'a package lockfile before the root one',
+            files: { 'pnpm-lock.yaml': '', 'apps/web/package-lock.json': '{}' },
+            workingDir: 'apps/web',
+            expected: { name: 'npm', lockfile: 'package-lock.json', installDir: 'apps/web' },
+        },
+    ])('detects $name', async ({ files, packageJson, overrides, workingDir, expected }) => {
+        await writeFiles(files);
+        const { installDir, ...fields } = expected;
+
+        const info = await detectPackageManager(
+            path.join(rootDir, workingDir ?? ''),
+            rootDir,
+            packageJson ?? null,
+            overrides
+        );
+
+        expect(info).toMatchObject(fields);
+        expect(info.installDir).toBe(path.join(rootDir, installDir ?? workingDir ?? ''));
+    });
+
+    it('does not look for lockfiles above the repository root', async () => {
+        await writeFiles({ 'pnpm-lock.yaml': '', 'repo/package.json': '{}' });
+        const repoDir = path.join(rootDir, 'repo');
+
+        const info = await detectPackageManager(repoDir, repoDir, null);
+
+        expect(info).toMatchObject({ name: 'npm', source: 'default', lockfile: null, installDir: repoDir });
+    });
+});
+
+function info(name: PackageManagerInfo['name'], corepack = name === 'pnpm' || name === 'yarn'): PackageManagerInfo {
+    return {
+        name,
+        version: null,
+        source: 'default',
+        lockfile: null,
+        installDir: '/repo',
+        yarnBerry: false,
+        corepack,
+        installCommand: '',
+    };
+}
+
+describe('getRunScriptCommand', () => {
+    it.each([
+        ['npm', [], 'npm run build'],
+        ['npm', ['--base', './'], 'npm run build -- --base ./'],
+        ['pnpm', ['--base', './'], 'corepack pnpm run build --base ./'],
+        ['yarn', [], 'corepack yarn run build'],
+        ['bun', ['--base', './'], 'bun run build --base ./'],
+    ] as const)('%s with %j', (name, args, expected) => {
+        expect(getRunScriptCommand(info(name), 'build', [...args])).toBe(expected);
+    });
+});
+
+describe('getExecCommand', () => {
+    it.each([
+        ['npm', 'npx --no-install turbo'],
+        ['pnpm', 'corepack pnpm exec turbo'],
+        ['yarn', 'corepack yarn turbo'],
+        ['bun', 'bun x turbo'],
+    ] as const)('%s', (name, expected) => {
+        expect(getExecCommand(info(name), 'turbo')).toBe(expected);
+    });
+});
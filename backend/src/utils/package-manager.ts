@@ -0,0 +1,182 @@
+import path from 'path';
+import fs from 'fs/promises';
+
+export const PACKAGE_MANAGERS = ['npm', 'pnpm', 'yarn', 'bun'] as const;
+export type PackageManagerName = (typeof PACKAGE_MANAGERS)[number];
+
+export interface PackageManagerInfo {
+    name: PackageManagerName;
+    /** Version pinned by the `packageManager` field, if any. */
+    version: string | null;
+    source: 'project' | 'packageManager' | 'lockfile' | 'default';
+    /** Lockfile name, or null when the repo has none (install is then not frozen). */
+    lockfile: string | null;
+    /** Directory holding the lockfile; installs run here so monorepo roots resolve. */
+    installDir: string;
+    /** Yarn 2+ (berry) uses different install flags than yarn classic. */
+    yarnBerry: boolean;
+    /** Invoke pnpm/yarn through Corepack: the pinned version if there is one, else Corepack's default. */
+    corepack: boolean;
+    installCommand: string;
+}
+
+const LOCKFILES: Array<{ file: string; name: PackageManagerName }> = [
+    { file: 'pnpm-lock.yaml', name: 'pnpm' },
+    { file: 'yarn.lock', name: 'yarn' },
+    { file: 'bun.lockb', name: 'bun' },
+    { file: 'bun.lock', name: 'bun' },
+    { file: 'package-lock.json', name: 'npm' },
+    { file: 'npm-shrinkwrap.json', name: 'npm' },
+];
+
+function isPackageManagerName(value: unknown): value is PackageManagerName {
+    return typeof value === 'string' && (PACKAGE_MANAGERS as readonly string[]).includes(value);
+}
+
+async function exists(filePath: string) {
+    return fs
+        .access(filePath)
+        .then(() => true)
+        .catch(() => false);
+}
+
+/**
+ * Parse the Corepack `packageManager` field, e.g. `pnpm@9.1.0+sha512.abc`.
+ */
+export function parsePackageManagerField(value: unknown): { name: PackageManagerName; version: string | null } | null {
+    if (typeof value !== 'string') {
+        return null;
+    }
+    const match = value.trim().match(/^(npm|pnpm|yarn|bun)(?:@([^+\s]+))?/);
+    if (!match) {
+        return null;
+    }
+    return { name: match[1] as PackageManagerName, version: match[2] ?? null };
+}
+
+/**
+ * Find the nearest lockfile, walking up from the working dir to the repo root.
+ */
+async function findLockfile(workingDir: string, rootDir: string, preferred?: PackageManagerName) {
+    const candidates = preferred ? LOCKFILES.filter((entry) => entry.name === preferred) : LOCKFILES;
+    let current = workingDir;
+    while (true) {
+        for (const candidate of candidates) {
+            if (await exists(path.join(current, candidate.file))) {
+                return { ...candidate, dir: current };
+            }
+        }
+        if (path.resolve(current) === path.resolve(rootDir)) {
+            return null;
+        }
+        const parent = path.dirname(current);
+        if (parent === current || !parent.startsWith(path.resolve(rootDir))) {
+            return null;
+        }
+        current = parent;
+    }
+}
+
+/** The package manager binary, through Corepack for pnpm and yarn. */
+export function getPackageManagerCommand(info: Pick<PackageManagerInfo, 'name' | 'corepack'>) {
+    return info.corepack ? `corepack ${info.name}` : info.name;
+}
+
+function frozenInstallCommand(info: Pick<PackageManagerInfo, 'name' | 'corepack' | 'lockfile' | 'yarnBerry'>) {
+    const bin = getPackageManagerCommand(info);
+    const frozen = Boolean(info.lockfile);
+    switch (info.name) {
+        case 'pnpm':
+            return frozen ? `${bin} install --frozen-lockfile --prod=false` : `${bin} install --prod=false`;
+        case 'yarn':
+            if (info.yarnBerry) {
+                return frozen ? `${bin} install --immutable` : `${bin} install`;
+            }
+            return frozen ? `${bin} install --frozen-lockfile --production=false` : `${bin} install --production=false`;
+        case 'bun':
+            return frozen ? `${bin} install --frozen-lockfile` : `${bin} install`;
+        default:
+            return frozen ? `${bin} ci --include=dev` : `${bin} install --include=dev`;
+    }
+}
+
+/** Command that runs a package.json script with the detected package manager, passing `args` to it. */
+export function getRunScriptCommand(info: PackageManagerInfo, script: string, args: string[] = []) {
+    const command = `${getPackageManagerCommand(info)} run ${script}`;
+    if (args.length === 0) {
+        return command;
+    }
+    // npm only forwards arguments after `--`
+    return info.name === 'npm' ? `${command} -- ${args.join(' ')}` : `${command} ${args.join(' ')}`;
+}
+
+/** Command that runs a binary installed by the package manager, such as turbo or nx. */
+export function getExecCommand(info: PackageManagerInfo, bin: string) {
+    switch (info.name) {
+        case 'pnpm':
+            return `${getPackageManagerCommand(info)} exec ${bin}`;
+        case 'yarn':
+            return `${getPackageManagerCommand(info)} ${bin}`;
+        case 'bun':
+            return `bun x ${bin}`;
+        default:
+            return `npx --no-install ${bin}`;
+    }
+}
+
+/**
+ * Pick the package manager for a build. Order: project override, the `packageManager`
+ * field, the nearest lockfile, then npm.
+ */
+export async function detectPackageManager(
+    workingDir: string,
+    rootDir: string,
+    packageJson: Record<string, any> | null,
+    overrides: { packageManager?: string | null; installCommand?: string | null } = {}
+): Promise<PackageManagerInfo> {
+    const field = parsePackageManagerField(packageJson?.packageManager);
+
+    let name: PackageManagerName = 'npm';
+    let source: PackageManagerInfo['source'] = 'default';
+    let version: string | null = null;
+
+    if (isPackageManagerName(overrides.packageManager)) {
+        name = overrides.packageManager;
+        source = 'project';
+    } else if (field) {
+        name = field.name;
+        version = field.version;
+        source = 'packageManager';
+    }
+
+    const lockfile = await findLockfile(workingDir, rootDir, source === 'default' ? undefined : name);
+    if (source === 'default' && lockfile) {
+        name = lockfile.name;
+        source = 'lockfile';
+    }
+
+    let yarnBerry = false;
+    if (name === 'yarn') {
+        if (version) {
+            yarnBerry = !version.startsWith('1.');
+        } else if (lockfile) {
+            const contents = await fs.readFile(path.join(lockfile.dir, lockfile.file), 'utf-8').catch(() => '');
+            yarnBerry = contents.includes('__metadata:');
+        }
+    }
+
+    const info = {
+        name,
+        version,
+        source,
+        lockfile: lockfile?.file ?? null,
+        installDir: lockfile?.dir ?? workingDir,
+        yarnBerry,
+        corepack: name === 'pnpm' || name === 'yarn',
+    };
+
+    return {
+        ...info,
+        installCommand: overrides.installCommand?.trim() || frozenInstallCommand(info),
+    };
+}
@@ -12,3 +12,15 @@ export function getDeploymentBuildDir(deploymentId: string): string {
     return path.join(getBuildsRoot(), deploymentId)
 }
 
+
+export function getBuildCacheRoot(): string {
+    return path.join(path.dirname(getBuildsRoot()), 'build-cache')
+}
+
+export function getToolchainsRoot(): string {
+    return path.join(path.dirname(getBuildsRoot()), 'toolchains')
+}
+
+export function getNodeToolchainsRoot(): string {
+    return path.join(getToolchainsRoot(), 'node')
+}
@@ -0,0 +1,205 @@
+import path from 'path';
+import fs from 'fs/promises';
+import type { RelativeBaseSettings } from './gateway-paths';
+
+export type StaticGeneratorId = 'hugo' | 'jekyll' | 'mkdocs' | 'zola';
+
+export interface StaticGeneratorDefinition {
+    id: StaticGeneratorId;
+    name: string;
+    /** Default build command, for display. */
+    command: string;
+    /** Conventional output directory, relative to the site directory. */
+    outputDir: string;
+    /** Whether the site directory holds this generator's config. */
+    detect: (siteDir: string) => Promise<boolean>;
+    /** Output directory set in the site config, if any. */
+    readOutputDir: (siteDir: string) => Promise<string | null>;
+    /** How to build with relative asset URLs, for gateway path mode `base-path`. */
+    relativeBase?: RelativeBaseSettings;
+}
+
+export interface StaticGeneratorPlan {
+    /** Commands that install the generator into the sandbox, run in order. */
+    install: string[];
+    /** Prints the generator version; fails when the generator is missing. */
+    versionCommand: string;
+    build: string;
+    env: Record<string, string>;
+}
+
+/** Versions as accepted for the project's generatorVersion, e.g. `0.125`, `v1.6.0`. */
+export const GENERATOR_VERSION_PATTERN = /^v?\d+(\.\d+){0,2}$/;
+
+const HUGO_CONFIG_FILES = [
+    'hugo.toml',
+    'hugo.yaml',
+    'hugo.yml',
+    'hugo.json',
+    'config/_default/hugo.toml',
+    'config/_default/hugo.yaml',
+];
+const JEKYLL_CONFIG_FILES = ['_config.yml', '_config.yaml'];
+const MKDOCS_CONFIG_FILES = ['mkdocs.yml', 'mkdocs.yaml'];
+
+async function readFirst(siteDir: string, files: string[]) {
+    for (const file of files) {
+        const contents = await fs.readFile(path.join(siteDir, file), 'utf-8').catch(() => null);
+        if (contents !== null) {
+            return contents;
+        }
+    }
+    return null;
+}
+
+/** Value of a top-level `key = "value"` (TOML) or `key: value` (YAML) setting. */
+function readSetting(contents: string | null, key: string) {
+    const match = contents?.match(new RegExp(`^${key}\\s*[=:]\\s*['"]?([^'"\\s#]+)`, 'm'));
+    return match?.[1] ?? null;
+}
+
+async function readHugoConfig(siteDir: string) {
+    const config = await readFirst(siteDir, HUGO_CONFIG_FILES);
+    if (config !== null) {
+        return config;
+    }
+    // Older sites use config.toml/yaml; Zola uses config.toml too, but with base_url
+    const legacy = await readFirst(siteDir, ['config.toml', 'config.yaml', 'config.yml']);
+    return legacy && /^baseURL\s*[=:]/im.test(legacy) && !/^base_url\s*=/m.test(legacy) ? legacy : null;
+}
+
+async function readZolaConfig(siteDir: string) {
+    const config = await readFirst(siteDir, ['config.toml']);
+    return config && /^base_url\s*=/m.test(config) ? config : null;
+}
+
+export const STATIC_GENERATORS: StaticGeneratorDefinition[] = [
+    {
+        id: 'mkdocs',
+        name: 'MkDocs',
+        command: 'mkdocs build',
+        outputDir: 'site',
+        detect: async (siteDir) => (await readFirst(siteDir, MKDOCS_CONFIG_FILES)) !== null,
+        readOutputDir: async (siteDir) => readSetting(await readFirst(siteDir, MKDOCS_CONFIG_FILES), 'site_dir'),
+        // MkDocs already links pages and assets with relative URLs
+        relativeBase: {},
+    },
+    {
+        id: 'hugo',
+        name: 'Hugo',
+        command: 'hugo --gc --minify',
+        outputDir: 'public',
+        detect: async (siteDir) => (await readHugoConfig(siteDir)) !== null,
+        readOutputDir: async (siteDir) => readSetting(await readHugoConfig(siteDir), 'publishDir'),
+        relativeBase: { env: { HUGO_RELATIVEURLS: 'true', HUGO_CANONIFYURLS: 'false' } },
+    },
+    {
+        id: 'zola',
+        name: 'Zola',
+        command: 'zola build',
+        outputDir: 'public',
+        detect: async (siteDir) => (await readZolaConfig(siteDir)) !== null,
+        readOutputDir: async (siteDir) => readSetting(await readZolaConfig(siteDir), 'output_dir'),
+    },
+    {
+        id: 'jekyll',
+        name: 'Jekyll',
+        command: 'jekyll build',
+        outputDir: '_site',
+        detect: async (siteDir) =>
+            (await readFirst(siteDir, JEKYLL_CONFIG_FILES)) !== null ||
+            /['"]jekyll['"]/.test((await readFirst(siteDir, ['Gemfile'])) ?? ''),
+        readOutputDir: async (siteDir) => readSetting(await readFirst(siteDir, JEKYLL_CONFIG_FILES), 'destination'),
+    },
+];
+
+export async function detectStaticGenerator(siteDir: string): Promise<StaticGeneratorDefinition | null> {
+    for (const generator of STATIC_GENERATORS) {
+        if (await generator.detect(siteDir)) {
+            return generator;
+        }
+    }
+    return null;
+}
+
+function splitVersion(version: string) {
+    return version.replace(/^v/, '').split('.');
+}
+
+/** pip specifier: `1.6` allows any 1.6.x, `1.6.0` is exact. */
+export function toPipSpecifier(version: string) {
+    const parts = splitVersion(version);
+    return parts.length === 3 ? `==${parts.join('.')}` : `==${parts.join('.')}.*`;
+}
+
+/** RubyGems requirement: `4.3` allows any 4.3.x, `4` any 4.x, `4.3.3` is exact. */
+export function toGemRequirement(version: string) {
+    const parts = splitVersion(version);
+    return parts.length === 3 ? parts.join('.') : `~> ${[...parts, '0'].join('.')}`;
+}
+
+/**
+ * Commands that build a site with a generator installed by the build itself (MkDocs
+ * into a virtualenv, Jekyll through Bundler or RubyGems) or found on the PATH (Hugo,
+ * Zola). `toolsDir` is a writable directory inside the sandbox.
+ */
+export async function planStaticGeneratorBuild(
+    generator: StaticGeneratorDefinition,
+    siteDir: string,
+    toolsDir: string,
+    version: string | null
+): Promise<StaticGeneratorPlan> {
+    switch (generator.id) {
+        case 'mkdocs': {
+            const venv = path.join(toolsDir, 'venv');
+            const config = await readFirst(siteDir, MKDOCS_CONFIG_FILES);
+            const hasRequirements = (await readFirst(siteDir, ['requirements.txt'])) !== null;
+            const packages = hasRequirements ? ['-r requirements.txt'] : [];
+            if (version) {
+                packages.push(`'mkdocs${toPipSpecifier(version)}'`);
+            } else if (!hasRequirements) {
+                packages.push('mkdocs');
+            }
+            if (!hasRequirements && /^\s*name\s*:\s*['"]?material\b/m.test(config ?? '')) {
+                packages.push('mkdocs-material');
+            }
+            return {
+                install: [
+                    `python3 -m venv ${venv}`,
+                    `${venv}/bin/pip install --quiet --disable-pip-version-check ${packages.join(' ')}`,
+                ],
+                versionCommand: `${venv}/bin/mkdocs --version`,
+                build: `${venv}/bin/mkdocs build`,
+                env: {},
+            };
+        }
+        case 'jekyll': {
+            const env = { JEKYLL_ENV: 'production' };
+            if ((await readFirst(siteDir, ['Gemfile'])) !== null) {
+                // The Gemfile (and its lock) pins Jekyll; generatorVersion does not apply
+                return {
+                    install: ['bundle install'],
+                    versionCommand: 'bundle exec jekyll --version',
+                    build: 'bundle exec jekyll build',
+                    env: { ...env, BUNDLE_PATH: path.join(toolsDir, 'bundle') },
+                };
+            }
+            const gemHome = path.join(toolsDir, 'gems');
+            return {
+                install: [`gem install --no-document jekyll${version ? ` -v '${toGemRequirement(version)}'` : ''}`],
+                versionCommand: `${gemHome}/bin/jekyll --version`,
+                build: `${gemHome}/bin/jekyll build`,
+                env: { ...env, GEM_HOME: gemHome, GEM_PATH: gemHome },
+            };
+        }
+        case 'hugo':
+            return {
+                install: [],
+                versionCommand: 'hugo version',
+                build: generator.command,
+                env: { HUGO_ENVIRONMENT: 'production', HUGO_CACHEDIR: path.join(toolsDir, 'hugo-cache') },
+            };
+        case 'zola':
+            return { install: [], versionCommand: 'zola --version', build: generator.command, env: {} };
+    }
+}
@@ -0,0 +1,54 @@
+export const UNIXFS_CHUNKERS = ['fixed', 'rabin'] as const;
+
+export const MIN_CHUNK_SIZE = 1024;
+/** Gateways and bitswap peers refuse blocks over 1 MiB. */
+export const MAX_CHUNK_SIZE = 1024 * 1024;
+export const MIN_SHARD_SPLIT_THRESHOLD = 1024;
+export const MAX_SHARD_SPLIT_THRESHOLD = 1024 * 1024;
+
+export type UnixfsChunker = (typeof UNIXFS_CHUNKERS)[number];
+
+/** Everything that determines the CIDs of a deployment, recorded with it. Blocks are always hashed with SHA-256. */
+export interface UnixfsSettings {
+    cidVersion: 1;
+    rawLeaves: true;
+    /** Fixed-size chunks, or content-defined (Rabin) chunks averaging `chunkSize`. */
+    chunker: UnixfsChunker;
+    chunkSize: number;
+    /** Directories whose node would exceed this many bytes become HAMT shards. */
+    shardSplitThresholdBytes: number;
+}
+
+/** The settings a project can change; the rest are fixed. */
+export type UnixfsSettingsOverrides = Partial<
+    Pick<UnixfsSettings, 'chunker' | 'chunkSize' | 'shardSplitThresholdBytes'>
+>;
+
+/** The importer's defaults, which produce the same CIDs as before settings existed. */
+export const DEFAULT_UNIXFS_SETTINGS: UnixfsSettings = {
+    cidVersion: 1,
+    rawLeaves: true,
+    chunker: 'fixed',
+    chunkSize: 256 * 1024,
+    shardSplitThresholdBytes: 256 * 1024,
+};
+
+export function resolveUnixfsSettings(overrides?: UnixfsSettingsOverrides | null): UnixfsSettings {
+    return {
+        ...DEFAULT_UNIXFS_SETTINGS,
+        chunker: overrides?.chunker ?? DEFAULT_UNIXFS_SETTINGS.chunker,
+        chunkSize: overrides?.chunkSize ?? DEFAULT_UNIXFS_SETTINGS.chunkSize,
+        shardSplitThresholdBytes: overrides?.shardSplitThresholdBytes ?? DEFAULT_UNIXFS_SETTINGS.shardSplitThresholdBytes,
+    };
+}
+
+function formatKib(bytes: number) {
+    return bytes % 1024 === 0 ? `${bytes / 1024} KiB` : `${bytes} bytes`;
+}
+
+/** One line for the build log, e.g. `fixed 256 KiB chunks, HAMT above 256 KiB, CIDv1`. */
+export function describeUnixfsSettings(settings: UnixfsSettings) {
+    const chunks =
+        settings.chunker === 'rabin' ? `rabin chunks (avg ${formatKib(settings.chunkSize)})` : `fixed ${formatKib(settings.chunkSize)} chunks`;
+    return `${chunks}, HAMT above ${formatKib(settings.shardSplitThresholdBytes)}, CIDv${settings.cidVersion}`;
+}
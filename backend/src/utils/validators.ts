@@ -1,4 +1,32 @@
 import { z } from 'zod';
+import { parseNodeVersionSpec } from './node-version';
+import { GENERATOR_VERSION_PATTERN } from './static-generators';
+import { GATEWAY_PATH_MODES } from './gateway-paths';
+import {
+    MAX_CHUNK_SIZE,
+    MAX_SHARD_SPLIT_THRESHOLD,
+    MIN_CHUNK_SIZE,
+    MIN_SHARD_SPLIT_THRESHOLD,
+    UNIXFS_CHUNKERS,
+} from './unixfs-settings';
+
+const nodeVersion = z
+    .string()
+    .max(64)
+    .refine((value) => !value.trim() || parseNodeVersionSpec(value) !== null, 'Invalid Node.js version');
+
+const generatorVersion = z
+    .string()
+    .refine((value) => !value.trim() || GENERATOR_VERSION_PATTERN.test(value.trim()), 'Invalid generator version');
+
+// Strict: the body is stored as given, so unknown keys must not reach the column
+const unixfsSettings = z
+    .object({
+        chunker: z.enum(UNIXFS_CHUNKERS).optional(),
+        chunkSize: z.number().int().min(MIN_CHUNK_SIZE).max(MAX_CHUNK_SIZE).optional(),
+        shardSplitThresholdBytes: z.number().int().min(MIN_SHARD_SPLIT_THRESHOLD).max(MAX_SHARD_SPLIT_THRESHOLD).optional(),
+    })
+    .strict();
 
 export const createProjectSchema = z.object({
     body: z.object({
@@ -14,6 +42,15 @@ export const createProjectSchema = z.object({
         buildCommand: z.string().optional(),
         outputDir: z.string().optional(),
         frontendDir: z.string().min(1).optional(),
+        packageManager: z.enum(['npm', 'pnpm', 'yarn', 'bun']).optional(),
+        installCommand: z.string().optional(),
+        gitSubmodules: z.boolean().optional(),
+        gitLfs: z.boolean().optional(),
+        nodeVersion: nodeVersion.nullable().optional(),
+        generatorVersion: generatorVersion.nullable().optional(),
+        gatewayPathMode: z.enum(GATEWAY_PATH_MODES).optional(),
+        forceReupload: z.boolean().optional(),
+        unixfsSettings: unixfsSettings.nullable().optional(),
         force: z.boolean().optional(),
     }).refine(
         (data) => {
@@ -36,6 +73,19 @@ export const updateProjectSchema = z.object({
         buildCommand: z.string().optional(),
         outputDir: z.string().optional(),
         frontendDir: z.string().min(1).optional(),
+        packageManager: z.enum(['npm', 'pnpm', 'yarn', 'bun']).nullable().optional(),
+        installCommand: z.string().nullable().optional(),
+        buildCpus: z.number().min(0.25).max(8).nullable().optional(),
+        buildMemoryMb: z.number().int().min(256).max(16384).nullable().optional(),
+        buildDiskMb: z.number().int().min(256).max(51200).nullable().optional(),
+        buildNetworkEnabled: z.boolean().optional(),
+        gitSubmodules: z.boolean().optional(),
+        gitLfs: z.boolean().optional(),
+        nodeVersion: nodeVersion.nullable().optional(),
+        generatorVersion: generatorVersion.nullable().optional(),
+        gatewayPathMode: z.enum(GATEWAY_PATH_MODES).optional(),
+        forceReupload: z.boolean().optional(),
+        unixfsSettings: unixfsSettings.nullable().optional(),
     }),
 });
 
@@ -45,6 +95,32 @@ export const webhookToggleSchema = z.object({
     }),
 });
 
+const envVarKey = z
+    .string()
+    .min(1)
+    .max(256)
+    .regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Must start with a letter or underscore and contain only letters, digits and underscores');
+
+export const createEnvVarSchema = z.object({
+    body: z.object({
+        key: envVarKey,
+        value: z.string().max(65536),
+        isSecret: z.boolean().optional(),
+        target: z.enum(['all', 'production', 'preview']).optional(),
+        branch: z.string().max(255).nullable().optional(),
+    }),
+});
+
+export const updateEnvVarSchema = z.object({
+    body: z.object({
+        key: envVarKey.optional(),
+        value: z.string().max(65536).optional(),
+        isSecret: z.boolean().optional(),
+        target: z.enum(['all', 'production', 'preview']).optional(),
+        branch: z.string().max(255).nullable().optional(),
+    }),
+});
+
 export const emptyBodySchema = z.object({
     body: z.object({}).optional(),
 });
@@ -54,9 +130,13 @@ export const uploadFailureSchema = z.object({
         message: z.string().optional(),
     }),
 });
+/** Branch, tag or commit SHA: git ref characters only, never starting with "-" so it can't pass as an option. */
+export const GIT_REF_PATTERN = /^(?!-)(?!.*\.\.)[A-Za-z0-9._/-]+$/;
+
 export const createDeploymentSchema = z.object({
     body: z.object({
         projectId: z.string().min(1),
+        ref: z.string().min(1).max(255).regex(GIT_REF_PATTERN, 'Invalid git ref').optional(),
     }),
 });
 
@@ -0,0 +1,290 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { getExecCommand, getPackageManagerCommand, type PackageManagerInfo } from './package-manager';
+
+export type WorkspaceOrchestrator = 'turbo' | 'nx';
+
+export interface WorkspacePackage {
+    name: string;
+    /** Package directory relative to the workspace root, with forward slashes. */
+    dir: string;
+    hasBuildScript: boolean;
+    /** Names of other workspace packages this one depends on. */
+    dependencies: string[];
+}
+
+export interface WorkspaceInfo {
+    source: 'pnpm-workspace.yaml' | 'package.json';
+    orchestrator: WorkspaceOrchestrator | null;
+    packages: WorkspacePackage[];
+}
+
+/** Read access to a repository checkout, on disk or through the GitHub API. */
+export interface WorkspaceReader {
+    /** File contents, or null when the file does not exist. */
+    readFile(relativePath: string): Promise<string | null>;
+    /** Names of the subdirectories of a directory. */
+    listDirectories(relativeDir: string): Promise<string[]>;
+}
+
+const SKIPPED_DIRECTORIES = new Set(['node_modules', '.git']);
+/** How deep a `**` pattern may descend; workspace packages are never nested further. */
+const MAX_GLOBSTAR_DEPTH = 5;
+const PACKAGE_NAME_PATTERN = /^(?:@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/;
+const PACKAGE_DIR_PATTERN = /^[A-Za-z0-9._@/-]+$/;
+
+export function createFsWorkspaceReader(rootDir: string): WorkspaceReader {
+    return {
+        readFile: (relativePath) => fs.readFile(path.join(rootDir, relativePath), 'utf-8').catch(() => null),
+        listDirectories: async (relativeDir) => {
+            const entries = await fs.readdir(path.join(rootDir, relativeDir), { withFileTypes: true }).catch(() => []);
+            return entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name);
+        },
+    };
+}
+
+export function parseJsonObject(contents: string | null): Record<string, any> | null {
+    if (!contents) {
+        return null;
+    }
+    try {
+        const parsed = JSON.parse(contents);
+        return parsed && typeof parsed === 'object' ? parsed : null;
+    } catch {
+        return null;
+    }
+}
+
+function unquote(value: string) {
+    return value.trim().replace(/^['"]|['"]$/g, '');
+}
+
+/** Reads the `packages` list from pnpm-workspace.yaml, block or flow style. */
+export function parsePnpmWorkspacePackages(contents: string): string[] {
+    const lines = contents.split(/\r?\n/).map((line) => line.replace(/\s+#.*$/, ''));
+    const start = lines.findIndex((line) => /^packages\s*:/.test(line));
+    if (start === -1) {
+        return [];
+    }
+
+    const inline = lines[start].replace(/^packages\s*:/, '').trim();
+    if (inline.startsWith('[')) {
+        return inline
+            .replace(/^\[|\]$/g, '')
+            .split(',')
+            .map(unquote)
+            .filter(Boolean);
+    }
+
+    const patterns: string[] = [];
+    for (const line of lines.slice(start + 1)) {
+        if (!line.trim() || line.trim().startsWith('#')) {
+            continue;
+        }
+        const item = line.match(/^\s*-\s*(.+)$/);
+        if (!item) {
+            break;
+        }
+        patterns.push(unquote(item[1]));
+    }
+    return patterns;
+}
+
+function segmentPattern(segment: string) {
+    const escaped = segment.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]');
+    return new RegExp(`^${escaped}$`);
+}
+
+/** Directories matching one workspace glob, e.g. `apps/*` or `packages/**`. */
+async function expandPattern(reader: WorkspaceReader, pattern: string): Promise<string[]> {
+    const segments = pattern.replace(/^\.\//, '').replace(/\/+$/, '').split('/').filter(Boolean);
+    const matches: string[] = [];
+
+    const walk = async (dir: string, index: number, globstarDepth: number): Promise<void> => {
+        if (index === segments.length) {
+            matches.push(dir);
+            return;
+        }
+        const segment = segments[index];
+        if (segment === '**') {
+            await walk(dir, index + 1, globstarDepth);
+            if (globstarDepth < MAX_GLOBSTAR_DEPTH) {
+                for (const child of await reader.listDirectories(dir)) {
+                    if (!SKIPPED_DIRECTORIES.has(child) && !child.startsWith('.')) {
+                        await walk(dir ? `${dir}/${child}` : child, index, globstarDepth + 1);
+                    }
+                }
+            }
+            return;
+        }
+        if (!/[*?]/.test(segment)) {
+            await walk(dir ? `${dir}/${segment}` : segment, index + 1, globstarDepth);
+            return;
+        }
+        const matcher = segmentPattern(segment);
+        for (const child of await reader.listDirectories(dir)) {
+            if (!SKIPPED_DIRECTORIES.has(child) && matcher.test(child)) {
+                await walk(dir ? `${dir}/${child}` : child, index + 1, globstarDepth);
+            }
+        }
+    };
+
+    await walk('', 0, 0);
+    return matches;
+}
+
+/**
+ * Reads the workspace configuration at the reader's root: pnpm-workspace.yaml or the
+ * `workspaces` field of package.json (npm, yarn, bun). Returns null for a plain repo.
+ */
+export async function readWorkspace(reader: WorkspaceReader): Promise<WorkspaceInfo | null> {
+    const rootPackageJson = parseJsonObject(await reader.readFile('package.json'));
+    const pnpmWorkspace = await reader.readFile('pnpm-workspace.yaml');
+
+    let source: WorkspaceInfo['source'];
+    let patterns: string[];
+    if (pnpmWorkspace !== null) {
+        source = 'pnpm-workspace.yaml';
+        patterns = parsePnpmWorkspacePackages(pnpmWorkspace);
+    } else {
+        const workspaces = rootPackageJson?.workspaces;
+        const list = Array.isArray(workspaces) ? workspaces : workspaces?.packages;
+        if (!Array.isArray(list)) {
+            return null;
+        }
+        source = 'package.json';
+        patterns = list.filter((entry): entry is string => typeof entry === 'string');
+    }
+
+    const included = new Set<string>();
+    const excluded = new Set<string>();
+    for (const pattern of patterns) {
+        const negated = pattern.startsWith('!');
+        for (const dir of await expandPattern(reader, negated ? pattern.slice(1) : pattern)) {
+            (negated ? excluded : included).add(dir);
+        }
+    }
+
+    const found: Array<WorkspacePackage & { allDependencies: string[] }> = [];
+    for (const dir of [...included].filter((entry) => !excluded.has(entry)).sort()) {
+        const packageJson = parseJsonObject(await reader.readFile(`${dir}/package.json`));
+        if (typeof packageJson?.name !== 'string') {
+            continue;
+        }
+        const allDependencies = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies'].flatMap(
+            (field) => Object.keys(packageJson[field] ?? {})
+        );
+        found.push({
+            name: packageJson.name,
+            dir,
+            hasBuildScript: typeof packageJson.scripts?.build === 'string',
+            dependencies: [],
+            allDependencies,
+        });
+    }
+
+    const names = new Set(found.map((pkg) => pkg.name));
+    const packages = found.map(({ allDependencies, ...pkg }) => ({
+        ...pkg,
+        dependencies: [...new Set(allDependencies.filter((name) => names.has(name) && name !== pkg.name))],
+    }));
+
+    let orchestrator: WorkspaceOrchestrator | null = null;
+    if ((await reader.readFile('turbo.json')) !== null) {
+        orchestrator = 'turbo';
+    } else if ((await reader.readFile('nx.json')) !== null) {
+        orchestrator = 'nx';
+    }
+
+    return { source, orchestrator, packages };
+}
+
+/**
+ * Nearest directory between the package dir and the repo root that declares a
+ * workspace, or null when the package is not part of one.
+ */
+export async function findWorkspaceRoot(packageDir: string, rootDir: string): Promise<string | null> {
+    const root = path.resolve(rootDir);
+    let current = path.dirname(path.resolve(packageDir));
+    while (current.startsWith(root)) {
+        const reader = createFsWorkspaceReader(current);
+        if ((await reader.readFile('pnpm-workspace.yaml')) !== null) {
+            return current;
+        }
+        const workspaces = parseJsonObject(await reader.readFile('package.json'))?.workspaces;
+        if (Array.isArray(workspaces) || Array.isArray(workspaces?.packages)) {
+            return current;
+        }
+        if (current === root) {
+            return null;
+        }
+        current = path.dirname(current);
+    }
+    return null;
+}
+
+/** The target and every workspace package it depends on, dependencies first. */
+export function getWorkspaceBuildOrder(workspace: WorkspaceInfo, target: WorkspacePackage): WorkspacePackage[] {
+    const byName = new Map(workspace.packages.map((pkg) => [pkg.name, pkg]));
+    const order: WorkspacePackage[] = [];
+    const visited = new Set<string>();
+
+    const visit = (pkg: WorkspacePackage) => {
+        if (visited.has(pkg.name)) {
+            return;
+        }
+        visited.add(pkg.name);
+        for (const dependency of pkg.dependencies) {
+            const next = byName.get(dependency);
+            if (next) {
+                visit(next);
+            }
+        }
+        order.push(pkg);
+    };
+
+    visit(target);
+    return order;
+}
+
+/**
+ * Command that builds one workspace package and its workspace dependencies, run from
+ * the workspace root. Turborepo, Nx and pnpm resolve the graph themselves; otherwise
+ * the packages are built one by one in dependency order. Returns null when a package
+ * name or path would need shell quoting.
+ */
+export function getWorkspaceBuildCommand(
+    workspace: WorkspaceInfo,
+    target: WorkspacePackage,
+    packageManager: PackageManagerInfo
+): string | null {
+    const order = getWorkspaceBuildOrder(workspace, target);
+    if (order.some((pkg) => !PACKAGE_NAME_PATTERN.test(pkg.name) || !PACKAGE_DIR_PATTERN.test(pkg.dir))) {
+        return null;
+    }
+
+    if (workspace.orchestrator === 'turbo') {
+        return `${getExecCommand(packageManager, 'turbo')} run build --filter=${target.name}...`;
+    }
+    if (workspace.orchestrator === 'nx') {
+        return `${getExecCommand(packageManager, 'nx')} run ${target.name}:build`;
+    }
+    const bin = getPackageManagerCommand(packageManager);
+    if (packageManager.name === 'pnpm') {
+        return `${bin} --filter ${target.name}... run build`;
+    }
+
+    return order
+        .filter((pkg) => pkg.hasBuildScript || pkg === target)
+        .map((pkg) => {
+            switch (packageManager.name) {
+                case 'yarn':
+                    return `${bin} workspace ${pkg.name} run build`;
+                case 'bun':
+                    return `${bin} run --cwd ${pkg.dir} build`;
+                default:
+                    return `${bin} run build --workspace=${pkg.dir}`;
+            }
+        })
+        .join(' && ');
+}
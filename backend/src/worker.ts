@@ -0,0 +1,125 @@
+import cluster from 'cluster';
+import express from 'express';
+import { AggregatorRegistry } from 'prom-client';
+import { env } from './config/env';
+import { requireMetricsAccess } from './middleware/metricsAuth';
+import { logger } from './utils/logger';
+import { cancelStaleDeployments, recheckEnsConfirmations } from './services/startup.service';
+import { deploymentQueue } from './services/deployment-queue.service';
+import { deploymentPipeline } from './services/deployment-pipeline.service';
+import { metrics } from './services/metrics.service';
+
+/**
+ * Build worker entrypoint. The primary process runs startup recovery and keeps
+ * BUILD_WORKER_PROCESSES children alive; each child consumes deployment jobs from the
+ * database. Workers share nothing with the API but the database and the builds directory.
+ */
+
+const RESTART_DELAY_MS = 1000;
+
+/** Serves the build metrics of all children, summed, on WORKER_METRICS_PORT. */
+function startMetricsServer() {
+    if (!env.METRICS_TOKEN && !env.METRICS_ALLOWED_IPS) {
+        return;
+    }
+    const registry = new AggregatorRegistry();
+    const app = express();
+    app.get('/metrics', requireMetricsAccess, async (req, res) => {
+        try {
+            res.set('Content-Type', registry.contentType);
+            res.send(await registry.clusterMetrics());
+        } catch (error) {
+            logger.warn('Failed to collect build worker metrics', {
+                error: error instanceof Error ? error.message : String(error),
+            });
+            res.status(500).json({ error: 'Internal Server Error', message: 'Failed to collect metrics' });
+        }
+    });
+    app.listen(env.WORKER_METRICS_PORT, () => {
+        logger.info('Build worker metrics listening', { port: env.WORKER_METRICS_PORT });
+    });
+}
+
+async function runPrimary() {
+    const processes = Math.max(env.BUILD_WORKER_PROCESSES, 1);
+    let shuttingDown = false;
+
+    logger.info('Build worker primary starting', {
+        pid: process.pid,
+        processes,
+        concurrency: env.BUILD_WORKER_CONCURRENCY,
+        environment: env.NODE_ENV,
+    });
+
+    const count = await cancelStaleDeployments();
+    if (count > 0) {
+        logger.info(`Cancelled ${count} stale deployment(s) from previous session`);
+    }
+    void recheckEnsConfirmations();
+
+    cluster.on('exit', (worker, code, signal) => {
+        if (shuttingDown) {
+            return;
+        }
+        logger.warn('Build worker exited; restarting', { pid: worker.process.pid, code, signal });
+        setTimeout(() => cluster.fork(), RESTART_DELAY_MS);
+    });
+
+    for (let i = 0; i < processes; i++) {
+        cluster.fork();
+    }
+    startMetricsServer();
+
+    const shutdown = (signal: NodeJS.Signals) => {
+        if (shuttingDown) {
+            return;
+        }
+        shuttingDown = true;
+        logger.info('Stopping build workers', { signal });
+        for (const worker of Object.values(cluster.workers ?? {})) {
+            worker?.process.kill('SIGTERM');
+        }
+        cluster.on('exit', () => {
+            if (Object.keys(cluster.workers ?? {}).length === 0) {
+                process.exit(0);
+            }
+        });
+    };
+    process.on('SIGTERM', shutdown);
+    process.on('SIGINT', shutdown);
+}
+
+function runWorker() {
+    AggregatorRegistry.setRegistries([metrics.registry]);
+    deploymentQueue.start((context) => deploymentPipeline.run(context), {
+        concurrency: env.BUILD_WORKER_CONCURRENCY,
+    });
+
+    let stopping = false;
+    const shutdown = async () => {
+        if (stopping) {
+            return;
+        }
+        stopping = true;
+        await deploymentQueue.stop().catch((error) => {
+            logger.error('Failed to stop deployment queue cleanly', {
+                error: error instanceof Error ? error.message : String(error),
+            });
+        });
+        process.exit(0);
+    };
+    process.on('SIGTERM', shutdown);
+    // Ctrl+C reaches the whole process group; the primary coordinates the shutdown
+    process.on('SIGINT', () => undefined);
+}
+
+if (cluster.isPrimary) {
+    runPrimary().catch((error) => {
+        logger.error('Build worker primary failed to start', {
+            error: error instanceof Error ? error.message : String(error),
+        });
+        process.exit(1);
+    });
+} else {
+    runWorker();
+}
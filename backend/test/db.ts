@@ -0,0 +1,33 @@
+import path from 'path';
+import { PGlite } from '@electric-sql/pglite';
+import { getTableName, is, sql } from 'drizzle-orm';
+import { PgTable, type PgDatabase } from 'drizzle-orm/pg-core';
+import { drizzle } from 'drizzle-orm/pglite';
+import { migrate } from 'drizzle-orm/pglite/migrator';
+import * as schema from '../src/db/schema';
+
+const MIGRATIONS_DIR = path.resolve(__dirname, '../drizzle/migrations');
+
+const TABLES = Object.values<unknown>(schema)
+    .filter((value): value is PgTable => is(value, PgTable))
+    .map((table) => `"${getTableName(table)}"`);
+
+/**
+ * In-memory Postgres with the app's migrations applied, for tests that run real queries.
+ * Swap it in for the app's database with:
+ *
+ *     vi.mock('../db', async () => {
+ *         const { createTestDb } = await import('../../test/db');
+ *         return { ...(await import('../db/schema')), db: await createTestDb() };
+ *     });
+ */
+export async function createTestDb() {
+    const db = drizzle(new PGlite(), { schema });
+    await migrate(db, { migrationsFolder: MIGRATIONS_DIR });
+    return db;
+}
+
+/** Empty every app table between tests. */
+export async function resetTestDb(db: PgDatabase<any, any>) {
+    await db.execute(sql.raw(`truncate table ${TABLES.join(', ')} restart identity cascade`));
+}
@@ -0,0 +1,22 @@
+import { logger } from '../src/utils/logger';
+
+// Required by config/env; tests never reach GitHub, Ethereum or Filecoin
+const TEST_ENV: Record<string, string> = {
+    FRONTEND_URL: 'http://localhost:5173',
+    BACKEND_URL: 'http://localhost:3000',
+    SESSION_SECRET: 'test-session-secret-that-is-32-chars-long',
+    ENCRYPTION_KEY: '0'.repeat(64),
+    GITHUB_WEBHOOK_SECRET_ENCRYPTION_KEY: '1'.repeat(64),
+    GITHUB_APP_ID: '1',
+    GITHUB_APP_NAME: 'filify-test',
+    GITHUB_APP_PRIVATE_KEY: 'test-private-key',
+    ALCHEMY_KEY: 'test',
+    THEGRAPH_API_KEY: 'test',
+    FILECOIN_PRIVATE_KEY: `0x${'1'.repeat(64)}`,
+};
+
+for (const [key, value] of Object.entries(TEST_ENV)) {
+    process.env[key] = value;
+}
+
+logger.silent = true;
@@ -0,0 +1,204 @@
+import { useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { formatDistanceToNow } from 'date-fns'
+import { File, Folder } from 'lucide-react'
+import type { DeploymentDiffResponse, DeploymentFile, DeploymentFilesResponse } from '@/types'
+import { Input } from '@/components/ui/input'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+
+/** Rows rendered per list; large sites have tens of thousands of files. */
+const MAX_ROWS = 500
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
+}
+
+function formatDelta(bytes: number) {
+  if (bytes === 0) return '±0 B'
+  return bytes > 0 ? `+${formatBytes(bytes)}` : `−${formatBytes(-bytes)}`
+}
+
+/** Subdirectories (with their file count and size) and files directly inside `dir`. */
+function listDirectory(files: DeploymentFile[], dir: string) {
+  const prefix = dir ? `${dir}/` : ''
+  const directories = new Map<string, { files: number; size: number }>()
+  const entries: DeploymentFile[] = []
+  for (const file of files) {
+    if (!file.path.startsWith(prefix)) continue
+    const rest = file.path.slice(prefix.length)
+    const slash = rest.indexOf('/')
+    if (slash === -1) {
+      entries.push(file)
+      continue
+    }
+    const name = rest.slice(0, slash)
+    const summary = directories.get(name) ?? { files: 0, size: 0 }
+    summary.files += 1
+    summary.size += file.size
+    directories.set(name, summary)
+  }
+  return {
+    directories: [...directories].sort(([a], [b]) => a.localeCompare(b)),
+    files: entries,
+  }
+}
+
+function MoreRows({ total }: { total: number }) {
+  if (total <= MAX_ROWS) return null
+  return <p className="pt-1 text-xs text-muted-foreground">…and {total - MAX_ROWS} more</p>
+}
+
+function FileRow({ file, label }: { file: DeploymentFile; label: string }) {
+  return (
+    <div className="grid grid-cols-[1fr,9rem,5rem,7rem] items-center gap-3 py-1 text-xs">
+      <span className="flex min-w-0 items-center gap-2">
+        <File className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+        <span className="truncate font-mono" title={file.path}>{label}</span>
+      </span>
+      <span className="truncate text-muted-foreground">{file.contentType}</span>
+      <span className="text-right font-mono">{formatBytes(file.size)}</span>
+      <span className="truncate font-mono text-muted-foreground" title={file.cid}>{file.cid.slice(-10)}</span>
+    </div>
+  )
+}
+
+function FileBrowser({ manifest }: { manifest: DeploymentFilesResponse }) {
+  const [dir, setDir] = useState('')
+  const [filter, setFilter] = useState('')
+  const listing = useMemo(() => listDirectory(manifest.files, dir), [manifest.files, dir])
+  const matches = useMemo(() => {
+    const query = filter.trim().toLowerCase()
+    return query ? manifest.files.filter((file) => file.path.toLowerCase().includes(query)) : null
+  }, [manifest.files, filter])
+  const segments = dir ? dir.split('/') : []
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        {manifest.totalFiles} files, {formatBytes(manifest.totalSize)}
+      </p>
+      <Input placeholder="Filter by path" value={filter} onChange={(event) => setFilter(event.target.value)} />
+      {matches ? (
+        <div className="divide-y">
+          {matches.slice(0, MAX_ROWS).map((file) => (
+            <FileRow key={file.path} file={file} label={file.path} />
+          ))}
+          {matches.length === 0 && <p className="text-sm text-muted-foreground">No files match.</p>}
+          <MoreRows total={matches.length} />
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-1 font-mono text-xs">
+            <button type="button" className="text-primary hover:underline" onClick={() => setDir('')}>
+              /
+            </button>
+            {segments.map((segment, index) => (
+              <span key={index} className="flex items-center gap-1">
+                <button
+                  type="button"
+                  className="text-primary hover:underline"
+                  onClick={() => setDir(segments.slice(0, index + 1).join('/'))}
+                >
+                  {segment}
+                </button>
+                <span className="text-muted-foreground">/</span>
+              </span>
+            ))}
+          </div>
+          <div className="divide-y">
+            {listing.directories.map(([name, summary]) => (
+              <button
+                key={name}
+                type="button"
+                className="grid w-full grid-cols-[1fr,9rem,5rem,7rem] items-center gap-3 py-1 text-left text-xs hover:bg-muted/50"
+                onClick={() => setDir(dir ? `${dir}/${name}` : name)}
+              >
+                <span className="flex min-w-0 items-center gap-2">
+                  <Folder className="h-3.5 w-3.5 shrink-0 text-primary" />
+                  <span className="truncate font-mono">{name}/</span>
+                </span>
+                <span className="text-muted-foreground">{summary.files} files</span>
+                <span className="text-right font-mono">{formatBytes(summary.size)}</span>
+                <span />
+              </button>
+            ))}
+            {listing.files.slice(0, MAX_ROWS).map((file) => (
+              <FileRow key={file.path} file={file} label={file.path.slice(dir ? dir.length + 1 : 0)} />
+            ))}
+            <MoreRows total={listing.files.length} />
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+function Changes({ comparison }: { comparison: DeploymentDiffResponse | null }) {
+  if (!comparison?.base || !comparison.diff) {
+    return <p className="text-sm text-muted-foreground">No previous deployment with a file manifest to compare with.</p>
+  }
+  const { base, diff } = comparison
+  const rows = [
+    ...diff.added.map((file) => ({ kind: 'added' as const, path: file.path, detail: `+${formatBytes(file.size)}` })),
+    ...diff.removed.map((file) => ({ kind: 'removed' as const, path: file.path, detail: `−${formatBytes(file.size)}` })),
+    ...diff.changed.map((file) => ({ kind: 'changed' as const, path: file.path, detail: formatDelta(file.sizeDelta) })),
+  ].sort((a, b) => a.path.localeCompare(b.path))
+  const markers = {
+    added: { symbol: '+', className: 'text-success' },
+    removed: { symbol: '−', className: 'text-destructive' },
+    changed: { symbol: '~', className: 'text-warning' },
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        Since{' '}
+        <Link to={`/deployments/${base.id}`} className="font-mono text-primary hover:underline">
+          #{base.id.slice(0, 8)}
+        </Link>{' '}
+        ({formatDistanceToNow(new Date(base.createdAt), { addSuffix: true })}): {diff.added.length} added, {diff.removed.length} removed,{' '}
+        {diff.changed.length} changed, {diff.unchanged} unchanged · {formatDelta(diff.sizeDelta)}
+      </p>
+      {rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No files changed.</p>
+      ) : (
+        <div className="divide-y">
+          {rows.slice(0, MAX_ROWS).map((row) => (
+            <div key={`${row.kind}-${row.path}`} className="grid grid-cols-[1rem,1fr,6rem] items-center gap-3 py-1 text-xs">
+              <span className={`font-mono font-bold ${markers[row.kind].className}`}>{markers[row.kind].symbol}</span>
+              <span className="truncate font-mono" title={row.path}>{row.path}</span>
+              <span className="text-right font-mono text-muted-foreground">{row.detail}</span>
+            </div>
+          ))}
+          <MoreRows total={rows.length} />
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface DeploymentFilesProps {
+  manifest: DeploymentFilesResponse
+  comparison: DeploymentDiffResponse | null
+}
+
+/** Browser for the files a deployment contains, and what changed since the previous one. */
+export function DeploymentFiles({ manifest, comparison }: DeploymentFilesProps) {
+  return (
+    <Tabs defaultValue="files" className="space-y-4">
+      <TabsList>
+        <TabsTrigger value="files">Files</TabsTrigger>
+        <TabsTrigger value="changes">Changes since previous deploy</TabsTrigger>
+      </TabsList>
+      <TabsContent value="files">
+        <FileBrowser manifest={manifest} />
+      </TabsContent>
+      <TabsContent value="changes">
+        <Changes comparison={comparison} />
+      </TabsContent>
+    </Tabs>
+  )
+}
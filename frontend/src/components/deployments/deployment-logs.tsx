@@ -1,14 +1,58 @@
 import { Terminal, Copy, Check } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { useState } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import type { DeploymentLogChunk } from '@/types'
+import { useDeploymentLogs } from '@/hooks/use-deployment-logs'
 
-export function DeploymentLogs({ logs }: { logs?: string | null }) {
+const STAGE_LABELS: Record<string, string> = {
+  setup: 'Setup',
+  clone: 'Clone',
+  install: 'Install',
+  build: 'Build',
+  car: 'CAR',
+  upload: 'Upload',
+  ens: 'ENS',
+}
+
+type LogSection = {
+  stage: string
+  startedAt: string
+  content: string
+}
+
+function groupByStage(chunks: DeploymentLogChunk[]): LogSection[] {
+  const sections: LogSection[] = []
+  for (const chunk of chunks) {
+    const current = sections[sections.length - 1]
+    if (current && current.stage === chunk.stage) {
+      current.content += chunk.content
+    } else {
+      sections.push({ stage: chunk.stage, startedAt: chunk.createdAt, content: chunk.content })
+    }
+  }
+  return sections
+}
+
+export function DeploymentLogs({ deploymentId, logs }: { deploymentId?: string; logs?: string | null }) {
   const [copied, setCopied] = useState(false)
+  const { chunks, complete } = useDeploymentLogs(deploymentId)
+  const sections = useMemo(() => groupByStage(chunks), [chunks])
+  const scrollRef = useRef<HTMLPreElement>(null)
+  const live = Boolean(deploymentId) && !complete
+
+  // Deployments from before live logs only have the stored build log
+  const text = sections.length > 0 ? sections.map((section) => section.content).join('') : logs
+
+  useEffect(() => {
+    if (live && scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight
+    }
+  }, [live, chunks])
 
   const handleCopy = () => {
-    if (logs) {
-      navigator.clipboard.writeText(logs)
+    if (text) {
+      navigator.clipboard.writeText(text)
       setCopied(true)
       setTimeout(() => setCopied(false), 2000)
     }
@@ -20,8 +64,14 @@ export function DeploymentLogs({ logs }: { logs?: string | null }) {
         <CardTitle className="flex items-center gap-2 text-base">
           <Terminal className="h-4 w-4 text-primary" />
           Build Logs
+          {live && (
+            <span className="flex items-center gap-1 text-xs font-normal text-muted-foreground">
+              <span className="h-2 w-2 animate-pulse rounded-full bg-green-500" />
+              Live
+            </span>
+          )}
         </CardTitle>
-        {logs && (
+        {text && (
           <Button variant="ghost" size="sm" onClick={handleCopy}>
             {copied ? (
               <>
@@ -38,9 +88,20 @@ export function DeploymentLogs({ logs }: { logs?: string | null }) {
         )}
       </CardHeader>
       <CardContent>
-        <pre className="max-h-[420px] overflow-auto rounded-lg bg-black p-4 text-xs text-green-400 font-mono leading-relaxed border">
-        {logs ?? 'Logs will appear here once available.'}
-      </pre>
+        <pre
+          ref={scrollRef}
+          className="max-h-[420px] overflow-auto rounded-lg bg-black p-4 text-xs text-green-400 font-mono leading-relaxed border">
+          {sections.length > 0
+            ? sections.map((section, index) => (
+                <div key={`${section.stage}-${index}`}>
+                  <div className="text-muted-foreground">
+                    ── {STAGE_LABELS[section.stage] ?? section.stage} · {new Date(section.startedAt).toLocaleTimeString()} ──
+                  </div>
+                  {section.content}
+                </div>
+              ))
+            : (logs ?? (live ? 'Waiting for build output…' : 'Logs will appear here once available.'))}
+        </pre>
       </CardContent>
     </Card>
   )
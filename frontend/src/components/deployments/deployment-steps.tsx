@@ -1,5 +1,6 @@
 import { Check, Loader2, GitBranch, Hammer, Upload, Globe, CheckCircle, XCircle, AlertCircle, Clock } from 'lucide-react'
-import type { DeploymentStatus } from '@/types'
+import { formatDistanceToNow } from 'date-fns'
+import type { DeploymentProgressEvent, DeploymentQueuePosition, DeploymentStatus } from '@/types'
 
 const ALL_STEPS: DeploymentStatus[] = [
   'pending_build',
@@ -66,9 +67,20 @@ const stepIcons: Record<string, React.ComponentType<{ className?: string }>> = {
 interface DeploymentStepsProps {
   status: DeploymentStatus
   hasEns?: boolean
+  uploadProgress?: DeploymentProgressEvent | null
+  queue?: DeploymentQueuePosition | null
 }
 
-export function DeploymentSteps({ status, hasEns = true }: DeploymentStepsProps) {
+function describeQueue(queue: DeploymentQueuePosition) {
+  const place = queue.position === 1 ? 'Next in queue' : `#${queue.position} in queue`
+  const start = new Date(queue.estimatedStartAt)
+  if (start.getTime() - Date.now() < 30_000) {
+    return `${place} · starting shortly`
+  }
+  return `${place} · starts in about ${formatDistanceToNow(start)}`
+}
+
+export function DeploymentSteps({ status, hasEns = true, uploadProgress, queue }: DeploymentStepsProps) {
   // Choose steps based on whether ENS is enabled
   const baseSteps = hasEns ? ALL_STEPS : IPFS_ONLY_STEPS
   const steps = status === 'failed' || status === 'cancelled' ? baseSteps.slice(0, 4) : baseSteps
@@ -111,7 +123,11 @@ export function DeploymentSteps({ status, hasEns = true }: DeploymentStepsProps)
               </p>
               <p className="text-xs text-muted-foreground mt-0.5">
                 {state === 'active'
-                  ? 'In progress...'
+                  ? step === 'uploading' && uploadProgress
+                    ? `${uploadProgress.message ?? 'Uploading'} (${uploadProgress.progress}%)`
+                    : step === 'pending_build' && queue
+                      ? describeQueue(queue)
+                      : 'In progress...'
                   : state === 'complete'
                     ? 'Complete'
                     : 'Pending'}
@@ -0,0 +1,124 @@
+import { useEffect, useState } from 'react'
+import type { DeploymentStageTiming, DeploymentTimingStage, StageDurationStats } from '@/types'
+
+const stageLabels: Record<DeploymentTimingStage, string> = {
+  queued: 'Queued',
+  setup: 'Setup',
+  clone: 'Clone',
+  install: 'Install',
+  build: 'Build',
+  car: 'Generate CAR',
+  upload: 'Upload',
+  ens_signature: 'ENS signature',
+  ens_confirmation: 'ENS confirmation',
+}
+
+function formatDuration(ms: number) {
+  if (ms < 60_000) {
+    return `${(ms / 1000).toFixed(ms < 10_000 ? 1 : 0)}s`
+  }
+  const minutes = Math.floor(ms / 60_000)
+  const seconds = Math.round((ms % 60_000) / 1000)
+  return `${minutes}m ${seconds.toString().padStart(2, '0')}s`
+}
+
+function barClass(timing: DeploymentStageTiming) {
+  if (!timing.endedAt) return 'bg-primary animate-pulse-slow'
+  if (timing.outcome === 'failed') return 'bg-destructive'
+  if (timing.outcome === 'success') return 'bg-success'
+  return 'bg-muted-foreground/50'
+}
+
+interface DeploymentTimelineProps {
+  stages: DeploymentStageTiming[]
+  /** Project-wide percentiles shown next to each stage for comparison */
+  stats?: StageDurationStats[]
+}
+
+/** Waterfall of stage start and end times, relative to when the deployment was queued. */
+export function DeploymentTimeline({ stages, stats }: DeploymentTimelineProps) {
+  const running = stages.some((timing) => !timing.endedAt)
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    if (!running) {
+      return
+    }
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [running])
+
+  if (stages.length === 0) {
+    return <p className="text-sm text-muted-foreground">No stage timings recorded yet.</p>
+  }
+
+  const start = new Date(stages[0].startedAt).getTime()
+  const end = Math.max(
+    ...stages.map((timing) => (timing.endedAt ? new Date(timing.endedAt).getTime() : now))
+  )
+  const total = Math.max(end - start, 1)
+
+  return (
+    <div className="space-y-2">
+      {stages.map((timing, index) => {
+        const startedAt = new Date(timing.startedAt).getTime()
+        const duration = timing.durationMs ?? Math.max(now - startedAt, 0)
+        const stageStats = stats?.find((entry) => entry.stage === timing.stage)
+        return (
+          <div key={`${timing.stage}-${index}`} className="grid grid-cols-[8rem,1fr,4.5rem] items-center gap-3 text-xs">
+            <span className="truncate font-medium">{stageLabels[timing.stage] ?? timing.stage}</span>
+            <div className="relative h-3 rounded bg-muted">
+              <div
+                className={`absolute inset-y-0 rounded ${barClass(timing)}`}
+                style={{
+                  left: `${((startedAt - start) / total) * 100}%`,
+                  width: `max(${(duration / total) * 100}%, 2px)`,
+                }}
+                title={
+                  stageStats
+                    ? `p50 ${formatDuration(stageStats.p50Ms)} · p95 ${formatDuration(stageStats.p95Ms)} over ${stageStats.count} runs`
+                    : undefined
+                }
+              />
+            </div>
+            <span className="text-right font-mono text-muted-foreground">
+              {formatDuration(duration)}
+              {timing.outcome && timing.outcome !== 'success' ? ` ${timing.outcome}` : ''}
+            </span>
+          </div>
+        )
+      })}
+      <p className="pt-1 text-xs text-muted-foreground">Total {formatDuration(total)}</p>
+    </div>
+  )
+}
+
+interface StageStatsTableProps {
+  stats: StageDurationStats[]
+  sampleSize: number
+}
+
+/** Per-stage p50/p95 durations across a project's recent deployments. */
+export function StageStatsTable({ stats, sampleSize }: StageStatsTableProps) {
+  if (stats.length === 0) {
+    return <p className="text-sm text-muted-foreground">No completed stages yet.</p>
+  }
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="grid grid-cols-[1fr,4.5rem,4.5rem] gap-3 text-muted-foreground">
+        <span>Stage</span>
+        <span className="text-right">p50</span>
+        <span className="text-right">p95</span>
+      </div>
+      {stats.map((entry) => (
+        <div key={entry.stage} className="grid grid-cols-[1fr,4.5rem,4.5rem] gap-3">
+          <span className="font-medium">{stageLabels[entry.stage] ?? entry.stage}</span>
+          <span className="text-right font-mono">{formatDuration(entry.p50Ms)}</span>
+          <span className="text-right font-mono">{formatDuration(entry.p95Ms)}</span>
+        </div>
+      ))}
+      <p className="pt-1 text-muted-foreground">Last {sampleSize} deployments</p>
+    </div>
+  )
+}
@@ -5,7 +5,7 @@ import { z } from "zod";
 import { useAppKitAccount } from "@reown/appkit/react";
 import { usePublicClient } from "wagmi";
 import { useQuery } from "@tanstack/react-query";
-import type { RepositorySummary } from "@/types";
+import type { RepositorySummary, UnixfsSettingsOverrides } from "@/types";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
@@ -20,8 +20,9 @@ import { useNetwork } from "@/context/network-context";
 import { useNavigate } from "react-router-dom";
 import { projectsService } from "@/services/projects.service";
 import { deploymentsService } from "@/services/deployments.service";
-import { useRepositories, useBranches } from "@/hooks/use-repositories";
+import { useRepositories, useBranches, useRepositoryWorkspace } from "@/hooks/use-repositories";
 import { useEnsDomains } from "@/hooks/use-ens-domains";
+import { useFrameworks } from "@/hooks/use-frameworks";
 import { api } from "@/services/api";
 
 const schema = z
@@ -30,13 +31,27 @@ const schema = z
         repoName: z.string().min(1, "Repository is required"),
         repoUrl: z.string().url(),
         repoBranch: z.string().min(1, "Branch is required"),
-        framework: z.enum(["html", "nextjs", "vite", "nuxt"], { required_error: "Framework is required" }),
+        framework: z.string().min(1, "Framework is required"),
         enableEns: z.boolean().default(true),
         ensName: z.string().optional(),
         ensOwnerAddress: z.string().optional(),
         buildCommand: z.string().optional(),
         outputDir: z.string().optional(),
-        frontendDir: z.string().optional()
+        frontendDir: z.string().optional(),
+        packageManager: z.enum(["", "npm", "pnpm", "yarn", "bun"]).optional(),
+        installCommand: z.string().optional(),
+        nodeVersion: z.string().max(64).optional(),
+        generatorVersion: z
+            .string()
+            .regex(/^(v?\d+(\.\d+){0,2})?$/, "Use a version such as 0.125 or 1.6.0")
+            .optional(),
+        gatewayPathMode: z.enum(["report", "rewrite", "base-path"]).default("report"),
+        gitSubmodules: z.boolean().default(false),
+        gitLfs: z.boolean().default(false),
+        forceReupload: z.boolean().default(false),
+        chunker: z.enum(["fixed", "rabin"]).default("fixed"),
+        chunkSizeKib: z.number().int().min(1, "At least 1 KiB").max(1024, "At most 1024 KiB").optional(),
+        shardThresholdKib: z.number().int().min(1, "At least 1 KiB").max(1024, "At most 1024 KiB").optional()
     })
     .refine(
         (data) => {
@@ -62,36 +77,29 @@ const schema = z
             message: "Wallet address is required when ENS is enabled",
             path: ["ensOwnerAddress"]
         }
-    )
-    .refine(
-        (data) => {
-            // Build config required for Next.js and Nuxt
-            if (data.framework === "nextjs" || data.framework === "nuxt") {
-                return !!(data.buildCommand && data.outputDir);
-            }
-            return true;
-        },
-        {
-            message: "Build command and output directory are required for Next.js and Nuxt",
-            path: ["buildCommand"]
-        }
     );
 
 type FormValues = z.infer<typeof schema>;
 
-type Framework = "html" | "nextjs" | "vite" | "nuxt";
-
-const FRAMEWORKS: { value: Framework; label: string; status: "supported" | "coming-soon" }[] = [
-    { value: "nextjs", label: "Next.js", status: "supported" },
-    { value: "vite", label: "Vite", status: "supported" },
-    { value: "nuxt", label: "Nuxt", status: "supported" },
-    { value: "html", label: "HTML", status: "supported" }
-];
+const FRAMEWORKS_WITH_REQUIREMENTS = ["nextjs", "vite", "nuxt", "sveltekit", "remix", "html"];
 
 function formatAddress(address: string) {
     return `${address.slice(0, 6)}...${address.slice(-4)}`;
 }
 
+function toOptionalNumber(value: string) {
+    return value === "" ? undefined : Number(value);
+}
+
+/** UnixFS overrides from the form; null keeps the defaults. */
+function toUnixfsSettings(values: FormValues): UnixfsSettingsOverrides | null {
+    const settings: UnixfsSettingsOverrides = {};
+    if (values.chunker !== "fixed") settings.chunker = values.chunker;
+    if (values.chunkSizeKib !== undefined) settings.chunkSize = values.chunkSizeKib * 1024;
+    if (values.shardThresholdKib !== undefined) settings.shardSplitThresholdBytes = values.shardThresholdKib * 1024;
+    return Object.keys(settings).length > 0 ? settings : null;
+}
+
 export function NewProjectForm() {
     const navigate = useNavigate();
     const { showToast } = useToast();
@@ -100,6 +108,7 @@ export function NewProjectForm() {
     const publicClient = usePublicClient();
     const { repositories, installations, loading: reposLoading, error: reposError, refresh } = useRepositories();
     const [selectedRepo, setSelectedRepo] = useState<RepositorySummary | null>(null);
+    const { frameworks, loading: frameworksLoading, error: frameworksError } = useFrameworks();
     const { branches, loading: branchesLoading } = useBranches(selectedRepo?.installationId ?? null, selectedRepo?.fullName ?? null);
     const walletAddress = isConnected && address ? address : null;
     const { domains: ensDomains, loading: ensLoading, error: ensError, refresh: refreshEns } = useEnsDomains(walletAddress);
@@ -144,7 +153,18 @@ export function NewProjectForm() {
             ensOwnerAddress: "",
             buildCommand: undefined,
             outputDir: undefined,
-            frontendDir: undefined
+            frontendDir: undefined,
+            packageManager: "",
+            installCommand: undefined,
+            nodeVersion: undefined,
+            generatorVersion: undefined,
+            gatewayPathMode: "report",
+            gitSubmodules: false,
+            gitLfs: false,
+            forceReupload: false,
+            chunker: "fixed",
+            chunkSizeKib: undefined,
+            shardThresholdKib: undefined
         }
     });
 
@@ -206,8 +226,17 @@ export function NewProjectForm() {
     }, [branches, selectedRepo, form]);
 
     const selectedFramework = form.watch("framework");
+    const frameworkConfig = frameworks.find((framework) => framework.id === selectedFramework) ?? null;
     const enableEns = form.watch("enableEns");
     const selectedEnsName = form.watch("ensName");
+    const selectedBranch = form.watch("repoBranch");
+    const frontendDir = form.watch("frontendDir");
+    const { workspace, loading: workspaceLoading } = useRepositoryWorkspace(
+        selectedRepo?.installationId ?? null,
+        selectedRepo?.fullName ?? null,
+        selectedBranch || null
+    );
+    const workspacePackages = workspace?.packages ?? [];
     const isWalletReady = Boolean(walletAddress);
     const walletDisplayName = walletEnsName || (walletAddress ? formatAddress(walletAddress) : null);
     // Can submit if repo selected AND (ENS disabled OR (ENS enabled AND domain selected AND wallet ready))
@@ -234,22 +263,10 @@ export function NewProjectForm() {
         }
     }, [ensOptions, form]);
 
-    // Set default build config based on framework selection
+    // Reset build config on framework change; empty fields use the framework's defaults
     useEffect(() => {
-        if (selectedFramework === "nextjs") {
-            form.setValue("buildCommand", "npm run build");
-            form.setValue("outputDir", "out");
-        } else if (selectedFramework === "vite") {
-            form.setValue("buildCommand", "npm run build");
-            form.setValue("outputDir", "dist");
-        } else if (selectedFramework === "nuxt") {
-            form.setValue("buildCommand", "npm run generate");
-            form.setValue("outputDir", ".output/public");
-        } else if (selectedFramework === "html") {
-            // Clear build config for HTML
-            form.setValue("buildCommand", undefined);
-            form.setValue("outputDir", undefined);
-        }
+        form.setValue("buildCommand", undefined);
+        form.setValue("outputDir", undefined);
     }, [selectedFramework, form]);
 
     // Conflict handling
@@ -276,6 +293,15 @@ export function NewProjectForm() {
                 buildCommand: values.buildCommand || undefined,
                 outputDir: values.outputDir || undefined,
                 frontendDir: values.frontendDir || undefined,
+                packageManager: values.packageManager || undefined,
+                installCommand: values.installCommand || undefined,
+                nodeVersion: values.nodeVersion?.trim() || undefined,
+                generatorVersion: frameworkConfig?.kind === "generator" ? values.generatorVersion?.trim() || undefined : undefined,
+                gatewayPathMode: values.gatewayPathMode,
+                gitSubmodules: values.gitSubmodules,
+                gitLfs: values.gitLfs,
+                forceReupload: values.forceReupload,
+                unixfsSettings: toUnixfsSettings(values),
                 force
             });
 
@@ -308,36 +334,27 @@ export function NewProjectForm() {
                     <p className="text-sm text-muted-foreground">Select the framework for your project</p>
                 </CardHeader>
                 <CardContent className="space-y-4">
+                    {frameworksLoading && <p className="text-sm text-muted-foreground">Loading frameworks...</p>}
+                    {frameworksError && <p className="text-sm text-destructive">{frameworksError}</p>}
                     <div className="grid gap-3 md:grid-cols-3">
-                        {FRAMEWORKS.map((framework) => {
-                            const isSelected = selectedFramework === framework.value;
-                            const isComingSoon = framework.status === "coming-soon";
+                        {frameworks.map((framework) => {
+                            const isSelected = selectedFramework === framework.id;
                             return (
                                 <button
-                                    key={framework.value}
+                                    key={framework.id}
                                     type="button"
-                                    onClick={() => {
-                                        if (!isComingSoon) {
-                                            form.setValue("framework", framework.value);
-                                        }
-                                    }}
-                                    disabled={isComingSoon}
+                                    onClick={() => form.setValue("framework", framework.id)}
                                     className={`relative rounded-lg border p-4 text-left transition-smooth ${isSelected
                                         ? "border-primary bg-primary/10"
-                                        : isComingSoon
-                                            ? "border-border bg-muted/20 opacity-60 cursor-not-allowed"
-                                            : "border-border hover:border-primary/50 hover:bg-accent/50"
+                                        : "border-border hover:border-primary/50 hover:bg-accent/50"
                                         }`}>
                                     <div className="flex items-center justify-between">
-                                        <span className="font-semibold">{framework.label}</span>
-                                        {isComingSoon ? (
-                                            <Badge variant="outline" className="text-xs">
-                                                Soon
-                                            </Badge>
-                                        ) : isSelected ? (
-                                            <Badge className="text-xs">Selected</Badge>
-                                        ) : null}
+                                        <span className="font-semibold">{framework.name}</span>
+                                        {isSelected && <Badge className="text-xs">Selected</Badge>}
                                     </div>
+                                    {framework.buildCommand && (
+                                        <p className="mt-1 text-xs text-muted-foreground font-mono">{framework.buildCommand}</p>
+                                    )}
                                 </button>
                             );
                         })}
@@ -349,7 +366,7 @@ export function NewProjectForm() {
             </Card>
 
             {/* Configuration Requirements */}
-            {selectedFramework && (
+            {FRAMEWORKS_WITH_REQUIREMENTS.includes(selectedFramework) && (
                 <Card>
                     <CardHeader>
                         <CardTitle className="text-lg flex items-center gap-2">
@@ -365,8 +382,9 @@ export function NewProjectForm() {
                                 <AlertTitle>Next.js Static Export Configuration</AlertTitle>
                                 <AlertDescription className="space-y-3 mt-2">
                                     <p>
-                                        Your Next.js project must be configured for static export. Add the following to your{" "}
-                                        <code className="px-1.5 py-0.5 rounded bg-muted text-sm font-mono">next.config.js</code>:
+                                        Your Next.js project is built as a static export. If your{" "}
+                                        <code className="px-1.5 py-0.5 rounded bg-muted text-sm font-mono">next.config.js</code> does not set it, Filify
+                                        applies the following on top of your config:
                                     </p>
                                     <div className="rounded-lg bg-muted p-4 font-mono text-xs overflow-x-auto">
                                         <pre className="whitespace-pre-wrap">
@@ -387,7 +405,9 @@ export function NewProjectForm() {
                                             </li>
                                             <li>Server-side features like <code className="px-1 py-0.5 rounded bg-muted font-mono">getServerSideProps</code></li>
                                             <li>API routes in <code className="px-1 py-0.5 rounded bg-muted font-mono">pages/api/</code></li>
+                                            <li>Middleware, Server Actions and i18n routing</li>
                                         </ul>
+                                        <p>The build stops before installing dependencies and lists every file that uses one of these.</p>
                                     </div>
                                     <a
                                         href="https://nextjs.org/docs/app/api-reference/next-config-js/output"
@@ -469,8 +489,9 @@ export function NewProjectForm() {
                                         </pre>
                                     </div>
                                     <p className="text-xs text-muted-foreground">
-                                        <strong>Note:</strong> The build command is already set to{" "}
-                                        <code className="px-1 py-0.5 rounded bg-muted text-xs font-mono">npm run generate</code> which is correct for
+                                        <strong>Note:</strong> With no build command set, Filify runs your{" "}
+                                        <code className="px-1 py-0.5 rounded bg-muted text-xs font-mono">generate</code> script (or{" "}
+                                        <code className="px-1 py-0.5 rounded bg-muted text-xs font-mono">nuxi generate</code>), which is correct for
                                         static generation.
                                     </p>
                                     <a
@@ -485,6 +506,38 @@ export function NewProjectForm() {
                             </Alert>
                         )}
 
+                        {selectedFramework === "sveltekit" && (
+                            <Alert variant="info">
+                                <Info className="h-4 w-4" />
+                                <AlertTitle>SvelteKit Static Adapter</AlertTitle>
+                                <AlertDescription className="space-y-3 mt-2">
+                                    <p>
+                                        Your SvelteKit project must use{" "}
+                                        <code className="px-1.5 py-0.5 rounded bg-muted text-sm font-mono">@sveltejs/adapter-static</code>. Filify
+                                        creates a <code className="px-1.5 py-0.5 rounded bg-muted text-sm font-mono">svelte.config.js</code> for it
+                                        when the adapter is installed and the project has no config; any other adapter fails the build.
+                                    </p>
+                                </AlertDescription>
+                            </Alert>
+                        )}
+
+                        {selectedFramework === "remix" && (
+                            <Alert variant="info">
+                                <Info className="h-4 w-4" />
+                                <AlertTitle>Remix SPA Mode</AlertTitle>
+                                <AlertDescription className="space-y-3 mt-2">
+                                    <p>
+                                        Enable SPA mode in your{" "}
+                                        <code className="px-1.5 py-0.5 rounded bg-muted text-sm font-mono">vite.config.ts</code>; the build output in{" "}
+                                        <code className="px-1.5 py-0.5 rounded bg-muted text-sm font-mono">build/client</code> is deployed.
+                                    </p>
+                                    <div className="rounded-lg bg-muted p-4 font-mono text-xs overflow-x-auto">
+                                        <pre className="whitespace-pre-wrap">{`plugins: [remix({ ssr: false })]`}</pre>
+                                    </div>
+                                </AlertDescription>
+                            </Alert>
+                        )}
+
                         {selectedFramework === "html" && (
                             <Alert variant="info">
                                 <Info className="h-4 w-4" />
@@ -544,23 +597,20 @@ export function NewProjectForm() {
             )}
 
             {/* Build Configuration */}
-            {(selectedFramework === "nextjs" || selectedFramework === "vite" || selectedFramework === "nuxt") && (
+            {frameworkConfig?.buildCommand && (
                 <Card>
                     <CardHeader>
                         <CardTitle className="text-lg">Build Configuration</CardTitle>
                         <p className="text-sm text-muted-foreground">
-                            {selectedFramework === "nextjs"
-                                ? "Customize how Filify builds and exports your Next.js project."
-                                : selectedFramework === "nuxt"
-                                    ? "Customize how Filify builds and generates your Nuxt 3 project."
-                                    : "Customize how Filify builds your Vite project."}
+                            Customize how Filify builds your {frameworkConfig.name} project. Leave the fields empty to use your build script
+                            (or the framework's command) and the framework's output directory.
                         </p>
                     </CardHeader>
                     <CardContent>
                         <div className="grid gap-4 md:grid-cols-2">
                             <div className="space-y-2">
                                 <Label htmlFor="buildCommand">Build command</Label>
-                                <Input id="buildCommand" placeholder="npm run build" {...form.register("buildCommand")} />
+                                <Input id="buildCommand" placeholder={frameworkConfig.buildCommand} {...form.register("buildCommand")} />
                                 {form.formState.errors.buildCommand && (
                                     <p className="text-sm text-destructive font-medium">{form.formState.errors.buildCommand.message}</p>
                                 )}
@@ -569,13 +619,23 @@ export function NewProjectForm() {
                                 <Label htmlFor="outputDir">Output directory</Label>
                                 <Input
                                     id="outputDir"
-                                    placeholder={selectedFramework === "nextjs" ? "out" : selectedFramework === "nuxt" ? ".output/public" : "dist"}
+                                    placeholder={frameworkConfig.outputDir ?? "dist"}
                                     {...form.register("outputDir")}
                                 />
                                 {form.formState.errors.outputDir && (
                                     <p className="text-sm text-destructive font-medium">{form.formState.errors.outputDir.message}</p>
                                 )}
                             </div>
+                            {frameworkConfig.kind === "generator" && (
+                                <div className="space-y-2">
+                                    <Label htmlFor="generatorVersion">{frameworkConfig.name} version (optional)</Label>
+                                    <Input id="generatorVersion" placeholder="e.g., 0.125 or 1.6.0" {...form.register("generatorVersion")} />
+                                    <p className="text-xs text-muted-foreground">Leave empty to use the latest version available, or the one pinned by requirements.txt or the Gemfile.</p>
+                                    {form.formState.errors.generatorVersion && (
+                                        <p className="text-sm text-destructive font-medium">{form.formState.errors.generatorVersion.message}</p>
+                                    )}
+                                </div>
+                            )}
                         </div>
                     </CardContent>
                 </Card>
@@ -703,6 +763,31 @@ export function NewProjectForm() {
                                     )}
                                 </div>
                             </div>
+                            {(workspaceLoading || workspacePackages.length > 0) && (
+                                <div className="space-y-2">
+                                    <Label htmlFor="workspacePackage">Workspace package</Label>
+                                    <select
+                                        id="workspacePackage"
+                                        className="flex h-10 w-full items-center justify-between rounded-lg border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                                        disabled={workspaceLoading}
+                                        value={workspacePackages.some((pkg) => pkg.dir === frontendDir) ? frontendDir : ""}
+                                        onChange={(event) => form.setValue("frontendDir", event.target.value || undefined)}>
+                                        <option value="">{workspaceLoading ? "Loading..." : "Repository root"}</option>
+                                        {workspacePackages.map((pkg) => (
+                                            <option key={pkg.dir} value={pkg.dir}>
+                                                {pkg.name} ({pkg.dir}){pkg.hasBuildScript ? "" : " – no build script"}
+                                            </option>
+                                        ))}
+                                    </select>
+                                    {workspace?.source && (
+                                        <p className="text-xs text-muted-foreground">
+                                            Monorepo detected{workspace.orchestrator ? ` (${workspace.orchestrator === "turbo" ? "Turborepo" : "Nx"})` : ""}.
+                                            Dependencies are installed at the workspace root and the package is built together with the workspace packages it
+                                            depends on.
+                                        </p>
+                                    )}
+                                </div>
+                            )}
                             <div className="space-y-2">
                                 <Label htmlFor="frontendDir">Frontend directory (optional)</Label>
                                 <Input id="frontendDir" placeholder="e.g., frontend, web, app" {...form.register("frontendDir")} />
@@ -714,6 +799,109 @@ export function NewProjectForm() {
                                     <p className="text-sm text-destructive font-medium">{form.formState.errors.frontendDir.message}</p>
                                 )}
                             </div>
+                            <div className="grid gap-4 md:grid-cols-2">
+                                <div className="space-y-2">
+                                    <Label htmlFor="packageManager">Package manager</Label>
+                                    <select
+                                        id="packageManager"
+                                        className="flex h-10 w-full items-center justify-between rounded-lg border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                                        {...form.register("packageManager")}>
+                                        <option value="">Auto-detect from lockfile</option>
+                                        <option value="npm">npm</option>
+                                        <option value="pnpm">pnpm</option>
+                                        <option value="yarn">yarn</option>
+                                        <option value="bun">bun</option>
+                                    </select>
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="installCommand">Install command (optional)</Label>
+                                    <Input id="installCommand" placeholder="e.g., pnpm install --frozen-lockfile" {...form.register("installCommand")} />
+                                </div>
+                            </div>
+                            <p className="text-xs text-muted-foreground">
+                                By default the package manager is picked from the packageManager field or lockfile, and dependencies are installed
+                                from the lockfile without updating it.
+                            </p>
+                            <div className="space-y-2">
+                                <Label htmlFor="nodeVersion">Node.js version (optional)</Label>
+                                <Input id="nodeVersion" placeholder="e.g., 20, 18.19.0, lts/iron" {...form.register("nodeVersion")} />
+                                <p className="text-xs text-muted-foreground">
+                                    Leave empty to use the repository's .nvmrc, .node-version or package.json engines.node, or the build server's default.
+                                </p>
+                            </div>
+                            <div className="space-y-2">
+                                <label className="flex items-center gap-2 text-sm">
+                                    <input type="checkbox" {...form.register("gitSubmodules")} />
+                                    Check out Git submodules
+                                </label>
+                                <label className="flex items-center gap-2 text-sm">
+                                    <input type="checkbox" {...form.register("gitLfs")} />
+                                    Fetch Git LFS files
+                                </label>
+                                <p className="text-xs text-muted-foreground">
+                                    Submodules are checked out recursively with the GitHub App's access, so they must be repositories the app can read.
+                                </p>
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="gatewayPathMode">Gateway paths</Label>
+                                <select
+                                    id="gatewayPathMode"
+                                    className="flex h-10 w-full items-center justify-between rounded-lg border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                                    {...form.register("gatewayPathMode")}>
+                                    <option value="report">Report root-absolute paths in the build log</option>
+                                    <option value="rewrite">Rewrite root-absolute paths to relative paths</option>
+                                    <option value="base-path">Build with a relative base path</option>
+                                </select>
+                                <p className="text-xs text-muted-foreground">
+                                    Paths starting with <code className="px-1 py-0.5 rounded bg-muted text-xs font-mono">/</code> break when the site is
+                                    opened through an IPFS gateway at /ipfs/&lt;cid&gt;/. Rewriting fixes HTML and CSS after the build; a relative base path
+                                    is set for Vite, Angular and Hugo, and other frameworks are rewritten instead.
+                                </p>
+                            </div>
+                            <div className="space-y-2">
+                                <label className="flex items-center gap-2 text-sm">
+                                    <input type="checkbox" {...form.register("forceReupload")} />
+                                    Always upload and update ENS
+                                </label>
+                                <p className="text-xs text-muted-foreground">
+                                    By default a build identical to the last successful deployment (same root CID) reuses its upload and skips the ENS
+                                    transaction.
+                                </p>
+                            </div>
+                            <div className="space-y-2">
+                                <Label>UnixFS import</Label>
+                                <div className="grid gap-3 sm:grid-cols-3">
+                                    <select
+                                        aria-label="Chunker"
+                                        className="flex h-10 w-full items-center justify-between rounded-lg border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                                        {...form.register("chunker")}>
+                                        <option value="fixed">Fixed-size chunks</option>
+                                        <option value="rabin">Rabin (content-defined) chunks</option>
+                                    </select>
+                                    <Input
+                                        type="number"
+                                        aria-label="Chunk size in KiB"
+                                        placeholder="Chunk size, KiB (256)"
+                                        {...form.register("chunkSizeKib", { setValueAs: toOptionalNumber })}
+                                    />
+                                    <Input
+                                        type="number"
+                                        aria-label="HAMT sharding threshold in KiB"
+                                        placeholder="Shard dirs above, KiB (256)"
+                                        {...form.register("shardThresholdKib", { setValueAs: toOptionalNumber })}
+                                    />
+                                </div>
+                                {(form.formState.errors.chunkSizeKib || form.formState.errors.shardThresholdKib) && (
+                                    <p className="text-sm text-destructive">
+                                        {form.formState.errors.chunkSizeKib?.message ?? form.formState.errors.shardThresholdKib?.message}
+                                    </p>
+                                )}
+                                <p className="text-xs text-muted-foreground">
+                                    These settings change the CIDs of the deployment; the ones used are recorded with each deployment. Blocks are hashed
+                                    with SHA-256. Add a <code className="px-1 py-0.5 rounded bg-muted text-xs font-mono">.filifyignore</code> file
+                                    (gitignore syntax) to the repository to leave files such as source maps out of the deployment.
+                                </p>
+                            </div>
                         </>
                     )}
                 </CardContent>
@@ -0,0 +1,255 @@
+import { useState } from "react";
+import { AxiosError } from "axios";
+import { KeyRound, Lock, Pencil, Trash2 } from "lucide-react";
+import type { EnvVarTarget, ProjectEnvVar } from "@/types";
+import { projectsService } from "@/services/projects.service";
+import { useProjectEnvVars } from "@/hooks/use-project-env-vars";
+import { useToast } from "@/context/toast-context";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Spinner } from "@/components/ui/spinner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+const TARGET_LABELS: Record<EnvVarTarget, string> = {
+    all: "All builds",
+    production: "Production",
+    preview: "Preview"
+};
+
+type FormState = {
+    key: string;
+    value: string;
+    isSecret: boolean;
+    target: EnvVarTarget;
+    branch: string;
+};
+
+const EMPTY_FORM: FormState = {
+    key: "",
+    value: "",
+    isSecret: true,
+    target: "all",
+    branch: ""
+};
+
+const selectClassName =
+    "flex h-10 w-full items-center justify-between rounded-lg border border-input bg-background px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50";
+
+export function ProjectEnvVars({ projectId }: { projectId: string }) {
+    const { variables, loading, error, refresh } = useProjectEnvVars(projectId);
+    const { showToast } = useToast();
+    const [form, setForm] = useState<FormState>(EMPTY_FORM);
+    const [editing, setEditing] = useState<ProjectEnvVar | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [deletingId, setDeletingId] = useState<string | null>(null);
+
+    const resetForm = () => {
+        setForm(EMPTY_FORM);
+        setEditing(null);
+    };
+
+    const handleEdit = (variable: ProjectEnvVar) => {
+        setEditing(variable);
+        setForm({
+            key: variable.key,
+            value: variable.value ?? "",
+            isSecret: variable.isSecret,
+            target: variable.target,
+            branch: variable.branch ?? ""
+        });
+    };
+
+    const handleSubmit = async (event: React.FormEvent) => {
+        event.preventDefault();
+        const key = form.key.trim();
+        if (!key) {
+            return;
+        }
+        setSaving(true);
+        try {
+            const branch = form.branch.trim() || null;
+            if (editing) {
+                // Secrets are write-only: leaving the value empty keeps the stored one
+                const keepSecretValue = editing.isSecret && form.value === "";
+                await projectsService.updateEnvVar(projectId, editing.id, {
+                    key,
+                    ...(keepSecretValue ? {} : { value: form.value }),
+                    isSecret: form.isSecret,
+                    target: form.target,
+                    branch
+                });
+                showToast(`${key} updated`, "success");
+            } else {
+                await projectsService.createEnvVar(projectId, {
+                    key,
+                    value: form.value,
+                    isSecret: form.isSecret,
+                    target: form.target,
+                    branch
+                });
+                showToast(`${key} added`, "success");
+            }
+            resetForm();
+            await refresh();
+        } catch (err) {
+            console.error("[ProjectEnvVars][save]", err);
+            const message = err instanceof AxiosError ? err.response?.data?.message : undefined;
+            showToast(message ?? "Failed to save environment variable", "error");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = async (variable: ProjectEnvVar) => {
+        setDeletingId(variable.id);
+        try {
+            await projectsService.deleteEnvVar(projectId, variable.id);
+            if (editing?.id === variable.id) {
+                resetForm();
+            }
+            showToast(`${variable.key} removed`, "success");
+            await refresh();
+        } catch (err) {
+            console.error("[ProjectEnvVars][delete]", err);
+            showToast("Failed to remove environment variable", "error");
+        } finally {
+            setDeletingId(null);
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Environment Variables</CardTitle>
+                <CardDescription>
+                    Available to the install and build commands. Values are encrypted at rest and masked in build logs.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+                {loading && variables.length === 0 ? (
+                    <div className="flex justify-center py-6">
+                        <Spinner />
+                    </div>
+                ) : error ? (
+                    <p className="text-sm text-destructive">{error}</p>
+                ) : variables.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No environment variables yet.</p>
+                ) : (
+                    <div className="divide-y rounded-lg border">
+                        {variables.map((variable) => (
+                            <div key={variable.id} className="flex flex-wrap items-center justify-between gap-3 px-4 py-3">
+                                <div className="min-w-0 space-y-1">
+                                    <div className="flex flex-wrap items-center gap-2">
+                                        <span className="font-mono text-sm font-medium">{variable.key}</span>
+                                        <Badge variant="outline">{TARGET_LABELS[variable.target]}</Badge>
+                                        {variable.branch && <Badge variant="secondary">{variable.branch}</Badge>}
+                                    </div>
+                                    <p className="flex items-center gap-1 truncate font-mono text-xs text-muted-foreground">
+                                        {variable.isSecret ? (
+                                            <>
+                                                <Lock className="h-3 w-3" />
+                                                Secret
+                                            </>
+                                        ) : (
+                                            variable.value
+                                        )}
+                                    </p>
+                                </div>
+                                <div className="flex items-center gap-1">
+                                    <Button variant="ghost" size="sm" onClick={() => handleEdit(variable)} disabled={saving}>
+                                        <Pencil className="h-4 w-4" />
+                                    </Button>
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() => void handleDelete(variable)}
+                                        disabled={deletingId === variable.id}>
+                                        <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <Separator />
+
+                <form className="space-y-4" onSubmit={handleSubmit}>
+                    <div className="flex items-center gap-2 text-sm font-medium">
+                        <KeyRound className="h-4 w-4 text-primary" />
+                        {editing ? `Edit ${editing.key}` : "Add variable"}
+                    </div>
+                    <div className="grid gap-4 md:grid-cols-2">
+                        <div className="space-y-2">
+                            <Label htmlFor="envKey">Key</Label>
+                            <Input
+                                id="envKey"
+                                placeholder="VITE_API_URL"
+                                value={form.key}
+                                onChange={(event) => setForm({ ...form, key: event.target.value })}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="envValue">Value</Label>
+                            <Input
+                                id="envValue"
+                                type={form.isSecret ? "password" : "text"}
+                                placeholder={editing?.isSecret ? "Leave empty to keep the current value" : ""}
+                                value={form.value}
+                                onChange={(event) => setForm({ ...form, value: event.target.value })}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="envTarget">Environment</Label>
+                            <select
+                                id="envTarget"
+                                className={selectClassName}
+                                value={form.target}
+                                onChange={(event) => setForm({ ...form, target: event.target.value as EnvVarTarget })}>
+                                {(Object.keys(TARGET_LABELS) as EnvVarTarget[]).map((target) => (
+                                    <option key={target} value={target}>
+                                        {TARGET_LABELS[target]}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="envBranch">Branch (optional)</Label>
+                            <Input
+                                id="envBranch"
+                                placeholder="Any branch"
+                                value={form.branch}
+                                onChange={(event) => setForm({ ...form, branch: event.target.value })}
+                            />
+                        </div>
+                    </div>
+                    <label className="flex items-center gap-2 text-sm">
+                        <input
+                            type="checkbox"
+                            checked={form.isSecret}
+                            onChange={(event) => setForm({ ...form, isSecret: event.target.checked })}
+                        />
+                        Secret (value can't be viewed after saving)
+                    </label>
+                    <p className="text-xs text-muted-foreground">
+                        When a key is defined more than once, a branch-specific value wins over an environment-specific one, which wins over
+                        "All builds".
+                    </p>
+                    <div className="flex gap-2">
+                        <Button type="submit" disabled={saving || !form.key.trim()}>
+                            {saving ? "Saving…" : editing ? "Save changes" : "Add variable"}
+                        </Button>
+                        {editing && (
+                            <Button type="button" variant="outline" onClick={resetForm} disabled={saving}>
+                                Cancel
+                            </Button>
+                        )}
+                    </div>
+                </form>
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,133 @@
+import { useEffect, useState } from "react";
+import { AxiosError } from "axios";
+import type { Project, UnixfsSettingsOverrides } from "@/types";
+import { projectsService } from "@/services/projects.service";
+import { useToast } from "@/context/toast-context";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+type FormState = {
+    chunker: "fixed" | "rabin";
+    chunkSizeKib: string;
+    shardThresholdKib: string;
+};
+
+const selectClassName =
+    "flex h-10 w-full items-center justify-between rounded-lg border border-input bg-background px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50";
+
+function toFormState(settings: UnixfsSettingsOverrides | null | undefined): FormState {
+    return {
+        chunker: settings?.chunker ?? "fixed",
+        chunkSizeKib: settings?.chunkSize ? String(settings.chunkSize / 1024) : "",
+        shardThresholdKib: settings?.shardSplitThresholdBytes ? String(settings.shardSplitThresholdBytes / 1024) : ""
+    };
+}
+
+/** Bytes for a KiB field; undefined when empty, an error message when out of range. */
+function parseKib(value: string, label: string): number | undefined | string {
+    if (!value.trim()) return undefined;
+    const kib = Number(value);
+    if (!Number.isFinite(kib) || kib < 1) return `${label} must be at least 1 KiB`;
+    if (kib > 1024) return `${label} must be at most 1024 KiB`;
+    return Math.round(kib * 1024);
+}
+
+export function ProjectUnixfsSettings({ project, onSaved }: { project: Project; onSaved: () => Promise<void> | void }) {
+    const { showToast } = useToast();
+    const [form, setForm] = useState<FormState>(() => toFormState(project.unixfsSettings));
+    const [error, setError] = useState<string | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        setForm(toFormState(project.unixfsSettings));
+    }, [project.unixfsSettings]);
+
+    const handleSubmit = async (event: React.FormEvent) => {
+        event.preventDefault();
+        const chunkSize = parseKib(form.chunkSizeKib, "Chunk size");
+        const shardSplitThresholdBytes = parseKib(form.shardThresholdKib, "Sharding threshold");
+        const invalid = [chunkSize, shardSplitThresholdBytes].find((value) => typeof value === "string");
+        if (typeof invalid === "string") {
+            setError(invalid);
+            return;
+        }
+        setError(null);
+
+        // Only overrides are stored; an empty object means the defaults
+        const settings: UnixfsSettingsOverrides = {};
+        if (form.chunker !== "fixed") settings.chunker = form.chunker;
+        if (typeof chunkSize === "number") settings.chunkSize = chunkSize;
+        if (typeof shardSplitThresholdBytes === "number") settings.shardSplitThresholdBytes = shardSplitThresholdBytes;
+
+        setSaving(true);
+        try {
+            await projectsService.update(project.id, { unixfsSettings: Object.keys(settings).length > 0 ? settings : null });
+            showToast("UnixFS settings saved", "success");
+            await onSaved();
+        } catch (err) {
+            console.error("[ProjectUnixfsSettings][save]", err);
+            const message = err instanceof AxiosError ? err.response?.data?.message : undefined;
+            showToast(message ?? "Failed to save UnixFS settings", "error");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>UnixFS Import</CardTitle>
+                <CardDescription>
+                    How the build output is split into blocks. These settings change the CIDs of later deployments; the ones used are recorded
+                    with each deployment. Blocks are hashed with SHA-256.
+                </CardDescription>
+            </CardHeader>
+            <CardContent>
+                <form className="space-y-4" onSubmit={handleSubmit}>
+                    <div className="grid gap-4 md:grid-cols-3">
+                        <div className="space-y-2">
+                            <Label htmlFor="unixfsChunker">Chunker</Label>
+                            <select
+                                id="unixfsChunker"
+                                className={selectClassName}
+                                value={form.chunker}
+                                onChange={(event) => setForm({ ...form, chunker: event.target.value as FormState["chunker"] })}>
+                                <option value="fixed">Fixed-size chunks</option>
+                                <option value="rabin">Rabin (content-defined) chunks</option>
+                            </select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="unixfsChunkSize">Chunk size (KiB)</Label>
+                            <Input
+                                id="unixfsChunkSize"
+                                type="number"
+                                placeholder="256"
+                                value={form.chunkSizeKib}
+                                onChange={(event) => setForm({ ...form, chunkSizeKib: event.target.value })}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="unixfsShardThreshold">Shard directories above (KiB)</Label>
+                            <Input
+                                id="unixfsShardThreshold"
+                                type="number"
+                                placeholder="256"
+                                value={form.shardThresholdKib}
+                                onChange={(event) => setForm({ ...form, shardThresholdKib: event.target.value })}
+                            />
+                        </div>
+                    </div>
+                    {error && <p className="text-sm text-destructive">{error}</p>}
+                    <p className="text-xs text-muted-foreground">
+                        Leave a size empty to use the default. With Rabin chunking the chunk size is the average.
+                    </p>
+                    <Button type="submit" disabled={saving}>
+                        {saving ? "Saving…" : "Save"}
+                    </Button>
+                </form>
+            </CardContent>
+        </Card>
+    );
+}
@@ -1,5 +1,6 @@
 import { useEffect, useRef } from 'react'
 import { deploymentsService } from '@/services/deployments.service'
+import { subscribeDeploymentStream } from '@/services/deployment-stream'
 import { useToast } from '@/context/toast-context'
 import type { Deployment } from '@/types'
 import { useAppKitAccount } from '@reown/appkit/react'
@@ -64,7 +65,9 @@ function isDocumentVisible() {
 }
 
 /**
- * Polls for deployments awaiting ENS signature.
+ * Watches for deployments awaiting ENS signature. Checks run when the event stream
+ * reports a deployment reaching awaiting_signature; the list endpoint is polled on
+ * an interval only while the stream is disconnected.
  * 
  * Note: Filecoin upload is now handled by the backend.
  * This hook only processes ENS signature requests once the
@@ -88,6 +91,7 @@ export function useAutoDeployPoller(enabled = true) {
     }
 
     let cancelled = false
+    let pollQueued = false
     let timer: number | undefined
 
     const processDeployment = async (deployment: Deployment) => {
@@ -201,7 +205,12 @@ export function useAutoDeployPoller(enabled = true) {
     }
 
     const poll = async () => {
-      if (cancelled || processingRef.current || !isDocumentVisible()) {
+      if (cancelled || !isDocumentVisible()) {
+        return
+      }
+      if (processingRef.current) {
+        // A status event arrived mid-poll; check again once this pass is done
+        pollQueued = true
         return
       }
 
@@ -229,18 +238,55 @@ export function useAutoDeployPoller(enabled = true) {
       } finally {
         processingRef.current = false
       }
+      if (pollQueued) {
+        pollQueued = false
+        void poll()
+      }
     }
 
+    const startPolling = () => {
+      if (timer === undefined) {
+        timer = window.setInterval(() => {
+          void poll()
+        }, POLL_INTERVAL_MS)
+      }
+    }
+
+    const stopPolling = () => {
+      if (timer !== undefined) {
+        clearInterval(timer)
+        timer = undefined
+      }
+    }
+
+    const handleVisibilityChange = () => {
+      if (isDocumentVisible()) {
+        void poll()
+      }
+    }
+
+    const unsubscribe = subscribeDeploymentStream(null, {
+      onOpen: () => {
+        stopPolling()
+        // Catch up on anything that reached awaiting_signature while disconnected
+        void poll()
+      },
+      onError: startPolling,
+      onStatus: (event) => {
+        if (event.status === 'awaiting_signature') {
+          void poll()
+        }
+      },
+    })
+
     void poll()
-    timer = window.setInterval(() => {
-      void poll()
-    }, POLL_INTERVAL_MS)
+    document.addEventListener('visibilitychange', handleVisibilityChange)
 
     return () => {
       cancelled = true
-      if (timer) {
-        clearInterval(timer)
-      }
+      unsubscribe()
+      stopPolling()
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
     }
   }, [enabled, showToast, walletClient, address])
 }
@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useState } from 'react'
+import type { DeploymentDiffResponse, DeploymentFilesResponse } from '@/types'
+import { deploymentsService } from '@/services/deployments.service'
+
+/** File manifest of a deployment and its changes since the previous deployment, once its CAR is built. */
+export function useDeploymentFiles(deploymentId: string | undefined, enabled: boolean) {
+  const [files, setFiles] = useState<DeploymentFilesResponse | null>(null)
+  const [diff, setDiff] = useState<DeploymentDiffResponse | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const fetchFiles = useCallback(async () => {
+    if (!deploymentId || !enabled) {
+      return
+    }
+    setLoading(true)
+    try {
+      const [filesResponse, diffResponse] = await Promise.all([
+        deploymentsService.getFiles(deploymentId),
+        // Deployments built before manifests were recorded have nothing to compare
+        deploymentsService.getDiff(deploymentId).catch(() => null),
+      ])
+      setFiles(filesResponse)
+      setDiff(diffResponse)
+    } catch (err) {
+      console.error('[useDeploymentFiles]', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [deploymentId, enabled])
+
+  useEffect(() => {
+    void fetchFiles()
+  }, [fetchFiles])
+
+  return { files, diff, loading, refresh: fetchFiles }
+}
@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { DeploymentLogChunk } from '@/types'
+import { deploymentsService } from '@/services/deployments.service'
+import { subscribeDeploymentStream } from '@/services/deployment-stream'
+
+const POLL_INTERVAL_MS = 1000
+
+/**
+ * Tails the live log chunks of a deployment until the backend reports the build
+ * pipeline has finished writing. Chunks arrive over the event stream; the logs
+ * endpoint is polled only while the stream is disconnected.
+ */
+export function useDeploymentLogs(deploymentId: string | undefined) {
+  const [chunks, setChunks] = useState<DeploymentLogChunk[]>([])
+  const [complete, setComplete] = useState(false)
+  const [streamConnected, setStreamConnected] = useState(false)
+  const lastSeqRef = useRef(-1)
+  const fetchingRef = useRef(false)
+  const refetchRef = useRef(false)
+
+  const fetchChunks = useCallback(async () => {
+    if (!deploymentId) {
+      return
+    }
+    if (fetchingRef.current) {
+      refetchRef.current = true
+      return
+    }
+    fetchingRef.current = true
+    try {
+      const data = await deploymentsService.getLogs(deploymentId, lastSeqRef.current)
+      const fresh = data.chunks.filter((chunk) => chunk.seq > lastSeqRef.current)
+      if (fresh.length > 0) {
+        lastSeqRef.current = fresh[fresh.length - 1].seq
+        setChunks((previous) => [...previous, ...fresh])
+      }
+      setComplete(data.complete)
+    } catch (err) {
+      console.error('[useDeploymentLogs]', err)
+    } finally {
+      fetchingRef.current = false
+    }
+    if (refetchRef.current) {
+      refetchRef.current = false
+      await fetchChunks()
+    }
+  }, [deploymentId])
+
+  useEffect(() => {
+    lastSeqRef.current = -1
+    setChunks([])
+    setComplete(false)
+    setStreamConnected(false)
+    void fetchChunks()
+
+    if (!deploymentId) {
+      return
+    }
+
+    return subscribeDeploymentStream(deploymentId, {
+      onOpen: () => setStreamConnected(true),
+      onError: () => setStreamConnected(false),
+      onLog: (chunk) => {
+        if (chunk.seq <= lastSeqRef.current) {
+          return
+        }
+        if (chunk.seq !== lastSeqRef.current + 1) {
+          // Missed chunks (e.g. while the initial fetch was in flight); read them back
+          void fetchChunks()
+          return
+        }
+        lastSeqRef.current = chunk.seq
+        setChunks((previous) => [...previous, chunk])
+      },
+      onStatus: () => {
+        void fetchChunks()
+      },
+    })
+  }, [deploymentId, fetchChunks])
+
+  useEffect(() => {
+    if (!deploymentId || complete || streamConnected) {
+      return
+    }
+
+    const timer = window.setInterval(() => {
+      void fetchChunks()
+    }, POLL_INTERVAL_MS)
+
+    return () => {
+      clearInterval(timer)
+    }
+  }, [deploymentId, complete, streamConnected, fetchChunks])
+
+  return {
+    chunks,
+    complete,
+  }
+}
@@ -1,14 +1,22 @@
-import { useCallback, useEffect, useRef, useState } from 'react'
-import type { Deployment } from '@/types'
+import { useCallback, useEffect, useState } from 'react'
+import type { Deployment, DeploymentProgressEvent } from '@/types'
 import { deploymentsService } from '@/services/deployments.service'
+import { subscribeDeploymentStream } from '@/services/deployment-stream'
 
 const POLL_INTERVAL_MS = 2000
+/** Queue positions move as other deployments start, which this stream doesn't report. */
+const QUEUE_REFRESH_INTERVAL_MS = 10_000
 
+/**
+ * Follows a deployment over the event stream, refetching it on each status change.
+ * Polls only while the stream is disconnected.
+ */
 export function useDeploymentStatus(deploymentId: string | undefined) {
   const [deployment, setDeployment] = useState<Deployment | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const pollRef = useRef<number | null>(null)
+  const [streamConnected, setStreamConnected] = useState(false)
+  const [uploadProgress, setUploadProgress] = useState<DeploymentProgressEvent | null>(null)
 
   const fetchDeployment = useCallback(async () => {
     if (!deploymentId) {
@@ -29,29 +37,66 @@ export function useDeploymentStatus(deploymentId: string | undefined) {
   useEffect(() => {
     setLoading(true)
     setDeployment(null)
+    setUploadProgress(null)
+    setStreamConnected(false)
     void fetchDeployment()
 
     if (!deploymentId) {
       return
     }
 
-    pollRef.current = window.setInterval(() => {
+    return subscribeDeploymentStream(deploymentId, {
+      onOpen: () => {
+        setStreamConnected(true)
+        // Catch up on anything that changed while disconnected
+        void fetchDeployment()
+      },
+      onError: () => setStreamConnected(false),
+      onStatus: (event) => {
+        if (event.status !== 'uploading') {
+          setUploadProgress(null)
+        }
+        void fetchDeployment()
+      },
+      onProgress: (event) => setUploadProgress(event),
+    })
+  }, [deploymentId, fetchDeployment])
+
+  const queued = deployment?.status === 'pending_build'
+
+  useEffect(() => {
+    if (!deploymentId || !streamConnected || !queued) {
+      return
+    }
+
+    const timer = window.setInterval(() => {
+      void fetchDeployment()
+    }, QUEUE_REFRESH_INTERVAL_MS)
+
+    return () => {
+      clearInterval(timer)
+    }
+  }, [deploymentId, streamConnected, queued, fetchDeployment])
+
+  useEffect(() => {
+    if (!deploymentId || streamConnected) {
+      return
+    }
+
+    const timer = window.setInterval(() => {
       void fetchDeployment()
     }, POLL_INTERVAL_MS)
 
     return () => {
-      if (pollRef.current) {
-        clearInterval(pollRef.current)
-      }
+      clearInterval(timer)
     }
-  }, [deploymentId, fetchDeployment])
+  }, [deploymentId, streamConnected, fetchDeployment])
 
   return {
     deployment,
     loading,
     error,
+    uploadProgress,
     refresh: fetchDeployment,
   }
 }
-
-
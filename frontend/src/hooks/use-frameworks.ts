@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react'
+import type { FrameworkSummary } from '@/types'
+import { frameworksService } from '@/services/frameworks.service'
+
+export function useFrameworks() {
+  const [frameworks, setFrameworks] = useState<FrameworkSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    frameworksService
+      .getAll()
+      .then((data) => {
+        if (!cancelled) setFrameworks(data)
+      })
+      .catch((err) => {
+        console.error('[useFrameworks]', err)
+        if (!cancelled) setError('Failed to load frameworks')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return { frameworks, loading, error }
+}
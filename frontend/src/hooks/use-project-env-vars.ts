@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useState } from 'react'
+import type { ProjectEnvVar } from '@/types'
+import { projectsService } from '@/services/projects.service'
+
+export function useProjectEnvVars(projectId: string | undefined) {
+  const [variables, setVariables] = useState<ProjectEnvVar[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchVariables = useCallback(async () => {
+    if (!projectId) {
+      return
+    }
+    try {
+      setLoading(true)
+      const data = await projectsService.listEnvVars(projectId)
+      setVariables(data)
+      setError(null)
+    } catch (err) {
+      console.error('[useProjectEnvVars]', err)
+      setError('Failed to load environment variables')
+    } finally {
+      setLoading(false)
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    void fetchVariables()
+  }, [fetchVariables])
+
+  return {
+    variables,
+    loading,
+    error,
+    refresh: fetchVariables,
+  }
+}
@@ -1,5 +1,5 @@
 import { useCallback, useEffect, useState } from 'react'
-import type { BranchSummary, RepositorySummary, GitHubInstallation } from '@/types'
+import type { BranchSummary, RepositorySummary, RepositoryWorkspace, GitHubInstallation } from '@/types'
 import { repositoriesService } from '@/services/repositories.service'
 
 export function useRepositories() {
@@ -64,3 +64,34 @@ export function useBranches(installationId: string | null, fullName: string | nu
 
   return { branches, loading, error, refresh: fetchBranches }
 }
+
+export function useRepositoryWorkspace(installationId: string | null, fullName: string | null, branch: string | null) {
+  const [workspace, setWorkspace] = useState<RepositoryWorkspace | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (!installationId || !fullName || !branch) {
+      setWorkspace(null)
+      return
+    }
+    let cancelled = false
+    setLoading(true)
+    repositoriesService
+      .getWorkspace(installationId, fullName, branch)
+      .then((data) => {
+        if (!cancelled) setWorkspace(data)
+      })
+      .catch((err) => {
+        console.error('[useRepositoryWorkspace]', err)
+        if (!cancelled) setWorkspace(null)
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [installationId, fullName, branch])
+
+  return { workspace, loading }
+}
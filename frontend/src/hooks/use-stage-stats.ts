@@ -0,0 +1,25 @@
+import { useCallback, useEffect, useState } from 'react'
+import type { ProjectStageStats } from '@/types'
+import { deploymentsService } from '@/services/deployments.service'
+
+export function useStageStats(projectId: string | undefined) {
+  const [stats, setStats] = useState<ProjectStageStats | null>(null)
+
+  const fetchStats = useCallback(async () => {
+    if (!projectId) {
+      return
+    }
+    try {
+      setStats(await deploymentsService.getStageStats(projectId))
+    } catch (err) {
+      // Percentiles are supplementary; the timeline renders without them
+      console.error('[useStageStats]', err)
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    void fetchStats()
+  }, [fetchStats])
+
+  return { stats, refresh: fetchStats }
+}
@@ -13,11 +13,15 @@ import { Separator } from "@/components/ui/separator";
 import { DeploymentStatusBadge } from "@/components/deployments/deployment-status-badge";
 import { DeploymentSteps } from "@/components/deployments/deployment-steps";
 import { DeploymentLogs } from "@/components/deployments/deployment-logs";
+import { DeploymentTimeline, StageStatsTable } from "@/components/deployments/deployment-timeline";
+import { DeploymentFiles } from "@/components/deployments/deployment-files";
 import { useDeploymentStatus } from "@/hooks/use-deployment-status";
 import { useProject } from "@/hooks/use-project";
+import { useStageStats } from "@/hooks/use-stage-stats";
+import { useDeploymentFiles } from "@/hooks/use-deployment-files";
 import { useToast } from "@/context/toast-context";
 import { deploymentsService } from "@/services/deployments.service";
-import type { DeploymentStatus } from "@/types";
+import type { DeploymentStatus, UnixfsSettings } from "@/types";
 import { useAutoDeployPoller } from "@/hooks/use-auto-deploy-poller";
 
 const CANCELLABLE_STATUSES = new Set<DeploymentStatus>([
@@ -30,6 +34,9 @@ const CANCELLABLE_STATUSES = new Set<DeploymentStatus>([
     "awaiting_confirmation"
 ]);
 
+// The file manifest is recorded with the CAR, after the build
+const PRE_CAR_STATUSES = new Set<DeploymentStatus>(["pending_build", "cloning", "building"]);
+
 function isUserRejectedRequest(error: unknown) {
     if (!error || typeof error !== "object") return false;
     const code = (error as { code?: number }).code;
@@ -38,11 +45,23 @@ function isUserRejectedRequest(error: unknown) {
     return message.includes("user rejected") || message.includes("rejected the request");
 }
 
+/** e.g. "fixed 256 KiB chunks, HAMT above 256 KiB, CIDv1" */
+function formatUnixfsSettings(settings: UnixfsSettings) {
+    const kib = (bytes: number) => (bytes % 1024 === 0 ? `${bytes / 1024} KiB` : `${bytes} bytes`);
+    const chunks = settings.chunker === "rabin" ? `rabin chunks (avg ${kib(settings.chunkSize)})` : `fixed ${kib(settings.chunkSize)} chunks`;
+    return `${chunks}, HAMT above ${kib(settings.shardSplitThresholdBytes)}, CIDv${settings.cidVersion}`;
+}
+
 export function DeploymentDetailPage() {
     const { deploymentId } = useParams<{ deploymentId: string }>();
     const navigate = useNavigate();
-    const { deployment, loading, error, refresh } = useDeploymentStatus(deploymentId);
+    const { deployment, loading, error, uploadProgress, refresh } = useDeploymentStatus(deploymentId);
     const { project } = useProject(deployment?.projectId);
+    const { stats: stageStats } = useStageStats(deployment?.projectId);
+    const { files: manifest, diff: comparison } = useDeploymentFiles(
+        deployment?.id,
+        Boolean(deployment && !PRE_CAR_STATUSES.has(deployment.status))
+    );
     const { showToast } = useToast();
     const [cancelling, setCancelling] = useState(false);
     const [refreshing, setRefreshing] = useState(false);
@@ -207,6 +226,11 @@ export function DeploymentDetailPage() {
                 </div>
                 <div className="flex flex-wrap items-center gap-2">
                     <DeploymentStatusBadge status={deployment.status} />
+                    {deployment.outcome === "unchanged" && (
+                        <Badge variant="outline" className="text-xs">
+                            Unchanged
+                        </Badge>
+                    )}
                     {deployment.triggeredBy && (
                         <Badge variant="outline" className="text-xs">
                             {deployment.triggeredBy === "webhook" ? "Auto" : "Manual"}
@@ -233,10 +257,26 @@ export function DeploymentDetailPage() {
                             <CardTitle>Progress</CardTitle>
                         </CardHeader>
                         <CardContent>
-                            <DeploymentSteps status={deployment.status} hasEns={Boolean(project?.ensName)} />
+                            <DeploymentSteps
+                                status={deployment.status}
+                                hasEns={Boolean(project?.ensName)}
+                                uploadProgress={uploadProgress}
+                                queue={deployment.queue}
+                            />
                         </CardContent>
                     </Card>
 
+                    {deployment.stages && deployment.stages.length > 0 && (
+                        <Card>
+                            <CardHeader>
+                                <CardTitle>Timeline</CardTitle>
+                            </CardHeader>
+                            <CardContent>
+                                <DeploymentTimeline stages={deployment.stages} stats={stageStats?.stages} />
+                            </CardContent>
+                        </Card>
+                    )}
+
                     {isAwaitingSignature && (
                         <Alert variant="warning">
                             <AlertDescription className="space-y-3">
@@ -283,6 +323,11 @@ export function DeploymentDetailPage() {
                         <Alert variant="success">
                             <AlertDescription className="space-y-2">
                                 <p className="font-semibold">Deployment complete 🎉</p>
+                                {deployment.outcome === "unchanged" && (
+                                    <p className="text-sm">
+                                        The build output is identical to the last successful deployment, so its upload was reused and no ENS update was needed.
+                                    </p>
+                                )}
                                 <div className="flex flex-col gap-1">
                                     {ipfsUrl && (
                                         <a
@@ -331,68 +376,135 @@ export function DeploymentDetailPage() {
                         </Alert>
                     )}
 
-                    <DeploymentLogs logs={deployment.buildLog} />
+                    <DeploymentLogs deploymentId={deployment.id} logs={deployment.buildLog} />
+
+                    {manifest && manifest.totalFiles > 0 && (
+                        <Card>
+                            <CardHeader>
+                                <CardTitle>Files</CardTitle>
+                            </CardHeader>
+                            <CardContent>
+                                <DeploymentFiles manifest={manifest} comparison={comparison} />
+                            </CardContent>
+                        </Card>
+                    )}
                 </div>
 
                 {/* Metadata Sidebar */}
-                <Card>
-                    <CardHeader>
-                        <CardTitle>Metadata</CardTitle>
-                    </CardHeader>
-                    <CardContent className="space-y-4 text-sm">
-                        <div>
-                            <p className="text-muted-foreground mb-1">Project</p>
-                            <p className="font-semibold">{project?.name ?? project?.repoFullName ?? deployment.projectId}</p>
-                        </div>
-                        <Separator />
-                        <div>
-                            <p className="text-muted-foreground mb-1">Trigger</p>
-                            <p className="font-semibold capitalize">{deployment.triggeredBy ?? "—"}</p>
-                        </div>
-                        <Separator />
-                        {deployment.commitSha && (
-                            <>
-                                <div>
-                                    <p className="text-muted-foreground mb-1">Commit</p>
+                <div className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Metadata</CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-4 text-sm">
+                            <div>
+                                <p className="text-muted-foreground mb-1">Project</p>
+                                <p className="font-semibold">{project?.name ?? project?.repoFullName ?? deployment.projectId}</p>
+                            </div>
+                            <Separator />
+                            <div>
+                                <p className="text-muted-foreground mb-1">Trigger</p>
+                                <p className="font-semibold capitalize">{deployment.triggeredBy ?? "—"}</p>
+                            </div>
+                            <Separator />
+                            {deployment.gitRef && (
+                                <>
+                                    <div>
+                                        <p className="text-muted-foreground mb-1">Ref</p>
+                                        <p className="font-mono text-xs break-all">{deployment.gitRef}</p>
+                                    </div>
+                                    <Separator />
+                                </>
+                            )}
+                            {deployment.commitSha && (
+                                <>
+                                    <div>
+                                        <p className="text-muted-foreground mb-1">Commit</p>
+                                        <a
+                                            href={project?.repoUrl ? `${project.repoUrl}/commit/${deployment.commitSha}` : undefined}
+                                            target="_blank"
+                                            rel="noreferrer"
+                                            className="font-mono text-xs text-primary hover:underline underline-offset-2 break-all">
+                                            {deployment.commitSha.slice(0, 7)}
+                                            {deployment.commitMessage &&
+                                                ` – ${deployment.commitMessage.slice(0, 30)}${deployment.commitMessage.length > 30 ? "…" : ""}`}
+                                        </a>
+                                    </div>
+                                    <Separator />
+                                </>
+                            )}
+                            <div>
+                                <p className="text-muted-foreground mb-1">ENS</p>
+                                <p className="font-semibold">{project?.ensName ?? "—"}</p>
+                            </div>
+                            <Separator />
+                            <div>
+                                <p className="text-muted-foreground mb-1">IPFS CID</p>
+                                <p className="font-mono text-xs break-all">{deployment.ipfsCid ?? "—"}</p>
+                            </div>
+                            <Separator />
+                            {deployment.pieceCid && (
+                                <>
+                                    <div>
+                                        <p className="text-muted-foreground mb-1">Piece CID</p>
+                                        <p className="font-mono text-xs break-all">{deployment.pieceCid}</p>
+                                    </div>
+                                    <Separator />
+                                </>
+                            )}
+                            {deployment.carVerification && (
+                                <>
+                                    <div>
+                                        <p className="text-muted-foreground mb-1">CAR integrity</p>
+                                        {deployment.carVerification.status === "passed" ? (
+                                            <p className="text-xs text-success">
+                                                {deployment.carVerification.providerPieceCid ? "Verified, piece CID confirmed by the provider" : "Verified before upload"}{" "}
+                                                ({deployment.carVerification.blockCount} blocks)
+                                            </p>
+                                        ) : (
+                                            <p className="text-xs text-destructive break-all">{deployment.carVerification.error}</p>
+                                        )}
+                                    </div>
+                                    <Separator />
+                                </>
+                            )}
+                            {deployment.unixfsSettings && (
+                                <>
+                                    <div>
+                                        <p className="text-muted-foreground mb-1">UnixFS</p>
+                                        <p className="text-xs">{formatUnixfsSettings(deployment.unixfsSettings)}</p>
+                                    </div>
+                                    <Separator />
+                                </>
+                            )}
+                            <div>
+                                <p className="text-muted-foreground mb-1">ENS Transaction</p>
+                                {deployment.ensTxHash && etherscanUrl ? (
                                     <a
-                                        href={project?.repoUrl ? `${project.repoUrl}/commit/${deployment.commitSha}` : undefined}
+                                        href={etherscanUrl}
                                         target="_blank"
                                         rel="noreferrer"
                                         className="font-mono text-xs text-primary hover:underline underline-offset-2 break-all">
-                                        {deployment.commitSha.slice(0, 7)}
-                                        {deployment.commitMessage &&
-                                            ` – ${deployment.commitMessage.slice(0, 30)}${deployment.commitMessage.length > 30 ? "…" : ""}`}
+                                        {deployment.ensTxHash.slice(0, 10)}...
                                     </a>
-                                </div>
-                                <Separator />
-                            </>
-                        )}
-                        <div>
-                            <p className="text-muted-foreground mb-1">ENS</p>
-                            <p className="font-semibold">{project?.ensName ?? "—"}</p>
-                        </div>
-                        <Separator />
-                        <div>
-                            <p className="text-muted-foreground mb-1">IPFS CID</p>
-                            <p className="font-mono text-xs break-all">{deployment.ipfsCid ?? "—"}</p>
-                        </div>
-                        <Separator />
-                        <div>
-                            <p className="text-muted-foreground mb-1">ENS Transaction</p>
-                            {deployment.ensTxHash && etherscanUrl ? (
-                                <a
-                                    href={etherscanUrl}
-                                    target="_blank"
-                                    rel="noreferrer"
-                                    className="font-mono text-xs text-primary hover:underline underline-offset-2 break-all">
-                                    {deployment.ensTxHash.slice(0, 10)}...
-                                </a>
-                            ) : (
-                                <p className="font-mono text-xs">—</p>
-                            )}
-                        </div>
-                    </CardContent>
-                </Card>
+                                ) : (
+                                    <p className="font-mono text-xs">—</p>
+                                )}
+                            </div>
+                        </CardContent>
+                    </Card>
+
+                    {stageStats && stageStats.sampleSize > 0 && (
+                        <Card>
+                            <CardHeader>
+                                <CardTitle>Stage durations</CardTitle>
+                            </CardHeader>
+                            <CardContent>
+                                <StageStatsTable stats={stageStats.stages} sampleSize={stageStats.sampleSize} />
+                            </CardContent>
+                        </Card>
+                    )}
+                </div>
             </div>
         </div>
     );
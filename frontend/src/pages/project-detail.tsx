@@ -4,6 +4,7 @@ import { AxiosError } from "axios";
 import { useNavigate, useParams } from "react-router-dom";
 import { ArrowLeft, Rocket, ExternalLink, Globe, GitBranch, Terminal, FolderOutput, Clock, AlertTriangle, Settings } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Spinner } from "@/components/ui/spinner";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -17,6 +18,8 @@ import { projectsService } from "@/services/projects.service";
 import { repositoriesService } from "@/services/repositories.service";
 import { useToast } from "@/context/toast-context";
 import { DeploymentStatusBadge } from "@/components/deployments/deployment-status-badge";
+import { ProjectEnvVars } from "@/components/projects/project-env-vars";
+import { ProjectUnixfsSettings } from "@/components/projects/project-unixfs-settings";
 import { useAutoDeployPoller } from "@/hooks/use-auto-deploy-poller";
 import { useAppKitAccount } from "@reown/appkit/react";
 import { useWalletClient, usePublicClient } from "wagmi";
@@ -43,6 +46,7 @@ export function ProjectDetailPage() {
     const { project, githubAppName, loading, error, refresh } = useProject(projectId);
     const { showToast } = useToast();
     const [isDeploying, setIsDeploying] = useState(false);
+    const [deployRef, setDeployRef] = useState("");
     const [branchOptions, setBranchOptions] = useState<string[]>([]);
     const [branchLoading, setBranchLoading] = useState(false);
     const [branchSaving, setBranchSaving] = useState(false);
@@ -264,7 +268,7 @@ export function ProjectDetailPage() {
         if (!project) return;
         try {
             setIsDeploying(true);
-            const { deploymentId } = await deploymentsService.create(project.id);
+            const { deploymentId } = await deploymentsService.create(project.id, deployRef.trim() || undefined);
             showToast("Deployment started", "success");
             navigate(`/deployments/${deploymentId}`);
         } catch (err) {
@@ -328,10 +332,19 @@ export function ProjectDetailPage() {
                         <ExternalLink className="h-4 w-4" />
                     </a>
                 </div>
-                <Button onClick={handleDeploy} disabled={isDeploying || projectBusy || isDisconnected} size="lg">
-                    <Rocket className="h-4 w-4" />
-                    {isDeploying ? "Deploying..." : projectBusy ? "Deployment running" : "Deploy now"}
-                </Button>
+                <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+                    <Input
+                        value={deployRef}
+                        onChange={(event) => setDeployRef(event.target.value)}
+                        placeholder={`Branch, tag or commit (default: ${project.repoBranch || "main"})`}
+                        disabled={isDeploying || projectBusy || isDisconnected}
+                        className="font-mono text-sm sm:w-72"
+                    />
+                    <Button onClick={handleDeploy} disabled={isDeploying || projectBusy || isDisconnected} size="lg">
+                        <Rocket className="h-4 w-4" />
+                        {isDeploying ? "Deploying..." : projectBusy ? "Deployment running" : "Deploy now"}
+                    </Button>
+                </div>
             </div>
 
             {isDisconnected && (
@@ -585,6 +598,8 @@ export function ProjectDetailPage() {
                             </div>
                         </CardContent>
                     </Card>
+                    <ProjectEnvVars projectId={project.id} />
+                    <ProjectUnixfsSettings project={project} onSaved={refresh} />
                 </TabsContent>
             </Tabs>
             {/* Attach ENS Dialog */}
@@ -0,0 +1,94 @@
+import type { DeploymentLogChunk, DeploymentProgressEvent, DeploymentStatusEvent } from '@/types'
+import { API_URL } from '@/utils/constants'
+
+export type DeploymentStreamListener = {
+  onStatus?: (event: DeploymentStatusEvent) => void
+  onProgress?: (event: DeploymentProgressEvent) => void
+  /** Only emitted on single-deployment streams. */
+  onLog?: (chunk: DeploymentLogChunk) => void
+  onOpen?: () => void
+  /** The connection dropped; EventSource keeps retrying in the background. */
+  onError?: () => void
+}
+
+type SharedStream = {
+  source: EventSource
+  listeners: Set<DeploymentStreamListener>
+}
+
+// One EventSource per URL, shared by every hook subscribed to it
+const streams = new Map<string, SharedStream>()
+
+function parse<T>(event: Event): T | null {
+  try {
+    return JSON.parse((event as MessageEvent<string>).data) as T
+  } catch {
+    return null
+  }
+}
+
+function openStream(url: string): SharedStream {
+  const source = new EventSource(url, { withCredentials: true })
+  const stream: SharedStream = { source, listeners: new Set() }
+
+  const dispatch = <T>(event: Event, pick: (listener: DeploymentStreamListener) => ((data: T) => void) | undefined) => {
+    const data = parse<T>(event)
+    if (!data) return
+    for (const listener of stream.listeners) {
+      pick(listener)?.(data)
+    }
+  }
+
+  source.addEventListener('status', (event) => dispatch<DeploymentStatusEvent>(event, (listener) => listener.onStatus))
+  source.addEventListener('progress', (event) =>
+    dispatch<DeploymentProgressEvent>(event, (listener) => listener.onProgress)
+  )
+  source.addEventListener('log', (event) => dispatch<DeploymentLogChunk>(event, (listener) => listener.onLog))
+  source.addEventListener('open', () => {
+    for (const listener of stream.listeners) {
+      listener.onOpen?.()
+    }
+  })
+  source.addEventListener('error', () => {
+    for (const listener of stream.listeners) {
+      listener.onError?.()
+    }
+  })
+
+  return stream
+}
+
+/**
+ * Subscribe to deployment events over server-sent events. Pass a deployment id for
+ * one deployment (status, progress and log chunks) or null for all of the user's
+ * deployments (status and progress). Returns an unsubscribe function.
+ */
+export function subscribeDeploymentStream(deploymentId: string | null, listener: DeploymentStreamListener) {
+  if (typeof EventSource === 'undefined') {
+    listener.onError?.()
+    return () => {
+      // Nothing was subscribed, so there is nothing to undo
+    }
+  }
+
+  const url = deploymentId ? `${API_URL}/deployments/${deploymentId}/stream` : `${API_URL}/deployments/stream`
+  let stream = streams.get(url)
+  if (!stream) {
+    stream = openStream(url)
+    streams.set(url, stream)
+  }
+  stream.listeners.add(listener)
+
+  if (stream.source.readyState === EventSource.OPEN) {
+    listener.onOpen?.()
+  }
+
+  const current = stream
+  return () => {
+    current.listeners.delete(listener)
+    if (current.listeners.size === 0) {
+      current.source.close()
+      streams.delete(url)
+    }
+  }
+}
@@ -1,4 +1,10 @@
-import type { Deployment } from '@/types'
+import type {
+  Deployment,
+  DeploymentDiffResponse,
+  DeploymentFilesResponse,
+  DeploymentLogsResponse,
+  ProjectStageStats,
+} from '@/types'
 import { api } from './api'
 
 export type PreparedEnsPayload = {
@@ -12,18 +18,40 @@ export type PreparedEnsPayload = {
 }
 
 export const deploymentsService = {
-  async create(projectId: string) {
-    const { data } = await api.post<{ deploymentId: string }>('/deployments', { projectId })
+  /** `ref` deploys a branch, tag or commit instead of the project's branch */
+  async create(projectId: string, ref?: string) {
+    const { data } = await api.post<{ deploymentId: string }>('/deployments', { projectId, ref })
     return data
   },
   async getById(id: string) {
     const { data } = await api.get<Deployment>(`/deployments/${id}`)
     return data
   },
+  async getLogs(id: string, after = -1) {
+    const { data } = await api.get<DeploymentLogsResponse>(`/deployments/${id}/logs`, {
+      params: { after },
+    })
+    return data
+  },
+  async getFiles(id: string) {
+    const { data } = await api.get<DeploymentFilesResponse>(`/deployments/${id}/files`)
+    return data
+  },
+  /** Compares with `base`, or with the project's previous deployment when omitted */
+  async getDiff(id: string, base?: string) {
+    const { data } = await api.get<DeploymentDiffResponse>(`/deployments/${id}/diff`, {
+      params: { base },
+    })
+    return data
+  },
   async listByProject(projectId: string) {
     const { data } = await api.get<Deployment[]>(`/projects/${projectId}/deployments`)
     return data
   },
+  async getStageStats(projectId: string) {
+    const { data } = await api.get<ProjectStageStats>(`/projects/${projectId}/stage-stats`)
+    return data
+  },
   async list(params?: { status?: string; limit?: number }) {
     const { data } = await api.get<Deployment[]>('/deployments', {
       params,
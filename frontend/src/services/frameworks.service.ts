@@ -0,0 +1,9 @@
+import type { FrameworkSummary } from '@/types'
+import { api } from './api'
+
+export const frameworksService = {
+  async getAll() {
+    const { data } = await api.get<FrameworkSummary[]>('/frameworks')
+    return data
+  },
+}
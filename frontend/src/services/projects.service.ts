@@ -1,4 +1,11 @@
-import type { Project } from '@/types'
+import type {
+  EnvVarTarget,
+  GatewayPathMode,
+  PackageManager,
+  Project,
+  ProjectEnvVar,
+  UnixfsSettingsOverrides,
+} from '@/types'
 import { api } from './api'
 import type { Network } from '@/context/network-context'
 
@@ -15,11 +22,32 @@ type CreateProjectPayload = {
   buildCommand?: string
   outputDir?: string
   frontendDir?: string
+  packageManager?: PackageManager
+  installCommand?: string
+  gitSubmodules?: boolean
+  gitLfs?: boolean
+  nodeVersion?: string
+  generatorVersion?: string
+  gatewayPathMode?: GatewayPathMode
+  forceReupload?: boolean
+  unixfsSettings?: UnixfsSettingsOverrides | null
   force?: boolean
 }
 
 type UpdateProjectPayload = Partial<Omit<CreateProjectPayload, 'network'>> & {
   autoDeployBranch?: string
+  buildCpus?: number | null
+  buildMemoryMb?: number | null
+  buildDiskMb?: number | null
+  buildNetworkEnabled?: boolean
+}
+
+type EnvVarPayload = {
+  key: string
+  value: string
+  isSecret?: boolean
+  target?: EnvVarTarget
+  branch?: string | null
 }
 
 type ProjectsListResponse = {
@@ -91,4 +119,19 @@ export const projectsService = {
     }>(`/projects/${id}/github/relink`, { installationId })
     return data
   },
+  async listEnvVars(id: string) {
+    const { data } = await api.get<{ variables: ProjectEnvVar[] }>(`/projects/${id}/env`)
+    return data.variables
+  },
+  async createEnvVar(id: string, payload: EnvVarPayload) {
+    const { data } = await api.post<ProjectEnvVar>(`/projects/${id}/env`, payload)
+    return data
+  },
+  async updateEnvVar(id: string, envId: string, payload: Partial<EnvVarPayload>) {
+    const { data } = await api.put<ProjectEnvVar>(`/projects/${id}/env/${envId}`, payload)
+    return data
+  },
+  async deleteEnvVar(id: string, envId: string) {
+    await api.delete(`/projects/${id}/env/${envId}`)
+  },
 }
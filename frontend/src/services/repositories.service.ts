@@ -1,4 +1,4 @@
-import type { BranchSummary, RepositorySummary, GitHubInstallationsResponse } from '@/types'
+import type { BranchSummary, RepositorySummary, RepositoryWorkspace, GitHubInstallationsResponse } from '@/types'
 import { api } from './api'
 
 export const repositoriesService = {
@@ -18,6 +18,18 @@ export const repositoriesService = {
     return data
   },
 
+  async getWorkspace(installationId: string, fullName: string, branch?: string) {
+    const [owner, repo] = fullName.split('/')
+    if (!owner || !repo) {
+      throw new Error('Invalid repository name')
+    }
+    const { data } = await api.get<RepositoryWorkspace>(
+      `/repositories/${installationId}/${owner}/${repo}/workspace`,
+      { params: branch ? { branch } : undefined }
+    )
+    return data
+  },
+
   async getInstallations() {
     const { data } = await api.get<GitHubInstallationsResponse>('/github/installations')
     return data
@@ -1,3 +1,5 @@
+import type { UnixfsSettings } from './project'
+
 export type DeploymentStatus =
   | 'pending_build'
   | 'cloning'
@@ -10,15 +12,79 @@ export type DeploymentStatus =
   | 'failed'
   | 'cancelled'
 
+export interface DeploymentQueuePosition {
+  /** 1 when the deployment is next in line */
+  position: number
+  estimatedStartAt: string
+}
+
+export type DeploymentTimingStage =
+  | 'queued'
+  | 'setup'
+  | 'clone'
+  | 'install'
+  | 'build'
+  | 'car'
+  | 'upload'
+  | 'ens_signature'
+  | 'ens_confirmation'
+
+export interface DeploymentStageTiming {
+  stage: DeploymentTimingStage
+  startedAt: string
+  /** Null while the stage is still running */
+  endedAt: string | null
+  durationMs: number | null
+  outcome: 'success' | 'failed' | 'cancelled' | 'interrupted' | null
+}
+
+export interface StageDurationStats {
+  stage: DeploymentTimingStage
+  count: number
+  p50Ms: number
+  p95Ms: number
+}
+
+export interface ProjectStageStats {
+  /** Number of recent deployments the percentiles are computed over */
+  sampleSize: number
+  stages: StageDurationStats[]
+}
+
+/** Checks of the CAR before upload, and of the provider's piece CID after */
+export interface CarVerification {
+  status: 'passed' | 'failed'
+  rootCid: string
+  blockCount: number
+  reachableBlocks: number
+  carBytes: number
+  pieceCid: string | null
+  providerPieceCid: string | null
+  error: string | null
+  verifiedAt: string
+}
+
 export interface Deployment {
   id: string
   projectId: string
   status: DeploymentStatus
+  /** Only set while the deployment is waiting for a build slot */
+  queue?: DeploymentQueuePosition | null
+  stages?: DeploymentStageTiming[]
   buildLog?: string | null
   ipfsCid?: string | null
+  /** Filecoin piece of the upload, or of the deployment whose upload was reused */
+  pieceCid?: string | null
+  /** `unchanged` when the build matched the last successful deployment and nothing was uploaded */
+  outcome?: 'unchanged' | null
+  /** Import settings the CAR was built with */
+  unixfsSettings?: UnixfsSettings | null
+  carVerification?: CarVerification | null
   ensTxHash?: string | null
   errorMessage?: string | null
   triggeredBy?: 'manual' | 'webhook' | null
+  /** Branch, tag or commit that was requested; null builds the project's branch */
+  gitRef?: string | null
   commitSha?: string | null
   commitMessage?: string | null
   createdAt: string
@@ -26,3 +92,76 @@ export interface Deployment {
 }
 
 
+
+export interface DeploymentFile {
+  /** Path inside the deployment, with forward slashes */
+  path: string
+  size: number
+  contentType: string
+  /** UnixFS CID of the file within the deployment */
+  cid: string
+}
+
+export interface DeploymentFilesResponse {
+  files: DeploymentFile[]
+  totalFiles: number
+  totalSize: number
+}
+
+export interface ChangedDeploymentFile {
+  path: string
+  size: number
+  previousSize: number
+  sizeDelta: number
+  contentType: string
+}
+
+export interface DeploymentDiff {
+  added: DeploymentFile[]
+  removed: DeploymentFile[]
+  /** Files at the same path whose content differs */
+  changed: ChangedDeploymentFile[]
+  unchanged: number
+  sizeDelta: number
+}
+
+export interface DeploymentDiffResponse {
+  /** Null when there is no earlier deployment with a file manifest */
+  base: { id: string; createdAt: string } | null
+  diff: DeploymentDiff | null
+}
+
+export type DeploymentLogStage = 'setup' | 'clone' | 'install' | 'build' | 'car' | 'upload' | 'ens'
+
+export interface DeploymentLogChunk {
+  seq: number
+  stage: DeploymentLogStage
+  content: string
+  createdAt: string
+}
+
+export interface DeploymentLogsResponse {
+  chunks: DeploymentLogChunk[]
+  lastSeq: number
+  status: DeploymentStatus
+  complete: boolean
+}
+
+export interface DeploymentStatusEvent {
+  type: 'status'
+  deploymentId: string
+  projectId: string
+  status: DeploymentStatus
+  ipfsCid: string | null
+  errorMessage: string | null
+  completedAt: string | null
+}
+
+export interface DeploymentProgressEvent {
+  type: 'progress'
+  deploymentId: string
+  projectId: string
+  status: string
+  progress: number
+  message?: string
+}
@@ -2,6 +2,24 @@ import type { Deployment } from './deployment'
 
 export type Network = 'mainnet' | 'sepolia'
 
+export type PackageManager = 'npm' | 'pnpm' | 'yarn' | 'bun'
+
+export type GatewayPathMode = 'report' | 'rewrite' | 'base-path'
+
+export interface UnixfsSettings {
+  cidVersion: 1
+  rawLeaves: true
+  chunker: 'fixed' | 'rabin'
+  /** Bytes; the average for Rabin chunking */
+  chunkSize: number
+  shardSplitThresholdBytes: number
+}
+
+/** Project overrides; unset fields use the defaults */
+export type UnixfsSettingsOverrides = Partial<
+  Pick<UnixfsSettings, 'chunker' | 'chunkSize' | 'shardSplitThresholdBytes'>
+>
+
 export interface Project {
   id: string
   userId: string
@@ -18,12 +36,50 @@ export interface Project {
   buildCommand?: string | null
   outputDir?: string | null
   frontendDir?: string | null
+  packageManager?: PackageManager | null
+  installCommand?: string | null
+  buildCpus?: number | null
+  buildMemoryMb?: number | null
+  buildDiskMb?: number | null
+  buildNetworkEnabled: boolean
+  gitSubmodules: boolean
+  gitLfs: boolean
+  nodeVersion?: string | null
+  generatorVersion?: string | null
+  gatewayPathMode: GatewayPathMode
+  /** Upload and update ENS even when the build is unchanged */
+  forceReupload: boolean
+  unixfsSettings?: UnixfsSettingsOverrides | null
   webhookEnabled: boolean
   createdAt: string
   updatedAt: string
   deployments?: Deployment[]
 }
 
+export type EnvVarTarget = 'all' | 'production' | 'preview'
+
+export interface ProjectEnvVar {
+  id: string
+  key: string
+  /** Null for secrets, whose values are write-only */
+  value: string | null
+  isSecret: boolean
+  target: EnvVarTarget
+  branch: string | null
+  createdAt: string
+  updatedAt: string
+}
+
 export type ProjectListItem = Project & {
   deployments: Deployment[]
 }
+
+export interface FrameworkSummary {
+  id: string
+  name: string
+  /** Built with Node.js, with a static site generator, or deployed as-is */
+  kind: 'node' | 'generator' | 'static'
+  /** Null for plain static sites, which are deployed without a build */
+  buildCommand: string | null
+  outputDir: string | null
+}
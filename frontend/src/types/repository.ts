@@ -17,6 +17,20 @@ export interface BranchSummary {
   protected: boolean
 }
 
+export interface WorkspacePackageSummary {
+  name: string
+  /** Relative to the repository root */
+  dir: string
+  hasBuildScript: boolean
+}
+
+export interface RepositoryWorkspace {
+  /** Null when the repository is not a workspace/monorepo */
+  source: 'pnpm-workspace.yaml' | 'package.json' | null
+  orchestrator: 'turbo' | 'nx' | null
+  packages: WorkspacePackageSummary[]
+}
+
 export interface GitHubInstallation {
   id: string
   installationId: number